@@ -1,25 +1,70 @@
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { basename, dirname, join } from 'path';
+import type { ProviderCapabilities } from './src/providers/registry.js';
+import type { RetryPolicy } from './src/providers/retry.js';
+import type { GenerationSettings } from './src/providers/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const projectRoot = basename(__dirname) === 'dist' ? join(__dirname, '..') : __dirname;
-dotenv.config({ path: join(projectRoot, '.env'), quiet: true });
+export const ENV_FILE_PATH = join(projectRoot, '.env');
+dotenv.config({ path: ENV_FILE_PATH, quiet: true });
 
 export interface ModelConfig {
+  id?: string; // Unique member ID (defaults to a slug of the name, e.g., "llama-4-maverick")
   name: string; // Display name (e.g., "GPT")
-  provider: string; // Provider type (e.g., "openai")
-  apiKey?: string; // From env
+  provider: string; // Provider type (e.g., "openai", "openai-compatible", "ollama")
+  apiKey?: string; // Literal API key (prefer apiKeyEnv so keys can be rotated without a restart)
+  apiKeyEnv?: string; // Name of the env var holding the API key, read whenever members are built
+  baseURL?: string; // Endpoint for "openai-compatible" (e.g., "http://localhost:8000/v1") or "ollama" host
+  headers?: Record<string, string>; // Extra HTTP headers for "openai-compatible" requests
   models: string[]; // Array of model IDs to try (first = primary, rest = fallbacks)
+  aliases?: string[]; // Other names accepted in consult_llm_council's `models` (e.g., "claude")
+  tags?: string[]; // Free-form labels selectable as "tag:<name>" (e.g., "coding", "vision", "local")
+  hedgeAfterMs?: number; // Start the next fallback in parallel if no answer within N ms
+  streamContinuation?: boolean; // Let the next fallback continue a stream that failed mid-way
+  retry?: Partial<RetryPolicy>; // Backoff for 429/5xx/network errors (defaults: 3 attempts, 30s cap)
+  settings?: GenerationSettings; // System prompt, temperature, topP, maxOutputTokens, seed, stopSequences, providerOptions
+  modelSettings?: Record<string, GenerationSettings>; // Per-model overrides, keyed by an entry of `models`
+  personas?: PersonaConfig[]; // Seat the member once per persona instead of once
+  capabilities?: Partial<ProviderCapabilities>; // Overrides what the provider reports for the primary model (e.g., a local model without vision)
 }
 
-function getEnvVar(name: string): string | undefined {
-  const value = process.env[name];
-  if (!value || value.trim() === '') {
-    return undefined;
-  }
-  return value;
+/**
+ * A persona of a council member: a separate voice that shares the member's provider and
+ * models but answers with its own system prompt and settings
+ * Seated as "<member name> (<persona name>)" with ID "<member id>.<persona id>"
+ */
+export interface PersonaConfig extends GenerationSettings {
+  id?: string; // Defaults to a slug of the name (e.g., "security-reviewer")
+  name: string; // e.g., "Security reviewer"
+}
+
+/**
+ * List price of a model in USD per million tokens, used to estimate consultation cost
+ * Reasoning tokens are billed as output tokens; cached input falls back to the input price
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion?: number; // Price of prompt tokens read from the provider's cache
+}
+
+/**
+ * A member entry of a preset, with overrides that only apply when the preset is used
+ */
+export interface PresetMemberConfig {
+  name: string; // Council member ID or name
+  models?: string[]; // Model chain to use instead of the member's own (e.g., a faster model)
+  settings?: GenerationSettings; // Merged over the preset's settings
+}
+
+export interface PresetConfig {
+  name: string; // Selected with `preset` on consult_llm_council (e.g., "fast")
+  description?: string;
+  members: Array<string | PresetMemberConfig>; // Member names, or entries with overrides
+  settings?: GenerationSettings; // Applied over each member's own settings
 }
 
 /**
@@ -33,16 +78,23 @@ export const COUNCIL_MODELS: ModelConfig[] = [
   {
     name: 'Claude',
     provider: 'anthropic',
-    apiKey: getEnvVar('ANTHROPIC_API_KEY'),
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    aliases: ['anthropic', 'sonnet'],
+    tags: ['coding', 'vision'],
     models: [
       'claude-sonnet-4-5-20250929', // Primary: Latest Sonnet 4.5
       'claude-sonnet-3-5-20241022', // Fallback: Sonnet 3.5
     ],
+    // Per-member and per-model generation settings, e.g.:
+    // settings: { systemPrompt: 'You are a skeptical senior reviewer.', temperature: 0.3 },
+    // modelSettings: { 'claude-sonnet-3-5-20241022': { maxOutputTokens: 4096 } },
   },
   {
     name: 'GPT',
     provider: 'openai',
-    apiKey: getEnvVar('OPENAI_API_KEY'),
+    apiKeyEnv: 'OPENAI_API_KEY',
+    aliases: ['openai'],
+    tags: ['coding', 'vision'],
     models: [
       'gpt-5.2', // Primary: GPT-5.2 (requires org verification)
       'gpt-4o', // Fallback: GPT-4 Optimized (widely available)
@@ -52,7 +104,9 @@ export const COUNCIL_MODELS: ModelConfig[] = [
   {
     name: 'Gemini',
     provider: 'gemini',
-    apiKey: getEnvVar('GEMINI_API_KEY'),
+    apiKeyEnv: 'GEMINI_API_KEY',
+    aliases: ['google'],
+    tags: ['coding'],
     models: [
       'gemini-2.5-pro', // Primary: Best general Gemini
       'gemini-2.5-flash', // Fallback: Faster, lower cost
@@ -61,7 +115,9 @@ export const COUNCIL_MODELS: ModelConfig[] = [
   {
     name: 'Grok',
     provider: 'xai',
-    apiKey: getEnvVar('XAI_API_KEY'),
+    apiKeyEnv: 'XAI_API_KEY',
+    aliases: ['xai'],
+    tags: ['vision'],
     models: [
       'grok-3-beta', // Primary: Latest Grok
     ],
@@ -69,10 +125,95 @@ export const COUNCIL_MODELS: ModelConfig[] = [
   {
     name: 'Llama 4 Maverick',
     provider: 'groq',
-    apiKey: getEnvVar('GROQ_API_KEY'),
+    apiKeyEnv: 'GROQ_API_KEY',
+    aliases: ['llama', 'groq'],
+    tags: ['cheap', 'vision'],
     models: [
       'meta-llama/llama-4-maverick-17b-128e-instruct', // Primary: Llama 4 Maverick (128 experts)
       'llama-3.3-70b-versatile', // Fallback: Llama 3.3
     ],
   },
+  // Several members can use the same provider type; give each a unique id:
+  // {
+  //   id: 'claude-opus',
+  //   name: 'Claude Opus',
+  //   provider: 'anthropic',
+  //   models: ['claude-opus-4-1-20250805'],
+  // },
+  // One API key, several voices: each persona is seated as its own member
+  // {
+  //   id: 'gpt-panel',
+  //   name: 'GPT',
+  //   provider: 'openai',
+  //   models: ['gpt-4o'],
+  //   personas: [
+  //     { name: 'Security reviewer', systemPrompt: 'Review for vulnerabilities and unsafe defaults.', temperature: 0.2 },
+  //     { name: 'Performance skeptic', systemPrompt: 'Question every claim about speed and scale.' },
+  //     { name: "Devil's advocate", systemPrompt: 'Argue against the prevailing answer.', temperature: 1 },
+  //   ],
+  // },
+  // Any OpenAI-compatible server (vLLM, LM Studio, llama.cpp) can join the council:
+  // {
+  //   name: 'Local Qwen',
+  //   provider: 'openai-compatible',
+  //   baseURL: 'http://localhost:8000/v1',
+  //   apiKeyEnv: 'VLLM_API_KEY', // Optional - omit for servers without auth
+  //   models: ['Qwen/Qwen2.5-7B-Instruct'],
+  //   tags: ['local'],
+  // },
+  // Fully local members via Ollama (host defaults to OLLAMA_HOST or http://127.0.0.1:11434):
+  // {
+  //   name: 'Local Llama',
+  //   provider: 'ollama',
+  //   models: ['llama3.2', 'llama3.2:1b'],
+  //   tags: ['local', 'cheap'],
+  // },
+];
+
+/**
+ * Named council presets
+ * A preset picks a subset of COUNCIL_MODELS and can swap their models or sampling settings.
+ */
+export const COUNCIL_PRESETS: PresetConfig[] = [
+  {
+    name: 'fast',
+    description: 'Quick second opinion from the fastest members',
+    members: ['Llama 4 Maverick', { name: 'Gemini', models: ['gemini-2.5-flash'] }],
+    settings: { maxOutputTokens: 1024 },
+  },
+  {
+    name: 'deep',
+    description: 'Strongest models for hard design and debugging questions',
+    members: [
+      'Claude',
+      { name: 'GPT', models: ['gpt-5.2', 'gpt-4o'] },
+      { name: 'Gemini', models: ['gemini-2.5-pro'] },
+    ],
+  },
 ];
+
+/**
+ * Model prices used for cost estimates, keyed by model ID
+ * List prices at the time of writing - check your vendor's pricing page, and add entries for
+ * any model you use. Models without an entry are reported as unpriced.
+ */
+export const COUNCIL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-5-20250929': {
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+    cachedInputPerMillion: 0.3,
+  },
+  'claude-sonnet-3-5-20241022': {
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+    cachedInputPerMillion: 0.3,
+  },
+  'gpt-5.2': { inputPerMillion: 1.75, outputPerMillion: 14, cachedInputPerMillion: 0.175 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10, cachedInputPerMillion: 1.25 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 }, // Prompts up to 200k tokens
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'grok-3-beta': { inputPerMillion: 3, outputPerMillion: 15 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { inputPerMillion: 0.2, outputPerMillion: 0.6 },
+  'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+};
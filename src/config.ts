@@ -1,6 +1,9 @@
 import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
+import { homedir } from 'os';
 import { dirname, join } from 'path';
+import type { AttachmentPolicy } from './council/types.js';
 
 // Load environment variables
 const __filename = fileURLToPath(import.meta.url);
@@ -8,11 +11,6 @@ const __dirname = dirname(__filename);
 dotenv.config({ path: join(__dirname, '..', '..', '.env'), quiet: true });
 
 export interface Config {
-  anthropicApiKey?: string;
-  openaiApiKey?: string;
-  geminiApiKey?: string;
-  xaiApiKey?: string;
-  groqApiKey?: string;
   debug: boolean;
   redactEmails: boolean;
   attachmentMaxBytes: number;
@@ -20,7 +18,56 @@ export interface Config {
   attachmentMaxCount: number;
   attachmentAllowedMediaTypes: string[];
   attachmentAllowUrls: boolean;
+  unsupportedAttachments: AttachmentPolicy; // Default for attachments a member cannot accept
+  maxInputChars: number; // Max characters of prompt and context combined; larger requests are rejected
+  maxContextChunks: number; // Max context chunks critiqued per member when context overflows its window
   fallbackCooldownMs: number;
+  ollamaHost: string;
+  providerModules: string[]; // Extra provider modules to register at startup and on reload
+  watchConfig: boolean; // Reload the Council when .env or the config file changes
+  budgetPerConsultationUsd?: number; // Max estimated cost of a single consultation
+  budgetPerDayUsd?: number; // Max spend per UTC day across all clients
+  budgetPerClientUsd?: number; // Max spend per UTC day for each client
+  estimateOutputTokens: number; // Output tokens assumed per member when estimating cost
+  sessionTtlMs: number; // Council sessions expire after this long without use
+  sessionStore: 'memory' | 'disk';
+  sessionDir: string; // Where the disk store keeps sessions
+}
+
+/**
+ * Reads an env file into its keys and values; a missing file has none
+ */
+export function readEnvFile(path: string): Record<string, string> {
+  try {
+    return dotenv.parse(readFileSync(path));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies an env file over process.env, so its values win over the previous ones
+ * Keys an earlier load applied that the file no longer has are unset, unless something else
+ * changed them since.
+ *
+ * @param previous - Values the earlier load applied (what the last call returned)
+ * @returns The values applied now, to pass as `previous` next time
+ */
+export function reloadEnvFile(
+  path: string,
+  previous: Record<string, string>
+): Record<string, string> {
+  const values = readEnvFile(path);
+  for (const [key, value] of Object.entries(previous)) {
+    if (!(key in values) && process.env[key] === value) {
+      delete process.env[key];
+    }
+  }
+  Object.assign(process.env, values);
+  return values;
 }
 
 /**
@@ -43,6 +90,27 @@ function getEnvInt(name: string, fallback: number): number {
   return Number.isNaN(parsed) ? fallback : parsed;
 }
 
+function getEnvNumber(name: string): number | undefined {
+  const value = getEnvVar(name);
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function getEnvList(name: string): string[] | undefined {
+  return getEnvVar(name)
+    ?.split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+function getAttachmentPolicy(name: string): AttachmentPolicy {
+  const value = getEnvVar(name)?.trim().toLowerCase();
+  return value === 'strip' || value === 'skip' ? value : 'convert';
+}
+
 const DEFAULT_ATTACHMENT_MEDIA_TYPES = [
   'text/*',
   'application/json',
@@ -51,22 +119,21 @@ const DEFAULT_ATTACHMENT_MEDIA_TYPES = [
   'image/*',
 ];
 
+let currentConfig: Config | undefined;
+
 /**
- * Returns a list of missing API keys
+ * Returns the configuration in effect: loaded on first use, replaced on reload
  */
-export function getMissingApiKeys(): string[] {
-  const apiKeys = [
-    'ANTHROPIC_API_KEY',
-    'OPENAI_API_KEY',
-    'GEMINI_API_KEY',
-    'XAI_API_KEY',
-    'GROQ_API_KEY',
-  ];
+export function getConfig(): Config {
+  currentConfig ??= loadConfig();
+  return currentConfig;
+}
 
-  return apiKeys.filter((key) => {
-    const value = process.env[key];
-    return !value || value.trim() === '';
-  });
+/**
+ * Replaces the configuration in effect (see reloadCouncil)
+ */
+export function setConfig(config: Config): void {
+  currentConfig = config;
 }
 
 /**
@@ -74,19 +141,10 @@ export function getMissingApiKeys(): string[] {
  * API keys are optional - missing keys will result in those providers being unavailable
  */
 export function loadConfig(): Config {
-  const mediaTypesRaw = getEnvVar('LLM_COUNCIL_ATTACHMENT_ALLOWED_MEDIA_TYPES');
   const attachmentAllowedMediaTypes =
-    mediaTypesRaw
-      ?.split(',')
-      .map((value) => value.trim())
-      .filter((value) => value.length > 0) ?? DEFAULT_ATTACHMENT_MEDIA_TYPES;
+    getEnvList('LLM_COUNCIL_ATTACHMENT_ALLOWED_MEDIA_TYPES') ?? DEFAULT_ATTACHMENT_MEDIA_TYPES;
 
   return {
-    anthropicApiKey: getEnvVar('ANTHROPIC_API_KEY'),
-    openaiApiKey: getEnvVar('OPENAI_API_KEY'),
-    geminiApiKey: getEnvVar('GEMINI_API_KEY'),
-    xaiApiKey: getEnvVar('XAI_API_KEY'),
-    groqApiKey: getEnvVar('GROQ_API_KEY'),
     debug: process.env.LLM_COUNCIL_DEBUG === 'true',
     redactEmails: process.env.LLM_COUNCIL_REDACT_EMAILS !== 'false',
     attachmentMaxBytes: getEnvInt('LLM_COUNCIL_ATTACHMENT_MAX_BYTES', 5_000_000),
@@ -94,6 +152,20 @@ export function loadConfig(): Config {
     attachmentMaxCount: getEnvInt('LLM_COUNCIL_ATTACHMENT_MAX_COUNT', 5),
     attachmentAllowedMediaTypes,
     attachmentAllowUrls: process.env.LLM_COUNCIL_ATTACHMENT_ALLOW_URLS === 'true',
+    unsupportedAttachments: getAttachmentPolicy('LLM_COUNCIL_UNSUPPORTED_ATTACHMENTS'),
+    maxInputChars: getEnvInt('LLM_COUNCIL_MAX_INPUT_CHARS', 1_000_000),
+    maxContextChunks: getEnvInt('LLM_COUNCIL_MAX_CONTEXT_CHUNKS', 8),
     fallbackCooldownMs: getEnvInt('LLM_COUNCIL_FALLBACK_COOLDOWN_MS', 120000),
+    ollamaHost: getEnvVar('OLLAMA_HOST') ?? 'http://127.0.0.1:11434',
+    providerModules: getEnvList('LLM_COUNCIL_PROVIDER_MODULES') ?? [],
+    watchConfig: process.env.LLM_COUNCIL_WATCH_CONFIG !== 'false',
+    budgetPerConsultationUsd: getEnvNumber('LLM_COUNCIL_BUDGET_PER_CONSULTATION_USD'),
+    budgetPerDayUsd: getEnvNumber('LLM_COUNCIL_BUDGET_PER_DAY_USD'),
+    budgetPerClientUsd: getEnvNumber('LLM_COUNCIL_BUDGET_PER_CLIENT_USD'),
+    estimateOutputTokens: getEnvInt('LLM_COUNCIL_ESTIMATE_OUTPUT_TOKENS', 1024),
+    sessionTtlMs: getEnvInt('LLM_COUNCIL_SESSION_TTL_MS', 3_600_000),
+    sessionStore:
+      getEnvVar('LLM_COUNCIL_SESSION_STORE')?.trim().toLowerCase() === 'disk' ? 'disk' : 'memory',
+    sessionDir: getEnvVar('LLM_COUNCIL_SESSION_DIR') ?? join(homedir(), '.llm-council', 'sessions'),
   };
 }
@@ -0,0 +1,462 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, test } from 'vitest';
+import { COUNCIL_MODELS, COUNCIL_PRESETS, COUNCIL_PRICING } from '../council.config.js';
+import {
+  CouncilConfigError,
+  expandPersonas,
+  findCouncilConfigPath,
+  getCouncilConfigSource,
+  getCouncilModels,
+  getCouncilPresets,
+  getMemberId,
+  loadCouncilConfigFile,
+  parseConfigFlag,
+  parseCouncilConfig,
+  setCouncilConfigPath,
+} from './council-config.js';
+
+function captureIssues(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CouncilConfigError);
+    return (error as CouncilConfigError).issues;
+  }
+  throw new Error('Expected a CouncilConfigError');
+}
+
+describe('parseCouncilConfig', () => {
+  test('parses YAML members', () => {
+    const { members, presets } = parseCouncilConfig(
+      'council.yaml',
+      [
+        'members:',
+        '  - name: GPT',
+        '    provider: openai',
+        '    apiKeyEnv: OPENAI_API_KEY',
+        '    models: [gpt-4o, gpt-4-turbo]',
+        '    retry:',
+        '      maxAttempts: 2',
+        '  - name: Local Llama',
+        '    provider: ollama',
+        '    models:',
+        '      - llama3.2',
+      ].join('\n')
+    );
+
+    expect(presets).toEqual([]);
+    expect(members).toEqual([
+      {
+        name: 'GPT',
+        provider: 'openai',
+        apiKeyEnv: 'OPENAI_API_KEY',
+        models: ['gpt-4o', 'gpt-4-turbo'],
+        retry: { maxAttempts: 2 },
+      },
+      { name: 'Local Llama', provider: 'ollama', models: ['llama3.2'] },
+    ]);
+  });
+
+  test('parses JSON members', () => {
+    const { members } = parseCouncilConfig(
+      'council.json',
+      JSON.stringify({ members: [{ name: 'Claude', provider: 'anthropic', models: ['claude-x'] }] })
+    );
+
+    expect(members).toEqual([{ name: 'Claude', provider: 'anthropic', models: ['claude-x'] }]);
+  });
+
+  test('adds file prices to the built-in price table', () => {
+    const { pricing } = parseCouncilConfig(
+      'council.json',
+      JSON.stringify({
+        members: [{ name: 'Claude', provider: 'anthropic', models: ['claude-x'] }],
+        pricing: {
+          'claude-x': { inputPerMillion: 1, outputPerMillion: 5 },
+          'gpt-4o': { inputPerMillion: 2, outputPerMillion: 8 },
+        },
+      })
+    );
+
+    expect(pricing['claude-x']).toEqual({ inputPerMillion: 1, outputPerMillion: 5 });
+    expect(pricing['gpt-4o']).toEqual({ inputPerMillion: 2, outputPerMillion: 8 });
+    expect(pricing['grok-3-beta']).toEqual(COUNCIL_PRICING['grok-3-beta']);
+  });
+
+  test('reports schema errors with line and column', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.yaml',
+        [
+          'members:',
+          '  - name: GPT',
+          '    provider: openai',
+          '    models: []',
+          '  - name: Grok',
+          '    provider: xai',
+          '    models: [grok-3]',
+          '    hedgeAfterMs: soon',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^council\.yaml:4:13 members\[0\]\.models: /);
+    expect(issues[1]).toMatch(/^council\.yaml:8:19 members\[1\]\.hedgeAfterMs: /);
+  });
+
+  test('requires a baseURL for openai-compatible members', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.yaml',
+        [
+          'members:',
+          '  - name: Local Qwen',
+          '    provider: openai-compatible',
+          '    models: [qwen-7b]',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toEqual([
+      'council.yaml:2:5 members[0].baseURL: Provider type openai-compatible requires a baseURL',
+    ]);
+  });
+
+  test('points missing keys at the enclosing member and unknown keys at their value', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.json',
+        [
+          '{',
+          '  "members": [',
+          '    { "name": "GPT", "provider": "openai", "model": "gpt-4o" }',
+          '  ]',
+          '}',
+        ].join('\n')
+      )
+    );
+
+    expect(issues.some((issue) => /^council\.json:3:5 members\[0\]\.models: /.test(issue))).toBe(
+      true
+    );
+    expect(issues.some((issue) => /^council\.json:3:53 members\[0\]: .*model/.test(issue))).toBe(
+      true
+    );
+  });
+
+  test('parses presets with member overrides and settings', () => {
+    const { presets } = parseCouncilConfig(
+      'council.yaml',
+      [
+        'members:',
+        '  - name: Gemini',
+        '    provider: gemini',
+        '    models: [gemini-2.5-pro, gemini-2.5-flash]',
+        '  - name: Llama',
+        '    provider: groq',
+        '    models: [llama-3.3-70b-versatile]',
+        'presets:',
+        '  - name: fast',
+        '    settings: { temperature: 0.2, maxOutputTokens: 800 }',
+        '    members:',
+        '      - Llama',
+        '      - name: gemini',
+        '        models: [gemini-2.5-flash]',
+        '        settings: { temperature: 0 }',
+      ].join('\n')
+    );
+
+    expect(presets).toEqual([
+      {
+        name: 'fast',
+        settings: { temperature: 0.2, maxOutputTokens: 800 },
+        members: [
+          'Llama',
+          { name: 'gemini', models: ['gemini-2.5-flash'], settings: { temperature: 0 } },
+        ],
+      },
+    ]);
+  });
+
+  test('rejects presets that reference unknown members or repeat a name', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.yaml',
+        [
+          'members:',
+          '  - name: GPT',
+          '    provider: openai',
+          '    models: [gpt-4o]',
+          'presets:',
+          '  - name: fast',
+          '    members: [GPT, Groq]',
+          '  - name: Fast',
+          '    members: [GPT]',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(
+      /^council\.yaml:7:20 presets\[0\]\.members\[1\]: Unknown council member "Groq"/
+    );
+    expect(issues[1]).toMatch(
+      /^council\.yaml:8:11 presets\[1\]\.name: Duplicate preset name "Fast"/
+    );
+  });
+
+  test('rejects IDs and aliases used by more than one member', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.yaml',
+        [
+          'members:',
+          '  - name: GPT',
+          '    provider: openai',
+          '    models: [gpt-4o]',
+          '    aliases: [openai, fast]',
+          '    tags: [coding]',
+          '  - name: Llama',
+          '    provider: groq',
+          '    models: [llama-3.3-70b-versatile]',
+          '    aliases: [FAST]',
+          '  - name: gpt',
+          '    provider: openai',
+          '    models: [gpt-4o-mini]',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toEqual([
+      'council.yaml:10:15 members[1].aliases[0]: "FAST" is already used by member "GPT"',
+      'council.yaml:11:11 members[2].name: "gpt" is already used by member "GPT" (give this member a unique "id")',
+    ]);
+  });
+
+  test('accepts members that share a display name but have unique IDs', () => {
+    const { members } = parseCouncilConfig(
+      'council.yaml',
+      [
+        'members:',
+        '  - id: claude-sonnet',
+        '    name: Claude',
+        '    provider: anthropic',
+        '    models: [claude-sonnet-4-5-20250929]',
+        '  - id: claude-opus',
+        '    name: Claude',
+        '    provider: anthropic',
+        '    models: [claude-opus-4-1-20250805]',
+        'presets:',
+        '  - name: deep',
+        '    members: [claude-opus]',
+      ].join('\n')
+    );
+
+    expect(members.map(getMemberId)).toEqual(['claude-sonnet', 'claude-opus']);
+    expect(getMemberId({ name: 'Llama 4 Maverick' })).toBe('llama-4-maverick');
+  });
+
+  test('parses member and per-model generation settings', () => {
+    const { members } = parseCouncilConfig(
+      'council.yaml',
+      [
+        'members:',
+        '  - name: GPT',
+        '    provider: openai',
+        '    models: [gpt-5.2, gpt-4o]',
+        '    settings:',
+        '      systemPrompt: Be concise.',
+        '      temperature: 0.2',
+        '    modelSettings:',
+        '      gpt-5.2:',
+        '        providerOptions:',
+        '          openai: { reasoningEffort: high }',
+      ].join('\n')
+    );
+
+    expect(members[0].settings).toEqual({ systemPrompt: 'Be concise.', temperature: 0.2 });
+    expect(members[0].modelSettings).toEqual({
+      'gpt-5.2': { providerOptions: { openai: { reasoningEffort: 'high' } } },
+    });
+  });
+
+  test('rejects out-of-range settings and settings for unlisted models', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig(
+        'council.yaml',
+        [
+          'members:',
+          '  - name: GPT',
+          '    provider: openai',
+          '    models: [gpt-4o]',
+          '    settings: { temperature: 3 }',
+          '  - name: Gemini',
+          '    provider: google',
+          '    models: [gemini-2.5-pro]',
+          '    modelSettings:',
+          '      gemini-2.5-flash: { temperature: 0 }',
+        ].join('\n')
+      )
+    );
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^council\.yaml:5:30 members\[0\]\.settings\.temperature: /);
+    expect(issues[1]).toBe(
+      'council.yaml:10:25 members[1].modelSettings.gemini-2.5-flash: "gemini-2.5-flash" is not one of this member\'s models'
+    );
+  });
+
+  test('seats each persona as its own member', () => {
+    const { members } = parseCouncilConfig(
+      'council.yaml',
+      [
+        'members:',
+        '  - name: GPT',
+        '    provider: openai',
+        '    models: [gpt-5.2, gpt-4o]',
+        '    tags: [coding]',
+        '    settings: { systemPrompt: Be concise., temperature: 0.7, maxOutputTokens: 2048 }',
+        '    modelSettings:',
+        '      gpt-5.2: { temperature: 1 }',
+        '    personas:',
+        '      - name: Security reviewer',
+        '        systemPrompt: Look for vulnerabilities.',
+        '        temperature: 0.2',
+        '      - id: devil',
+        "        name: Devil's advocate",
+      ].join('\n')
+    );
+
+    const seats = expandPersonas(members[0]);
+
+    expect(seats.map((seat) => [seat.id, seat.name])).toEqual([
+      ['gpt.security-reviewer', 'GPT (Security reviewer)'],
+      ['gpt.devil', "GPT (Devil's advocate)"],
+    ]);
+    expect(seats[0]).toMatchObject({
+      provider: 'openai',
+      models: ['gpt-5.2', 'gpt-4o'],
+      tags: ['coding'],
+      settings: {
+        systemPrompt: 'Look for vulnerabilities.',
+        temperature: 0.2,
+        maxOutputTokens: 2048,
+      },
+      // Persona settings win over per-model settings
+      modelSettings: { 'gpt-5.2': { systemPrompt: 'Look for vulnerabilities.', temperature: 0.2 } },
+    });
+    expect(seats[0]).not.toHaveProperty('personas');
+    expect(seats[1].settings).toEqual({
+      systemPrompt: 'Be concise.',
+      temperature: 0.7,
+      maxOutputTokens: 2048,
+    });
+    expect(expandPersonas(COUNCIL_MODELS[0])).toEqual([COUNCIL_MODELS[0]]);
+  });
+
+  test('rejects persona IDs used twice or taken by another member', () => {
+    const member = ['  - name: GPT', '    provider: openai', '    models: [gpt-4o]'];
+
+    expect(
+      captureIssues(() =>
+        parseCouncilConfig(
+          'council.yaml',
+          [
+            'members:',
+            ...member,
+            '    personas:',
+            '      - name: Skeptic',
+            '      - name: skeptic',
+          ].join('\n')
+        )
+      )
+    ).toEqual(['council.yaml:7:15 members[0].personas[1].name: Duplicate persona ID "skeptic"']);
+
+    expect(
+      captureIssues(() =>
+        parseCouncilConfig(
+          'council.yaml',
+          [
+            'members:',
+            '  - id: gpt.skeptic',
+            '    name: Skeptic',
+            '    provider: openai',
+            '    models: [gpt-4o]',
+            ...member,
+            '    personas:',
+            '      - name: Skeptic',
+          ].join('\n')
+        )
+      )
+    ).toEqual([
+      'council.yaml:10:15 members[1].personas[0].name: "gpt.skeptic" is already used by member "Skeptic" (give this persona a unique "id")',
+    ]);
+  });
+
+  test('reports syntax errors with line numbers', () => {
+    const issues = captureIssues(() =>
+      parseCouncilConfig('council.json', '{\n  "members": [\n    { "name": "GPT", }\n')
+    );
+
+    expect(issues[0]).toMatch(/^council\.json:\d+:\d+ /);
+  });
+});
+
+describe('council config discovery', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'council-config-'));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setCouncilConfigPath(undefined);
+    delete process.env.LLM_COUNCIL_CONFIG;
+  });
+
+  test('reads the --config flag in both forms', () => {
+    expect(parseConfigFlag(['--config', 'a.yaml'])).toBe('a.yaml');
+    expect(parseConfigFlag(['--port', '3000', '--config=b.json'])).toBe('b.json');
+    expect(parseConfigFlag(['--port', '3000'])).toBeUndefined();
+  });
+
+  test('prefers the flag, then the env var, then the working directory', () => {
+    const env = { LLM_COUNCIL_CONFIG: 'from-env.yaml' };
+
+    expect(findCouncilConfigPath('flag.yaml', env, dir)).toBe(join(dir, 'flag.yaml'));
+    expect(findCouncilConfigPath(undefined, env, dir)).toBe(join(dir, 'from-env.yaml'));
+    expect(findCouncilConfigPath(undefined, {}, dir)).toBeUndefined();
+
+    writeFileSync(join(dir, 'council.config.yaml'), 'members: []\n');
+    expect(findCouncilConfigPath(undefined, {}, dir)).toBe(join(dir, 'council.config.yaml'));
+  });
+
+  test('loads the file given by the flag and falls back to council.config.ts', () => {
+    const filePath = join(dir, 'runtime.json');
+    writeFileSync(
+      filePath,
+      JSON.stringify({ members: [{ name: 'Local', provider: 'ollama', models: ['llama3.2'] }] })
+    );
+
+    setCouncilConfigPath(filePath);
+    expect(getCouncilModels()).toEqual([
+      { name: 'Local', provider: 'ollama', models: ['llama3.2'] },
+    ]);
+    expect(getCouncilConfigSource()).toBe(filePath);
+
+    setCouncilConfigPath(undefined);
+    expect(getCouncilModels()).toBe(COUNCIL_MODELS);
+    expect(getCouncilPresets()).toBe(COUNCIL_PRESETS);
+    expect(getCouncilConfigSource()).toBe('council.config.ts');
+  });
+
+  test('rejects unsupported file types and missing files', () => {
+    expect(() => loadCouncilConfigFile(join(dir, 'council.toml'))).toThrowError(
+      /unsupported file type/
+    );
+    expect(() => loadCouncilConfigFile(join(dir, 'missing.yaml'))).toThrowError(CouncilConfigError);
+  });
+});
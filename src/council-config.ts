@@ -0,0 +1,530 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname, isAbsolute, resolve } from 'path';
+import { LineCounter, parseDocument } from 'yaml';
+import { z } from 'zod';
+import {
+  COUNCIL_MODELS,
+  COUNCIL_PRESETS,
+  COUNCIL_PRICING,
+  type ModelConfig,
+  type ModelPricing,
+  type PersonaConfig,
+  type PresetConfig,
+} from '../council.config.js';
+import { mergeGenerationSettings } from './providers/settings.js';
+
+/**
+ * File names looked up in the working directory when no path is given
+ */
+const DEFAULT_CONFIG_FILES = ['council.config.json', 'council.config.yaml', 'council.config.yml'];
+
+/**
+ * Returns a member's unique ID: its explicit `id`, or a slug of its display name
+ * (e.g., "Llama 4 Maverick" -> "llama-4-maverick")
+ * Also used for persona IDs, which have the same shape
+ */
+export function getMemberId(member: Pick<ModelConfig, 'id' | 'name'>): string {
+  return (
+    member.id?.trim().toLowerCase() ??
+    member.name
+      .toLowerCase()
+      .replace(/[^a-z0-9._]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  );
+}
+
+/**
+ * Returns the ID a persona is seated under: "<member id>.<persona id>"
+ */
+export function getPersonaMemberId(
+  member: Pick<ModelConfig, 'id' | 'name'>,
+  persona: Pick<PersonaConfig, 'id' | 'name'>
+): string {
+  return `${getMemberId(member)}.${getMemberId(persona)}`;
+}
+
+/**
+ * Expands a member into the members actually seated on the council
+ * A member without personas is seated as-is; otherwise each persona becomes a virtual member
+ * with its own ID and name, sharing the provider, models and API key. Persona settings apply
+ * over the member's own and per-model settings (presets still apply on top).
+ */
+export function expandPersonas(member: ModelConfig): ModelConfig[] {
+  if (!member.personas || member.personas.length === 0) {
+    return [member];
+  }
+
+  const { personas, ...base } = member;
+  return personas.map((persona) => {
+    const { id: _id, name, ...personaSettings } = persona;
+    const modelSettings = base.modelSettings
+      ? Object.fromEntries(
+          Object.entries(base.modelSettings).map(([modelId, settings]) => [
+            modelId,
+            mergeGenerationSettings(settings, personaSettings) ?? {},
+          ])
+        )
+      : undefined;
+    const settings = mergeGenerationSettings(base.settings, personaSettings);
+    return {
+      ...base,
+      id: getPersonaMemberId(member, persona),
+      name: `${member.name} (${name})`,
+      ...(settings ? { settings } : {}),
+      ...(modelSettings ? { modelSettings } : {}),
+    };
+  });
+}
+
+/**
+ * Finds a member by ID, falling back to its display name (case-insensitive)
+ * Used for preset entries, which may name a member either way
+ */
+export function findCouncilMember(
+  members: ModelConfig[],
+  reference: string
+): ModelConfig | undefined {
+  const normalized = reference.trim().toLowerCase();
+  return (
+    members.find((member) => getMemberId(member) === normalized) ??
+    members.find((member) => member.name.toLowerCase() === normalized)
+  );
+}
+
+const RetryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().positive(),
+    initialDelayMs: z.number().int().nonnegative(),
+    maxDelayMs: z.number().int().nonnegative(),
+    maxRetryTimeMs: z.number().int().nonnegative(),
+  })
+  .partial()
+  .strict();
+
+const GenerationSettingsSchema = z
+  .object({
+    systemPrompt: z.string(),
+    temperature: z.number().min(0).max(2),
+    maxOutputTokens: z.number().int().positive(),
+    topP: z.number().gt(0).max(1),
+    seed: z.number().int(),
+    stopSequences: z.array(z.string().min(1)),
+    providerOptions: z.record(z.string(), z.record(z.string(), z.json())),
+  })
+  .partial()
+  .strict();
+
+const CapabilitiesSchema = z
+  .object({
+    imageInput: z.boolean(),
+    pdfInput: z.boolean(),
+    fileInput: z.boolean(),
+    urlInput: z.boolean(),
+    contextWindow: z.number().int().positive(),
+    maxOutputTokens: z.number().int().positive(),
+  })
+  .partial()
+  .strict();
+
+const MemberIdSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, 'Use lowercase letters, digits, ".", "_" or "-"');
+
+const PersonaSchema = GenerationSettingsSchema.extend({
+  id: MemberIdSchema.optional(),
+  name: z.string().trim().min(1),
+}).strict();
+
+const ModelConfigSchema = z
+  .object({
+    id: MemberIdSchema.optional(),
+    name: z.string().trim().min(1),
+    provider: z.string().trim().min(1),
+    apiKey: z.string().optional(),
+    apiKeyEnv: z.string().min(1).optional(),
+    baseURL: z.string().url().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    models: z.array(z.string().trim().min(1)).min(1),
+    aliases: z.array(z.string().trim().min(1)).optional(),
+    tags: z.array(z.string().trim().min(1)).optional(),
+    hedgeAfterMs: z.number().int().nonnegative().optional(),
+    streamContinuation: z.boolean().optional(),
+    retry: RetryPolicySchema.optional(),
+    settings: GenerationSettingsSchema.optional(),
+    modelSettings: z.record(z.string(), GenerationSettingsSchema).optional(),
+    personas: z.array(PersonaSchema).min(1).optional(),
+    capabilities: CapabilitiesSchema.optional(),
+  })
+  .strict()
+  .superRefine((member, ctx) => {
+    if (member.provider === 'openai-compatible' && !member.baseURL) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['baseURL'],
+        message: 'Provider type openai-compatible requires a baseURL',
+      });
+    }
+
+    const personaIds = new Set<string>();
+    member.personas?.forEach((persona, personaIndex) => {
+      const personaId = getMemberId(persona);
+      if (personaIds.has(personaId)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['personas', personaIndex, persona.id ? 'id' : 'name'],
+          message: `Duplicate persona ID "${personaId}"`,
+        });
+      }
+      personaIds.add(personaId);
+    });
+
+    for (const modelId of Object.keys(member.modelSettings ?? {})) {
+      if (!member.models.includes(modelId)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['modelSettings', modelId],
+          message: `"${modelId}" is not one of this member's models`,
+        });
+      }
+    }
+  });
+
+const PresetMemberSchema = z.union([
+  z.string().trim().min(1),
+  z
+    .object({
+      name: z.string().trim().min(1),
+      models: z.array(z.string().trim().min(1)).min(1).optional(),
+      settings: GenerationSettingsSchema.optional(),
+    })
+    .strict(),
+]);
+
+const PresetConfigSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    description: z.string().optional(),
+    members: z.array(PresetMemberSchema).min(1),
+    settings: GenerationSettingsSchema.optional(),
+  })
+  .strict();
+
+const ModelPricingSchema = z
+  .object({
+    inputPerMillion: z.number().nonnegative(),
+    outputPerMillion: z.number().nonnegative(),
+    cachedInputPerMillion: z.number().nonnegative().optional(),
+  })
+  .strict();
+
+const CouncilConfigFileSchema = z
+  .object({
+    members: z.array(ModelConfigSchema).min(1),
+    presets: z.array(PresetConfigSchema).optional(),
+    pricing: z.record(z.string(), ModelPricingSchema).optional(),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    // IDs (persona IDs included) and aliases share one namespace and must each pick exactly
+    // one member (display names may repeat, e.g. two "Claude" members with different models)
+    const selectorOwners = new Map<string, number>();
+    file.members.forEach((member, memberIndex) => {
+      const selectors: Array<[string, PropertyKey[]]> = [
+        [getMemberId(member), ['members', memberIndex, member.id ? 'id' : 'name']],
+        ...(member.personas ?? []).map((persona, personaIndex): [string, PropertyKey[]] => [
+          getPersonaMemberId(member, persona),
+          ['members', memberIndex, 'personas', personaIndex, persona.id ? 'id' : 'name'],
+        ]),
+        ...(member.aliases ?? []).map((alias, aliasIndex): [string, PropertyKey[]] => [
+          alias,
+          ['members', memberIndex, 'aliases', aliasIndex],
+        ]),
+      ];
+      for (const [selector, path] of selectors) {
+        const owner = selectorOwners.get(selector.toLowerCase());
+        if (owner === undefined) {
+          selectorOwners.set(selector.toLowerCase(), memberIndex);
+        } else if (owner !== memberIndex) {
+          const subject = path.includes('personas') ? 'persona' : 'member';
+          const hint = path.at(-1) === 'name' ? ` (give this ${subject} a unique "id")` : '';
+          ctx.addIssue({
+            code: 'custom',
+            path,
+            message: `"${selector}" is already used by member "${file.members[owner].name}"${hint}`,
+          });
+        }
+      }
+    });
+
+    const memberRefs = new Set(
+      file.members.flatMap((member) => [getMemberId(member), member.name.toLowerCase()])
+    );
+    const presetNames = new Set<string>();
+
+    file.presets?.forEach((preset, presetIndex) => {
+      const presetName = preset.name.toLowerCase();
+      if (presetNames.has(presetName)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['presets', presetIndex, 'name'],
+          message: `Duplicate preset name "${preset.name}"`,
+        });
+      }
+      presetNames.add(presetName);
+
+      preset.members.forEach((entry, memberIndex) => {
+        const name = typeof entry === 'string' ? entry : entry.name;
+        if (!memberRefs.has(name.toLowerCase())) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['presets', presetIndex, 'members', memberIndex],
+            message: `Unknown council member "${name}"`,
+          });
+        }
+      });
+    });
+  });
+
+export type CouncilConfigFile = z.infer<typeof CouncilConfigFileSchema>;
+
+/**
+ * Members, presets and model prices of the council, from a config file or council.config.ts
+ */
+export interface CouncilDefinition {
+  members: ModelConfig[];
+  presets: PresetConfig[];
+  pricing: Record<string, ModelPricing>; // Keyed by model ID
+}
+
+/**
+ * Thrown when a council config file cannot be read, parsed or validated
+ * Each issue is prefixed with `file:line:column` where the position is known
+ */
+export class CouncilConfigError extends Error {
+  public readonly issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(
+      `Invalid council config ${filePath}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`
+    );
+    this.name = 'CouncilConfigError';
+    this.issues = issues;
+  }
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') {
+      return `${result}[${key}]`;
+    }
+    return result ? `${result}.${String(key)}` : String(key);
+  }, '');
+}
+
+/**
+ * Parses and validates a council config file
+ * JSON is parsed with the YAML parser (JSON is valid YAML) so both formats get line numbers
+ *
+ * @param filePath - Path used in error messages
+ * @param source - File contents
+ */
+export function parseCouncilConfig(filePath: string, source: string): CouncilDefinition {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (document.errors.length > 0) {
+    throw new CouncilConfigError(
+      filePath,
+      document.errors.map((error) => {
+        const { line, col } = lineCounter.linePos(error.pos[0]);
+        return `${filePath}:${line}:${col} ${error.message}`;
+      })
+    );
+  }
+
+  const result = CouncilConfigFileSchema.safeParse(document.toJS());
+  if (!result.success) {
+    throw new CouncilConfigError(
+      filePath,
+      result.error.issues.map((issue) => {
+        // Point at the deepest node that exists (missing keys point at their parent,
+        // unknown keys at the first offending value)
+        const nodePath =
+          issue.code === 'unrecognized_keys' ? [...issue.path, issue.keys[0]] : issue.path;
+        let location = filePath;
+        for (let depth = nodePath.length; depth >= 0; depth--) {
+          const node: unknown = document.getIn(nodePath.slice(0, depth), true);
+          const range = (node as { range?: [number, number, number] } | undefined)?.range;
+          if (range) {
+            const { line, col } = lineCounter.linePos(range[0]);
+            location = `${filePath}:${line}:${col}`;
+            break;
+          }
+        }
+        const path = formatIssuePath(issue.path);
+        return `${location} ${path ? `${path}: ` : ''}${issue.message}`;
+      })
+    );
+  }
+
+  // Prices describe models rather than the lineup, so the file only adds to the built-in table
+  return {
+    members: result.data.members,
+    presets: result.data.presets ?? [],
+    pricing: { ...COUNCIL_PRICING, ...result.data.pricing },
+  };
+}
+
+/**
+ * Reads `--config <path>` or `--config=<path>` from command-line arguments
+ */
+export function parseConfigFlag(argv: string[]): string | undefined {
+  const flagIndex = argv.indexOf('--config');
+  if (flagIndex !== -1) {
+    return argv[flagIndex + 1];
+  }
+  return argv.find((arg) => arg.startsWith('--config='))?.slice('--config='.length);
+}
+
+/**
+ * Finds the council config file to use, in order of precedence:
+ * 1. An explicit path (the `--config` flag)
+ * 2. `LLM_COUNCIL_CONFIG`
+ * 3. council.config.json / .yaml / .yml in the working directory
+ *
+ * @returns Absolute path, or undefined to use the built-in council.config.ts
+ */
+export function findCouncilConfigPath(
+  explicitPath?: string,
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): string | undefined {
+  const configured = explicitPath?.trim() || env.LLM_COUNCIL_CONFIG?.trim();
+  if (configured) {
+    return isAbsolute(configured) ? configured : resolve(cwd, configured);
+  }
+
+  for (const fileName of DEFAULT_CONFIG_FILES) {
+    const candidate = resolve(cwd, fileName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads and validates a council config file from disk
+ */
+export function loadCouncilConfigFile(filePath: string): CouncilDefinition {
+  const extension = extname(filePath).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new CouncilConfigError(filePath, [
+      `${filePath} unsupported file type (use .json, .yaml or .yml)`,
+    ]);
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new CouncilConfigError(filePath, [
+      `${filePath} ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+  return parseCouncilConfig(filePath, source);
+}
+
+let explicitConfigPath: string | undefined;
+let cachedDefinition: CouncilDefinition | undefined;
+let cachedSource: string | undefined;
+
+/**
+ * Sets the config file path given on the command line
+ * Must be called before the council definition is first read
+ */
+export function setCouncilConfigPath(filePath: string | undefined): void {
+  explicitConfigPath = filePath;
+  cachedDefinition = undefined;
+  cachedSource = undefined;
+}
+
+/**
+ * Returns the council definition: the runtime config file if one is found,
+ * otherwise COUNCIL_MODELS, COUNCIL_PRESETS and COUNCIL_PRICING from council.config.ts
+ * The result is cached after the first call.
+ */
+export function getCouncilDefinition(): CouncilDefinition {
+  if (!cachedDefinition) {
+    reloadCouncilDefinition();
+  }
+  return cachedDefinition!;
+}
+
+export function getCouncilModels(): ModelConfig[] {
+  return getCouncilDefinition().members;
+}
+
+export function getCouncilPresets(): PresetConfig[] {
+  return getCouncilDefinition().presets;
+}
+
+export function getCouncilPricing(): Record<string, ModelPricing> {
+  return getCouncilDefinition().pricing;
+}
+
+/**
+ * A council definition together with where it came from
+ */
+export interface CouncilDefinitionSource {
+  definition: CouncilDefinition;
+  source: string; // File path or "council.config.ts"
+}
+
+/**
+ * Reads the council definition without replacing the cached one
+ */
+export function readCouncilDefinition(): CouncilDefinitionSource {
+  const filePath = findCouncilConfigPath(explicitConfigPath);
+  return {
+    definition: filePath
+      ? loadCouncilConfigFile(filePath)
+      : { members: COUNCIL_MODELS, presets: COUNCIL_PRESETS, pricing: COUNCIL_PRICING },
+    source: filePath ?? 'council.config.ts',
+  };
+}
+
+/**
+ * Replaces the cached council definition (e.g., once a reload has built its providers)
+ */
+export function setCouncilDefinition({ definition, source }: CouncilDefinitionSource): void {
+  cachedDefinition = definition;
+  cachedSource = source;
+}
+
+/**
+ * Re-reads the council definition, bypassing the cache
+ * The cache is only replaced on success, so a broken file keeps the previous definition
+ */
+export function reloadCouncilDefinition(): CouncilDefinition {
+  const read = readCouncilDefinition();
+  setCouncilDefinition(read);
+  return read.definition;
+}
+
+/**
+ * Files whose changes should trigger a reload: the active config file, or the
+ * working-directory candidates when the built-in lineup is in use
+ */
+export function getCouncilConfigWatchPaths(cwd: string = process.cwd()): string[] {
+  const filePath = findCouncilConfigPath(explicitConfigPath, process.env, cwd);
+  return filePath ? [filePath] : DEFAULT_CONFIG_FILES.map((fileName) => resolve(cwd, fileName));
+}
+
+/**
+ * Where the current council definition came from (file path or "council.config.ts")
+ */
+export function getCouncilConfigSource(): string {
+  getCouncilDefinition();
+  return cachedSource!;
+}
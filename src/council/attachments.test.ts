@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import type { ProviderCapabilities } from '../providers/registry.js';
+import { routeAttachments } from './attachments.js';
+
+const textOnly: ProviderCapabilities = { imageInput: false, pdfInput: false, fileInput: false };
+const notes = {
+  mediaType: 'application/json',
+  filename: 'config.json',
+  data: `data:application/json;base64,${Buffer.from('{"a":1}').toString('base64')}`,
+};
+const diagram = { mediaType: 'image/png', filename: 'diagram.png', data: 'iVBORw0KGgo=' };
+
+describe('routeAttachments', () => {
+  test('sends everything unchanged when capabilities are unknown', () => {
+    const route = routeAttachments('Review', [notes, diagram], undefined, 'skip');
+
+    expect(route.prompt).toBe('Review');
+    expect(route.attachments).toEqual([notes, diagram]);
+    expect(route.handling.map((entry) => entry.handling)).toEqual(['sent', 'sent']);
+    expect(route.skipReason).toBeUndefined();
+  });
+
+  test('converts text files into the prompt and strips the rest', () => {
+    const route = routeAttachments('Review', [notes, diagram], textOnly, 'convert');
+
+    expect(route.prompt).toBe(
+      'Review\n\n--- Attachment: config.json ---\n{"a":1}\n--- End of attachment ---'
+    );
+    expect(route.attachments).toEqual([]);
+    expect(route.handling).toEqual([
+      { filename: 'config.json', mediaType: 'application/json', handling: 'converted' },
+      { filename: 'diagram.png', mediaType: 'image/png', handling: 'stripped' },
+    ]);
+    expect(route.warnings).toHaveLength(2);
+  });
+
+  test('strips without converting under the strip policy', () => {
+    const route = routeAttachments(
+      'Review',
+      [notes, diagram],
+      { ...textOnly, imageInput: true },
+      'strip'
+    );
+
+    expect(route.prompt).toBe('Review');
+    expect(route.attachments).toEqual([diagram]);
+    expect(route.handling.map((entry) => entry.handling)).toEqual(['stripped', 'sent']);
+  });
+
+  test('skips the member under the skip policy', () => {
+    const route = routeAttachments(
+      'Review',
+      [notes, diagram],
+      { ...textOnly, imageInput: true },
+      'skip'
+    );
+
+    expect(route.skipReason).toBe('Cannot accept config.json (application/json)');
+    expect(route.attachments).toEqual([]);
+    expect(route.handling.map((entry) => entry.handling)).toEqual(['skipped', 'skipped']);
+  });
+
+  test('strips URL attachments from members that take inline attachments only', () => {
+    const linked = { mediaType: 'image/png', url: 'https://example.com/diagram.png' };
+    const route = routeAttachments(
+      'Review',
+      [diagram, linked],
+      { ...textOnly, imageInput: true, urlInput: false },
+      'convert'
+    );
+
+    expect(route.attachments).toEqual([diagram]);
+    expect(route.handling.map((entry) => entry.handling)).toEqual(['sent', 'stripped']);
+  });
+});
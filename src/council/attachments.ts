@@ -0,0 +1,136 @@
+import { type ProviderCapabilities, supportsAttachment } from '../providers/registry.js';
+import type { AttachmentHandling, ProviderAttachment } from '../providers/types.js';
+import type { AttachmentPolicy } from './types.js';
+
+export const ATTACHMENT_POLICIES: readonly AttachmentPolicy[] = ['convert', 'strip', 'skip'];
+
+/**
+ * Non-text/* media types that are plain text and can be inlined into a prompt
+ */
+const TEXT_MEDIA_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/toml',
+  'application/javascript',
+  'application/typescript',
+  'application/sql',
+  'application/x-sh',
+  'application/graphql',
+]);
+
+/**
+ * What one member receives after its attachments are routed
+ */
+export interface AttachmentRoute {
+  prompt: string; // Prompt with converted attachments appended
+  attachments: ProviderAttachment[]; // Attachments sent as-is
+  handling: AttachmentHandling[]; // One entry per requested attachment, in order
+  warnings: string[];
+  skipReason?: string; // Set if the member should not be consulted (policy "skip")
+}
+
+function isTextMediaType(mediaType: string): boolean {
+  const normalized = mediaType.toLowerCase();
+  return (
+    normalized.startsWith('text/') ||
+    TEXT_MEDIA_TYPES.has(normalized) ||
+    normalized.endsWith('+json') ||
+    normalized.endsWith('+xml')
+  );
+}
+
+function describeAttachment(attachment: ProviderAttachment): string {
+  return attachment.filename
+    ? `${attachment.filename} (${attachment.mediaType})`
+    : attachment.mediaType;
+}
+
+/**
+ * Decodes an inline attachment (base64 or base64 data URL) as UTF-8 text
+ * URL attachments cannot be converted without fetching them
+ */
+function decodeText(attachment: ProviderAttachment): string | undefined {
+  if (!attachment.data) {
+    return undefined;
+  }
+  const commaIndex = attachment.data.indexOf(',');
+  const base64 =
+    attachment.data.startsWith('data:') && commaIndex !== -1
+      ? attachment.data.slice(commaIndex + 1)
+      : attachment.data;
+  return Buffer.from(base64, 'base64').toString('utf8');
+}
+
+/**
+ * Decides which attachments a member receives, based on what its provider accepts
+ * Members with unknown capabilities receive every attachment unchanged.
+ *
+ * @param prompt - Prompt sent to every member
+ * @param attachments - Attachments of the consultation
+ * @param capabilities - What the member accepts (Provider.capabilities)
+ * @param policy - What to do with the attachments it cannot accept
+ */
+export function routeAttachments(
+  prompt: string,
+  attachments: ProviderAttachment[] | undefined,
+  capabilities: ProviderCapabilities | undefined,
+  policy: AttachmentPolicy
+): AttachmentRoute {
+  const route: AttachmentRoute = { prompt, attachments: [], handling: [], warnings: [] };
+  const unsupported: ProviderAttachment[] = [];
+  const converted: string[] = [];
+
+  for (const attachment of attachments ?? []) {
+    const entry = {
+      ...(attachment.filename ? { filename: attachment.filename } : {}),
+      mediaType: attachment.mediaType,
+    };
+    const byUrl = attachment.data === undefined && attachment.url !== undefined;
+    if (!capabilities || supportsAttachment(capabilities, attachment.mediaType, byUrl)) {
+      route.attachments.push(attachment);
+      route.handling.push({ ...entry, handling: 'sent' });
+      continue;
+    }
+
+    unsupported.push(attachment);
+    const text =
+      policy === 'convert' && isTextMediaType(attachment.mediaType)
+        ? decodeText(attachment)
+        : undefined;
+    if (text !== undefined) {
+      converted.push(
+        [
+          `--- Attachment: ${attachment.filename ?? attachment.mediaType} ---`,
+          text,
+          '--- End of attachment ---',
+        ].join('\n')
+      );
+      route.handling.push({ ...entry, handling: 'converted' });
+      route.warnings.push(
+        `${describeAttachment(attachment)} is not supported by this member and was sent as text`
+      );
+    } else {
+      route.handling.push({ ...entry, handling: 'stripped' });
+      route.warnings.push(
+        `${describeAttachment(attachment)} is not supported by this member and was left out`
+      );
+    }
+  }
+
+  if (policy === 'skip' && unsupported.length > 0) {
+    return {
+      ...route,
+      attachments: [],
+      handling: route.handling.map((entry) => ({ ...entry, handling: 'skipped' })),
+      warnings: [],
+      skipReason: `Cannot accept ${unsupported.map(describeAttachment).join(', ')}`,
+    };
+  }
+
+  if (converted.length > 0) {
+    route.prompt = [prompt, ...converted].join('\n\n');
+  }
+  return route;
+}
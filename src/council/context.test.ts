@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'vitest';
+import type { ProviderCapabilities } from '../providers/registry.js';
+import { buildMergePrompt, fitHistory, planContext, splitIntoChunks } from './context.js';
+
+const small: ProviderCapabilities = {
+  imageInput: true,
+  pdfInput: true,
+  fileInput: true,
+  contextWindow: 8_192,
+  maxOutputTokens: 1_000,
+};
+
+describe('splitIntoChunks', () => {
+  test('breaks at a line end in the second half of a chunk', () => {
+    const text = `${'a'.repeat(30)}\n${'b'.repeat(30)}\n${'c'.repeat(10)}`;
+
+    expect(splitIntoChunks(text, 10)).toEqual([
+      `${'a'.repeat(30)}\n`,
+      `${'b'.repeat(30)}\n`,
+      'c'.repeat(10),
+    ]);
+  });
+
+  test('cuts mid-line when no line end is near', () => {
+    expect(splitIntoChunks('x'.repeat(100), 10).map((chunk) => chunk.length)).toEqual([40, 40, 20]);
+  });
+});
+
+describe('fitHistory', () => {
+  const pair = (question: string, answer: string) => [
+    { role: 'user' as const, content: question },
+    { role: 'assistant' as const, content: answer },
+  ];
+
+  test('keeps every turn that fits', () => {
+    const history = [...pair('First?', 'One.'), ...pair('Second?', 'Two.')];
+
+    expect(fitHistory(history, 100)).toEqual({ turns: history, trimmed: false });
+  });
+
+  test('keeps the newest turns and shortens the oldest question kept', () => {
+    const history = [
+      ...pair('q'.repeat(4_000), 'Old answer.'),
+      ...pair(`Start ${'x'.repeat(4_000)} end?`, 'Answer.'),
+      ...pair('Latest?', 'Latest answer.'),
+    ];
+
+    const fitted = fitHistory(history, 300);
+
+    expect(fitted.trimmed).toBe(true);
+    expect(fitted.turns).toHaveLength(4);
+    expect(fitted.turns[0].content).toMatch(/^Start x+\n\[\.\.\.\]\nx+ end\?$/);
+    expect(fitted.turns.slice(1)).toEqual([history[3], ...pair('Latest?', 'Latest answer.')]);
+  });
+});
+
+describe('planContext', () => {
+  test('leaves the prompt alone when the context window is unknown', () => {
+    const plan = planContext('Question', 'c'.repeat(1_000_000), { maxChunks: 8 });
+
+    expect(plan.prompt).toBe(`Context: ${'c'.repeat(1_000_000)}\n\nQuestion: Question`);
+    expect(plan.handling).toBeUndefined();
+  });
+
+  test('sends question and context together when they fit', () => {
+    const plan = planContext('Question', 'Context', { capabilities: small, maxChunks: 8 });
+
+    expect(plan).toEqual({ prompt: 'Context: Context\n\nQuestion: Question' });
+  });
+
+  test('chunks context over the window and reports the rest as truncated', () => {
+    // 8,192 less 1,000 output, 200 instructions and 2 for the question: 6,990 per chunk
+    const plan = planContext('Question', 'c'.repeat(100_000), {
+      capabilities: small,
+      maxChunks: 2,
+    });
+
+    expect(plan.prompt).toBe('Question');
+    expect(plan.chunks?.map((chunk) => chunk.length)).toEqual([27_960, 27_960]);
+    expect(plan.handling).toEqual({
+      handling: 'chunked',
+      inputTokens: 25_002,
+      budgetTokens: 6_990,
+      chunks: 2,
+      truncatedTokens: 11_020,
+    });
+  });
+
+  test('truncates when only one chunk is allowed', () => {
+    const plan = planContext('Question', 'c'.repeat(100_000), {
+      capabilities: small,
+      maxChunks: 1,
+    });
+
+    expect(plan.chunks).toBeUndefined();
+    expect(plan.prompt).toBe(`Context: ${'c'.repeat(27_960)}\n\nQuestion: Question`);
+    expect(plan.handling).toMatchObject({ handling: 'truncated', truncatedTokens: 18_010 });
+  });
+
+  test('counts attachments against the window', () => {
+    const image = { mediaType: 'image/png', url: 'https://example.com/diagram.png' };
+    const plan = planContext('Question', 'c'.repeat(24_000), {
+      capabilities: small,
+      attachments: [image],
+      maxChunks: 8,
+    });
+
+    expect(plan.handling).toMatchObject({ handling: 'chunked', budgetTokens: 5_390 });
+  });
+
+  test('counts earlier turns against the window', () => {
+    const history = [
+      { role: 'user' as const, content: 'q'.repeat(8_000) },
+      { role: 'assistant' as const, content: 'a'.repeat(4_000) },
+    ];
+    const plan = planContext('Question', 'c'.repeat(20_000), {
+      capabilities: small,
+      history,
+      maxChunks: 8,
+    });
+
+    expect(plan.history).toEqual(history);
+    expect(plan.handling).toMatchObject({ handling: 'chunked', budgetTokens: 3_990 });
+  });
+
+  test('truncates a question that leaves no room for context', () => {
+    const plan = planContext('q'.repeat(40_000), 'Context', { capabilities: small, maxChunks: 8 });
+
+    expect(plan.prompt).toBe('q'.repeat(27_968));
+    expect(plan.handling).toEqual({
+      handling: 'truncated',
+      inputTokens: 10_002,
+      budgetTokens: 6_992,
+      truncatedTokens: 3_010,
+    });
+  });
+});
+
+describe('buildMergePrompt', () => {
+  test('lists each note, shortened to the note budget', () => {
+    const prompt = buildMergePrompt('Question', ['First', 'x'.repeat(100)], 10);
+
+    expect(prompt).toContain('--- Notes on part 1 ---\nFirst');
+    expect(prompt).toContain(`--- Notes on part 2 ---\n${'x'.repeat(40)}\n`);
+    expect(prompt.endsWith('Question: Question')).toBe(true);
+  });
+});
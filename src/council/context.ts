@@ -0,0 +1,259 @@
+import type { ProviderCapabilities } from '../providers/registry.js';
+import type { ContextHandling, ConversationTurn, ProviderAttachment } from '../providers/types.js';
+import { CHARS_PER_TOKEN, estimateAttachmentTokens, estimateTextTokens } from './tokens.js';
+
+/**
+ * Output tokens kept free in every request (less if the model cannot generate that many)
+ */
+export const OUTPUT_RESERVE_TOKENS = 4_096;
+
+/**
+ * Tokens for the instructions wrapped around a context chunk or the merged notes
+ */
+const INSTRUCTION_TOKENS = 200;
+
+/**
+ * Smallest useful context chunk; with less room left the context is truncated instead
+ */
+const MIN_CHUNK_TOKENS = 500;
+
+/**
+ * Smallest useful part of a shortened earlier turn; older turns are dropped instead
+ */
+const MIN_TURN_TOKENS = 100;
+
+/**
+ * How one member's question and context will be sent
+ */
+export interface ContextPlan {
+  prompt: string; // Prompt for a single request (the question alone if chunked)
+  chunks?: string[]; // Context chunks for a map-reduce pass; unset for a single request
+  handling?: ContextHandling; // Unset if everything fits
+  history?: ConversationTurn[]; // Earlier turns that fit, oldest first
+  historyTrimmed?: boolean; // True if earlier turns were shortened or left out
+}
+
+/**
+ * Combines the question and its context into one prompt
+ */
+export function buildPrompt(question: string, context?: string): string {
+  return context ? `Context: ${context}\n\nQuestion: ${question}` : question;
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  return text.slice(0, Math.max(0, tokens) * CHARS_PER_TOKEN);
+}
+
+/**
+ * Shortens text to about the given tokens, keeping its start and end
+ */
+function shortenMiddle(text: string, tokens: number): string {
+  const keep = Math.floor((tokens * CHARS_PER_TOKEN) / 2);
+  return text.length <= keep * 2
+    ? text
+    : `${text.slice(0, keep)}\n[...]\n${text.slice(text.length - keep)}`;
+}
+
+/**
+ * Keeps the newest question/answer pairs of a conversation that fit in maxTokens
+ * The oldest pair kept may have its question shortened; older pairs are left out.
+ */
+export function fitHistory(
+  history: ConversationTurn[],
+  maxTokens: number
+): { turns: ConversationTurn[]; trimmed: boolean } {
+  const kept: ConversationTurn[][] = [];
+  let remaining = maxTokens;
+  let trimmed = false;
+
+  for (let end = history.length; end > 0; end -= 2) {
+    const pair = history.slice(Math.max(0, end - 2), end);
+    const [question, answer] = pair.length === 2 ? pair : [undefined, pair[0]];
+    const answerTokens = estimateTextTokens(answer.content);
+    const questionTokens = question ? estimateTextTokens(question.content) : 0;
+    if (answerTokens + questionTokens <= remaining) {
+      kept.unshift(pair);
+      remaining -= answerTokens + questionTokens;
+      continue;
+    }
+
+    trimmed = true;
+    if (question && remaining - answerTokens >= MIN_TURN_TOKENS) {
+      kept.unshift([
+        { ...question, content: shortenMiddle(question.content, remaining - answerTokens) },
+        answer,
+      ]);
+    }
+    break;
+  }
+
+  return { turns: kept.flat(), trimmed };
+}
+
+/**
+ * Splits text into chunks of at most maxTokens, breaking at a line end where one is near
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+  const maxChars = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      // Prefer a line boundary in the second half of the chunk
+      const newline = text.lastIndexOf('\n', end - 1);
+      if (newline >= start + maxChars / 2) {
+        end = newline + 1;
+      }
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Fits a question and its context into a member's context window
+ * Members with an unknown window get everything in one request. Earlier turns of the
+ * member's conversation take at most half of the window. Context that does not fit is split
+ * into chunks for a map-reduce pass (at most maxChunks; the rest is truncated). A question
+ * that leaves no room for context is truncated, and the context dropped.
+ *
+ * @param options.capabilities - What the member accepts (Provider.capabilities)
+ * @param options.attachments - Attachments sent with every request
+ * @param options.history - Earlier turns replayed with every request
+ * @param options.maxChunks - Most context chunks critiqued for one member
+ */
+export function planContext(
+  question: string,
+  context: string | undefined,
+  options: {
+    capabilities?: ProviderCapabilities;
+    attachments?: ProviderAttachment[];
+    history?: ConversationTurn[];
+    maxChunks: number;
+  }
+): ContextPlan {
+  const prompt = buildPrompt(question, context);
+  const contextWindow = options.capabilities?.contextWindow;
+  const history = options.history ?? [];
+  if (contextWindow === undefined) {
+    return history.length > 0 ? { prompt, history } : { prompt };
+  }
+
+  const outputTokens = Math.min(
+    OUTPUT_RESERVE_TOKENS,
+    options.capabilities?.maxOutputTokens ?? OUTPUT_RESERVE_TOKENS
+  );
+  const attachmentTokens = (options.attachments ?? []).reduce(
+    (sum, attachment) => sum + estimateAttachmentTokens(attachment),
+    0
+  );
+  const requestTokens = contextWindow - outputTokens - attachmentTokens - INSTRUCTION_TOKENS;
+  const fitted = fitHistory(history, Math.floor(requestTokens / 2));
+  const historyFields = {
+    ...(fitted.turns.length > 0 ? { history: fitted.turns } : {}),
+    ...(fitted.trimmed ? { historyTrimmed: true } : {}),
+  };
+  const available =
+    requestTokens - fitted.turns.reduce((sum, turn) => sum + estimateTextTokens(turn.content), 0);
+  const questionTokens = estimateTextTokens(question);
+  const contextTokens = context ? estimateTextTokens(context) : 0;
+  const inputTokens = questionTokens + contextTokens;
+  if (inputTokens <= available) {
+    return { prompt, ...historyFields };
+  }
+
+  const chunkTokens = available - questionTokens;
+  if (!context || chunkTokens < MIN_CHUNK_TOKENS) {
+    const truncated = truncateToTokens(question, available);
+    return {
+      prompt: truncated,
+      handling: {
+        handling: 'truncated',
+        inputTokens,
+        budgetTokens: Math.max(0, available),
+        truncatedTokens: inputTokens - estimateTextTokens(truncated),
+      },
+      ...historyFields,
+    };
+  }
+
+  const chunks = splitIntoChunks(context, chunkTokens);
+  const kept = chunks.slice(0, Math.max(1, options.maxChunks));
+  const truncatedTokens = chunks
+    .slice(kept.length)
+    .reduce((sum, chunk) => sum + estimateTextTokens(chunk), 0);
+  const truncation = truncatedTokens > 0 ? { truncatedTokens } : {};
+
+  // A single chunk is plain truncation: no merge pass needed
+  if (kept.length === 1) {
+    return {
+      prompt: buildPrompt(question, kept[0]),
+      handling: { handling: 'truncated', inputTokens, budgetTokens: chunkTokens, ...truncation },
+      ...historyFields,
+    };
+  }
+  return {
+    prompt: question,
+    chunks: kept,
+    handling: {
+      handling: 'chunked',
+      inputTokens,
+      budgetTokens: chunkTokens,
+      chunks: kept.length,
+      ...truncation,
+    },
+    ...historyFields,
+  };
+}
+
+/**
+ * Prompt for the map pass: a critique of one context chunk
+ */
+export function buildChunkPrompt(
+  question: string,
+  chunk: string,
+  index: number,
+  total: number
+): string {
+  return [
+    `The context for this question is too long to send at once. This is part ${index + 1} of ${total}.`,
+    'Critique the question using this part only, and note everything in it that matters for the answer. Your notes on all parts will be merged afterwards.',
+    '',
+    buildPrompt(question, chunk),
+  ].join('\n');
+}
+
+/**
+ * Prompt for the reduce pass: one critique merged from the notes on every chunk
+ *
+ * @param noteTokens - Most tokens kept of each note, so the merge request fits the window
+ */
+export function buildMergePrompt(question: string, notes: string[], noteTokens: number): string {
+  return [
+    `The context for this question was too long to send at once, so it was reviewed in ${notes.length} parts. Your notes on each part follow.`,
+    'Merge them into one critique that answers the question. Resolve conflicts between the parts and do not mention the parts.',
+    '',
+    ...notes.map(
+      (note, index) => `--- Notes on part ${index + 1} ---\n${truncateToTokens(note, noteTokens)}`
+    ),
+    '',
+    `Question: ${question}`,
+  ].join('\n');
+}
+
+/**
+ * Describes a context plan for the member's warnings
+ */
+export function describeContextHandling(handling: ContextHandling): string {
+  const truncated =
+    handling.truncatedTokens !== undefined
+      ? `; about ${handling.truncatedTokens} tokens were left out`
+      : '';
+  return handling.handling === 'chunked'
+    ? `The context did not fit this model's context window and was critiqued in ${handling.chunks} chunks, then merged${truncated}`
+    : `The prompt did not fit this model's context window and was truncated${truncated}`;
+}
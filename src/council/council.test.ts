@@ -1,7 +1,17 @@
+import { convertArrayToReadableStream, MockLanguageModelV3 } from 'ai/test';
 import { describe, it, expect, vi } from 'vitest';
 import { Council } from './index.js';
+import type { CouncilStreamEvent } from './types.js';
+import { OpenAICompatibleProvider } from '../providers/openai-compatible/index.js';
 import type { Provider, ProviderResponse } from '../providers/types.js';
 
+// Models the SDK client hands out, by model ID
+const sdkModels = vi.hoisted(() => new Map<string, MockLanguageModelV3>());
+
+vi.mock('@ai-sdk/openai-compatible', () => ({
+  createOpenAICompatible: () => (modelId: string) => sdkModels.get(modelId),
+}));
+
 describe('Council', () => {
   // Create mock providers for testing
   function createMockProvider(name: string, delay: number, shouldFail = false): Provider {
@@ -211,4 +221,313 @@ describe('Council', () => {
 
     expect(result.prompt).toBe(prompt);
   });
+
+  it('should return partial results when the deadline passes', async () => {
+    const hung: Provider = {
+      name: 'Hung',
+      modelId: 'hung-model',
+      // Ignores the abort signal entirely
+      query: () => new Promise<ProviderResponse>(() => {}),
+      queryStream: async function* (): AsyncIterable<string> {},
+    };
+    const council = new Council([createMockProvider('Fast', 20), hung]);
+
+    const startTime = Date.now();
+    const result = await council.deliberate('Test question', { deadlineMs: 200 });
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(result.successCount).toBe(1);
+    expect(result.failureCount).toBe(0);
+    expect(result.timedOutCount).toBe(1);
+
+    const late = result.responses.find((r) => r.provider === 'Hung');
+    expect(late?.timedOut).toBe(true);
+    expect(late?.error).toContain('Timed out after 200ms');
+  }, 10000);
+
+  it('should abort late members through their signal when the deadline passes', async () => {
+    const council = new Council([createMockProvider('Slow', 2000)]);
+    const result = await council.deliberate('Test question', { deadlineMs: 100 });
+
+    expect(result.timedOutCount).toBe(1);
+    expect(result.responses[0].timedOut).toBe(true);
+  }, 10000);
+
+  it('should resolve once the quorum is reached and skip the stragglers', async () => {
+    const providers = [
+      createMockProvider('Fast1', 20),
+      createMockProvider('Fast2', 40),
+      createMockProvider('Slow', 3000),
+    ];
+    const council = new Council(providers);
+
+    const startTime = Date.now();
+    const result = await council.deliberate('Test question', { quorum: 2 });
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(result.successCount).toBe(2);
+    expect(result.skippedCount).toBe(1);
+    expect(result.failureCount).toBe(0);
+
+    const skipped = result.responses.find((r) => r.provider === 'Slow');
+    expect(skipped?.skipped).toBe(true);
+    expect(skipped?.error).toContain('quorum of 2');
+  }, 10000);
+
+  it('should not count failures toward the quorum', async () => {
+    const providers = [
+      createMockProvider('Failure', 10, true),
+      createMockProvider('Success1', 50),
+      createMockProvider('Success2', 100),
+    ];
+    const council = new Council(providers);
+
+    const result = await council.deliberate('Test question', { quorum: 2 });
+
+    expect(result.successCount).toBe(2);
+    expect(result.failureCount).toBe(1);
+    expect(result.skippedCount).toBe(0);
+  });
+
+  it('should send context that fits in one query', async () => {
+    const council = new Council([createMockProvider('Provider1', 10)]);
+    const result = await council.deliberate('Test question', { context: 'Some context' });
+
+    expect(result.responses[0].content).toBe(
+      'Response from Provider1 to: Context: Some context\n\nQuestion: Test question'
+    );
+    expect(result.responses[0].context).toBeUndefined();
+  });
+
+  it('should critique oversized context in chunks and merge the notes', async () => {
+    const prompts: string[] = [];
+    const provider: Provider = {
+      ...createMockProvider('Small', 10),
+      capabilities: {
+        imageInput: false,
+        pdfInput: false,
+        fileInput: false,
+        contextWindow: 2_000,
+        maxOutputTokens: 500,
+      },
+      query: (prompt: string): Promise<ProviderResponse> => {
+        prompts.push(prompt);
+        return Promise.resolve({
+          content: `Notes ${prompts.length}`,
+          provider: 'Small',
+          modelId: 'Small-model',
+          latencyMs: 5,
+          usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+        });
+      },
+    };
+    const council = new Council([provider]);
+
+    // 1,296 tokens fit per chunk (2,000 less 500 output, 200 instructions and the question)
+    const result = await council.deliberate('Test question', {
+      context: 'c'.repeat(12_000),
+    });
+
+    expect(prompts).toHaveLength(4); // Three chunks, then the merge
+    expect(prompts[0]).toContain('part 1 of 3');
+    expect(prompts[3]).toContain('--- Notes on part 3 ---\nNotes 3');
+    const response = result.responses[0];
+    expect(response.content).toBe('Notes 4');
+    expect(response.usage).toEqual({ inputTokens: 400, outputTokens: 40, totalTokens: 440 });
+    expect(response.attempts).toBe(4);
+    expect(response.context).toEqual({
+      handling: 'chunked',
+      inputTokens: 3_004,
+      budgetTokens: 1_296,
+      chunks: 3,
+    });
+    expect(response.warnings).toHaveLength(1);
+  });
+
+  it('should critique chunks a few at a time and merge without a failed chunk', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const prompts: string[] = [];
+    const provider: Provider = {
+      ...createMockProvider('Small', 10),
+      capabilities: {
+        imageInput: false,
+        pdfInput: false,
+        fileInput: false,
+        contextWindow: 2_000,
+        maxOutputTokens: 500,
+      },
+      query: async (prompt: string): Promise<ProviderResponse> => {
+        prompts.push(prompt);
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        if (prompt.includes('part 2 of 3')) {
+          throw new Error('429 Too Many Requests');
+        }
+        return {
+          content: `Notes ${prompts.length}`,
+          provider: 'Small',
+          modelId: 'Small-model',
+          latencyMs: 5,
+          usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+        };
+      },
+    };
+    const council = new Council([provider]);
+
+    const result = await council.deliberate('Test question', {
+      context: 'c'.repeat(12_000),
+    });
+
+    expect(mostRunning).toBe(2);
+    expect(result.successCount).toBe(1);
+    const response = result.responses[0];
+    expect(prompts[3]).toContain('reviewed in 2 parts');
+    expect(response.usage).toEqual({ inputTokens: 300, outputTokens: 30, totalTokens: 330 });
+    expect(response.context).toMatchObject({ chunks: 3, failedChunks: 1 });
+    expect(response.warnings).toContainEqual(
+      expect.stringContaining('Context chunk 2 of 3 failed')
+    );
+  });
+
+  describe('deliberateStream', () => {
+    function createStreamingProvider(name: string, chunks: string[], failAfter?: number): Provider {
+      return {
+        name,
+        modelId: `${name}-model`,
+        query: () => Promise.reject(new Error('not used')),
+        queryStream: async function* (): AsyncIterable<string> {
+          for (let i = 0; i < chunks.length; i++) {
+            if (failAfter === i) {
+              throw new Error(`Stream error from ${name}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            yield chunks[i];
+          }
+        },
+      };
+    }
+
+    it('should merge member streams into one event stream', async () => {
+      const council = new Council([
+        createStreamingProvider('A', ['Hello', ' world']),
+        createStreamingProvider('B', ['Hi']),
+      ]);
+
+      const events: CouncilStreamEvent[] = [];
+      for await (const event of council.deliberateStream('Test question')) {
+        events.push(event);
+      }
+
+      expect(events.filter((e) => e.type === 'member_started')).toHaveLength(2);
+      expect(events.filter((e) => e.type === 'chunk')).toHaveLength(3);
+
+      const done = events.filter((e) => e.type === 'member_done');
+      expect(done).toHaveLength(2);
+      const doneA = done.find((e) => e.providerName === 'A');
+      expect(doneA?.response.content).toBe('Hello world');
+      expect(done.map((e) => e.completed).sort()).toEqual([1, 2]);
+    });
+
+    it('should emit member_failed with partial content when a stream errors', async () => {
+      const council = new Council([
+        createStreamingProvider('Good', ['OK']),
+        createStreamingProvider('Bad', ['partial', 'never'], 1),
+      ]);
+
+      const events: CouncilStreamEvent[] = [];
+      for await (const event of council.deliberateStream('Test question')) {
+        events.push(event);
+      }
+
+      const failed = events.find((e) => e.type === 'member_failed');
+      expect(failed?.providerName).toBe('Bad');
+      expect(failed?.response.error).toContain('Stream error from Bad');
+      expect(failed?.response.content).toBe('partial');
+      expect(events.some((e) => e.type === 'member_done' && e.providerName === 'Good')).toBe(true);
+    });
+
+    it('should emit member_failed when an SDK-backed stream errors partway through', async () => {
+      sdkModels.set(
+        'broken-model',
+        new MockLanguageModelV3({
+          doStream: () =>
+            Promise.resolve({
+              stream: convertArrayToReadableStream([
+                { type: 'stream-start', warnings: [] },
+                { type: 'text-start', id: 't' },
+                { type: 'text-delta', id: 't', delta: 'partial' },
+                { type: 'error', error: new Error('connection reset') },
+              ]),
+            }),
+        })
+      );
+      const council = new Council([
+        createStreamingProvider('Good', ['OK']),
+        new OpenAICompatibleProvider({ baseURL: 'http://127.0.0.1:1/v1' }, 'broken-model', 'SDK'),
+      ]);
+
+      const events: CouncilStreamEvent[] = [];
+      for await (const event of council.deliberateStream('Test question')) {
+        events.push(event);
+      }
+
+      const failed = events.find((e) => e.type === 'member_failed');
+      expect(failed?.providerName).toBe('SDK');
+      expect(failed?.response.error).toContain('connection reset');
+      expect(failed?.response.content).toBe('partial');
+      expect(events.some((e) => e.type === 'member_done' && e.providerName === 'SDK')).toBe(false);
+    });
+
+    it('should report skipped members separately from completed ones', async () => {
+      const textOnly: Provider = {
+        ...createStreamingProvider('Text only', ['never']),
+        capabilities: { imageInput: false, pdfInput: false, fileInput: false },
+      };
+      const council = new Council([createStreamingProvider('Good', ['OK']), textOnly]);
+
+      const events: CouncilStreamEvent[] = [];
+      for await (const event of council.deliberateStream('Test question', {
+        attachments: [{ mediaType: 'image/png', data: 'aGk=' }],
+        attachmentPolicy: 'skip',
+      })) {
+        events.push(event);
+      }
+
+      const skipped = events.find((e) => e.type === 'member_skipped');
+      expect(skipped).toMatchObject({ providerName: 'Text only', skipped: 1, total: 2 });
+      expect(skipped?.response.skipped).toBe(true);
+      expect(events.filter((e) => e.type === 'member_started')).toHaveLength(1);
+      expect(events.find((e) => e.type === 'member_done')).toMatchObject({ completed: 1 });
+      expect(events.some((e) => e.type === 'member_failed')).toBe(false);
+    });
+
+    it('should abort remaining members when the consumer stops early', async () => {
+      let aborted = false;
+      const slow: Provider = {
+        name: 'Slow',
+        modelId: 'slow-model',
+        query: () => Promise.reject(new Error('not used')),
+        queryStream: async function* (_prompt, options): AsyncIterable<string> {
+          await new Promise<void>((resolve) => {
+            options?.signal?.addEventListener('abort', () => {
+              aborted = true;
+              resolve();
+            });
+          });
+          yield 'late';
+        },
+      };
+      const council = new Council([slow]);
+
+      for await (const event of council.deliberateStream('Test question')) {
+        expect(event.type).toBe('member_started');
+        break;
+      }
+
+      expect(aborted).toBe(true);
+    });
+  });
 });
@@ -1,5 +1,205 @@
-import type { Provider, ProviderAttachment, ProviderResponse } from '../providers/types.js';
-import type { DeliberationResult, ProgressCallback } from './types.js';
+import { classifyProviderError } from '../providers/errors.js';
+import { FallbackExhaustedError } from '../providers/fallback-provider.js';
+import type {
+  ConversationTurn,
+  Provider,
+  ProviderAttachment,
+  ProviderResponse,
+} from '../providers/types.js';
+import { sumTokenUsage } from '../providers/usage.js';
+import { type AttachmentRoute, routeAttachments } from './attachments.js';
+import {
+  buildChunkPrompt,
+  buildMergePrompt,
+  buildPrompt,
+  describeContextHandling,
+  planContext,
+} from './context.js';
+import type {
+  AttachmentPolicy,
+  CouncilStreamEvent,
+  DeliberationResult,
+  ProgressCallback,
+} from './types.js';
+
+const DEFAULT_MAX_CONTEXT_CHUNKS = 8;
+
+/**
+ * Most context chunks of one member critiqued at the same time, to stay clear of rate limits
+ */
+const CHUNK_CONCURRENCY = 2;
+
+/**
+ * Runs tasks with at most `limit` of them running at once, settling like Promise.allSettled
+ */
+async function settleWithLimit<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number
+): Promise<PromiseSettledResult<T>[]> {
+  const results = new Array<PromiseSettledResult<T>>(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (error) {
+        results[index] = { status: 'rejected', reason: error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+/**
+ * Races a member query against the shared abort signal so that a provider
+ * which ignores cancellation cannot hold up the deliberation
+ */
+function abandonOnAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      const reason: unknown = signal.reason;
+      reject(reason instanceof Error ? reason : new Error('Operation was aborted'));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  });
+}
+
+/**
+ * Response fields reporting how a member's attachments were routed
+ */
+function toRoutingFields(
+  route: AttachmentRoute,
+  contextWarnings: string[] = []
+): Pick<ProviderResponse, 'attachments' | 'warnings'> {
+  const warnings = [...route.warnings, ...contextWarnings];
+  return {
+    ...(route.handling.length > 0 ? { attachments: route.handling } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+/**
+ * Key of a member's conversation in a deliberation's history
+ */
+export function getMemberKey(member: { memberId?: string; name: string }): string {
+  return member.memberId ?? member.name;
+}
+
+/**
+ * Queries a member with the question and its context, fitted into the member's context window
+ * Context that does not fit is critiqued chunk by chunk, a few chunks at a time (attachments
+ * go with every chunk), then the member merges its own notes into one critique. A chunk whose
+ * critique fails is left out of the merge with a warning; the member fails only if every chunk
+ * does. The member's earlier turns are replayed with every request.
+ */
+async function queryWithContext(
+  provider: Provider,
+  route: AttachmentRoute,
+  context: string | undefined,
+  options: { signal: AbortSignal; maxContextChunks: number; history?: ConversationTurn[] }
+): Promise<ProviderResponse> {
+  const { signal } = options;
+  const plan = planContext(route.prompt, context, {
+    capabilities: provider.capabilities,
+    attachments: route.attachments,
+    history: options.history,
+    maxChunks: options.maxContextChunks,
+  });
+  const history = plan.history;
+  const warnings = [
+    ...(plan.historyTrimmed
+      ? ["Earlier turns of this member's conversation were shortened to fit its context window"]
+      : []),
+    ...(plan.handling ? [describeContextHandling(plan.handling)] : []),
+  ];
+  const contextFields = {
+    ...(plan.handling ? { context: plan.handling } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+
+  if (!plan.chunks || !plan.handling) {
+    const response = await provider.query(plan.prompt, {
+      signal,
+      attachments: route.attachments,
+      history,
+    });
+    return { ...response, ...contextFields };
+  }
+
+  const startTime = Date.now();
+  const chunks = plan.chunks;
+  const results = await settleWithLimit(
+    chunks.map((chunk, index) => () => {
+      signal.throwIfAborted();
+      return provider.query(buildChunkPrompt(route.prompt, chunk, index, chunks.length), {
+        signal,
+        attachments: route.attachments,
+        history,
+      });
+    }),
+    CHUNK_CONCURRENCY
+  );
+  signal.throwIfAborted();
+
+  const notes: ProviderResponse[] = [];
+  const chunkWarnings: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      notes.push(result.value);
+    } else {
+      const reason: unknown = result.reason;
+      chunkWarnings.push(
+        `Context chunk ${index + 1} of ${chunks.length} failed and was left out of the merge: ${reason instanceof Error ? reason.message : String(reason)}`
+      );
+    }
+  });
+  if (notes.length === 0) {
+    const [first] = results;
+    throw first.status === 'rejected' ? first.reason : new Error('Every context chunk failed');
+  }
+
+  const noteTokens = Math.floor(plan.handling.budgetTokens / notes.length);
+  const merged = await provider.query(
+    buildMergePrompt(
+      route.prompt,
+      notes.map((note) => note.content),
+      noteTokens
+    ),
+    { signal, history }
+  );
+
+  const responses = [...notes, merged];
+  const usage = sumTokenUsage(responses.map((response) => response.usage));
+  const failedChunks = chunks.length - notes.length;
+  const allWarnings = [...warnings, ...chunkWarnings];
+  return {
+    ...merged,
+    latencyMs: Date.now() - startTime,
+    tokensUsed: usage?.totalTokens,
+    usage,
+    attempts: responses.reduce((sum, response) => sum + (response.attempts ?? 1), 0),
+    context: failedChunks > 0 ? { ...plan.handling, failedChunks } : plan.handling,
+    ...(allWarnings.length > 0 ? { warnings: allWarnings } : {}),
+  };
+}
 
 /**
  * Council of AI Models
@@ -11,7 +211,12 @@ import type { DeliberationResult, ProgressCallback } from './types.js';
  * - Parallel execution with Promise.allSettled()
  * - Graceful handling of partial failures
  * - Progress callbacks for real-time UI updates
- * - User-cancellable via AbortSignal (no automatic timeout)
+ * - Streaming deliberation that merges every member's text stream
+ * - User-cancellable via AbortSignal
+ * - Optional deadline that returns partial results and aborts late members
+ * - Optional quorum that resolves once K members succeed and skips the rest
+ * - Per-member attachment routing by provider capabilities
+ * - Per-member context budgeting, with a map-reduce pass over context that does not fit
  */
 export class Council {
   private providers: Provider[];
@@ -27,18 +232,35 @@ export class Council {
    *
    * @param prompt - The question to ask all Council members
    * @param options - Optional configuration for deliberation
+   * @param options.context - Optional context for the question; fitted into each member's
+   *   context window, chunked and merged if it does not fit
+   * @param options.maxContextChunks - Most context chunks critiqued per member (default: 8)
+   * @param options.history - Optional earlier turns of each member's conversation, keyed by
+   *   getMemberKey(); replayed before the question (shortened to fit the context window)
    * @param options.onProgress - Optional progress callback for UI updates
    * @param options.attachments - Optional file attachments to include
-   * @param options.signal - Optional AbortSignal for user cancellation (no automatic timeout)
+   * @param options.signal - Optional AbortSignal for user cancellation
+   * @param options.deadlineMs - Optional deadline; members still running when it passes are
+   *   aborted and reported as timed out while finished responses are kept
+   * @param options.quorum - Optional number of successful responses to wait for; once reached,
+   *   the remaining members are aborted and reported as skipped
+   * @param options.attachmentPolicy - What to do with attachments a member cannot accept
+   *   (default: convert)
    * @returns Deliberation result with all responses and metadata
    */
   async deliberate(
     prompt: string,
     options?: {
+      context?: string;
+      maxContextChunks?: number;
+      history?: Record<string, ConversationTurn[]>;
       onProgress?: ProgressCallback;
       attachments?: ProviderAttachment[];
       signal?: AbortSignal;
       providers?: Provider[];
+      deadlineMs?: number;
+      quorum?: number;
+      attachmentPolicy?: AttachmentPolicy;
     }
   ): Promise<DeliberationResult> {
     const providers = options?.providers ?? this.providers;
@@ -51,15 +273,69 @@ export class Council {
     let completedCount = 0;
     const total = providers.length;
     const attachments = options?.attachments;
-    const signal = options?.signal;
+    const deadlineMs = options?.deadlineMs;
+    const quorum = options?.quorum;
+
+    // Members share one controller, aborted by the user signal, the deadline or the quorum
+    const controller = new AbortController();
+    const userSignal = options?.signal;
+    const onUserAbort = () => controller.abort(userSignal?.reason);
+    if (userSignal?.aborted) {
+      controller.abort(userSignal.reason);
+    } else {
+      userSignal?.addEventListener('abort', onUserAbort, { once: true });
+    }
 
-    // Create queries for each provider (no automatic timeout, only user cancellation)
+    // Records why the Council stopped waiting, so aborted members can be classified
+    let stopReason: 'deadline' | 'quorum' | undefined;
+    const deadlineTimer =
+      deadlineMs !== undefined
+        ? setTimeout(() => {
+            if (stopReason || controller.signal.aborted) return;
+            stopReason = 'deadline';
+            controller.abort(new Error(`Timed out after ${deadlineMs}ms (consultation deadline)`));
+          }, deadlineMs)
+        : undefined;
+    let succeededCount = 0;
+
+    const signal = controller.signal;
+
+    // Create queries for each provider
     const queries = providers.map(async (provider) => {
+      const route = routeAttachments(
+        prompt,
+        attachments,
+        provider.capabilities,
+        options?.attachmentPolicy ?? 'convert'
+      );
+      if (route.skipReason) {
+        // Not consulted at all, so it neither completes nor counts towards progress
+        const skippedResponse: ProviderResponse = {
+          content: '',
+          provider: provider.name,
+          ...(provider.memberId ? { memberId: provider.memberId } : {}),
+          modelId: provider.modelId,
+          latencyMs: 0,
+          error: route.skipReason,
+          skipped: true,
+          ...toRoutingFields(route),
+        };
+        return { status: 'rejected' as const, reason: skippedResponse };
+      }
+
       try {
-        const response = await provider.query(prompt, { signal, attachments });
+        const response = await abandonOnAbort(
+          queryWithContext(provider, route, options?.context, {
+            signal,
+            maxContextChunks: options?.maxContextChunks ?? DEFAULT_MAX_CONTEXT_CHUNKS,
+            history: options?.history?.[getMemberKey(provider)],
+          }),
+          signal
+        );
 
         // Report progress
         completedCount++;
+        succeededCount++;
         if (options?.onProgress) {
           options.onProgress({
             providerName: provider.name,
@@ -73,11 +349,33 @@ export class Council {
           console.log(`[Council] ${provider.name} completed (${response.latencyMs}ms)`);
         }
 
-        return { status: 'fulfilled' as const, value: response };
+        if (
+          quorum !== undefined &&
+          succeededCount >= quorum &&
+          !stopReason &&
+          !controller.signal.aborted
+        ) {
+          stopReason = 'quorum';
+          controller.abort(new Error(`Skipped: quorum of ${quorum} reached`));
+        }
+
+        return {
+          status: 'fulfilled' as const,
+          value: {
+            ...response,
+            ...(provider.memberId ? { memberId: provider.memberId } : {}),
+            ...toRoutingFields(route, response.warnings),
+          },
+        };
       } catch (error) {
-        // Report progress for failure too
-        completedCount++;
-        if (options?.onProgress) {
+        const timedOut = stopReason === 'deadline';
+        const skipped = stopReason === 'quorum';
+
+        // Report progress for failure too (skipped members never finished)
+        if (!skipped) {
+          completedCount++;
+        }
+        if (options?.onProgress && !skipped) {
           options.onProgress({
             providerName: provider.name,
             success: false,
@@ -88,7 +386,7 @@ export class Council {
 
         if (this.debug) {
           console.log(
-            `[Council] ${provider.name} failed:`,
+            `[Council] ${provider.name} ${timedOut ? 'timed out' : skipped ? 'skipped' : 'failed'}:`,
             error instanceof Error ? error.message : String(error)
           );
         }
@@ -97,21 +395,31 @@ export class Council {
         const errorResponse: ProviderResponse = {
           content: '',
           provider: provider.name,
+          ...(provider.memberId ? { memberId: provider.memberId } : {}),
           modelId: provider.modelId,
           latencyMs: Date.now() - startTime,
           error: error instanceof Error ? error.message : String(error),
+          errorCode: timedOut ? 'timeout' : skipped ? 'aborted' : classifyProviderError(error),
+          ...(error instanceof FallbackExhaustedError ? { fallbackTrail: error.trail } : {}),
+          ...(timedOut ? { timedOut: true } : {}),
+          ...(skipped ? { skipped: true } : {}),
+          ...toRoutingFields(route),
         };
         return { status: 'rejected' as const, reason: errorResponse };
       }
     });
 
-    // Wait for all providers to complete (or timeout)
+    // Wait for all providers to complete (or the deadline/quorum to abort the rest)
     const results = await Promise.allSettled(queries);
+    clearTimeout(deadlineTimer);
+    userSignal?.removeEventListener('abort', onUserAbort);
 
     // Collect responses
     const responses: ProviderResponse[] = [];
     let successCount = 0;
     let failureCount = 0;
+    let timedOutCount = 0;
+    let skippedCount = 0;
 
     for (const result of results) {
       if (result.status === 'fulfilled' && result.value.status === 'fulfilled') {
@@ -119,7 +427,13 @@ export class Council {
         successCount++;
       } else if (result.status === 'fulfilled' && result.value.status === 'rejected') {
         responses.push(result.value.reason);
-        failureCount++;
+        if (result.value.reason.timedOut) {
+          timedOutCount++;
+        } else if (result.value.reason.skipped) {
+          skippedCount++;
+        } else {
+          failureCount++;
+        }
       } else if (result.status === 'rejected') {
         // This shouldn't happen since we handle errors inside queries, but just in case
         responses.push({
@@ -137,7 +451,7 @@ export class Council {
 
     if (this.debug) {
       console.log(
-        `[Council] Deliberation complete: ${successCount} succeeded, ${failureCount} failed (${totalLatencyMs}ms total)`
+        `[Council] Deliberation complete: ${successCount} succeeded, ${failureCount} failed, ${timedOutCount} timed out, ${skippedCount} skipped (${totalLatencyMs}ms total)`
       );
     }
 
@@ -146,10 +460,191 @@ export class Council {
       totalLatencyMs,
       successCount,
       failureCount,
+      timedOutCount,
+      skippedCount,
       prompt,
     };
   }
 
+  /**
+   * Streams a deliberation from all Council members in parallel
+   *
+   * Merges each member's queryStream() into a single event stream. Events are
+   * yielded in arrival order, so chunks from different members interleave.
+   * Breaking out of the loop aborts any members that are still streaming.
+   * Members the attachment policy skips get a member_skipped event and do not count as
+   * completed.
+   *
+   * @param prompt - The question to ask all Council members
+   * @param options - Optional configuration for deliberation
+   * @param options.context - Optional context for the question; sent whole, since a stream
+   *   cannot be merged from chunks
+   * @param options.attachments - Optional file attachments to include
+   * @param options.signal - Optional AbortSignal for user cancellation
+   * @param options.providers - Optional subset of providers to consult
+   * @param options.attachmentPolicy - What to do with attachments a member cannot accept
+   *   (default: convert)
+   */
+  async *deliberateStream(
+    prompt: string,
+    options?: {
+      context?: string;
+      attachments?: ProviderAttachment[];
+      signal?: AbortSignal;
+      providers?: Provider[];
+      attachmentPolicy?: AttachmentPolicy;
+    }
+  ): AsyncGenerator<CouncilStreamEvent> {
+    const providers = options?.providers ?? this.providers;
+    const total = providers.length;
+    const attachments = options?.attachments;
+
+    if (this.debug) {
+      console.log(`[Council] Starting streaming deliberation with ${total} providers`);
+    }
+
+    // Members share one controller so an early exit by the consumer cancels them all
+    const controller = new AbortController();
+    const userSignal = options?.signal;
+    const onUserAbort = () => controller.abort(userSignal?.reason);
+    if (userSignal?.aborted) {
+      controller.abort(userSignal.reason);
+    } else {
+      userSignal?.addEventListener('abort', onUserAbort, { once: true });
+    }
+
+    const queue: CouncilStreamEvent[] = [];
+    let wake: (() => void) | undefined;
+    const push = (event: CouncilStreamEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+
+    let completedCount = 0;
+    let skippedCount = 0;
+    let running = total;
+
+    const pump = async (provider: Provider) => {
+      const startTime = Date.now();
+      let content = '';
+      const route = routeAttachments(
+        prompt,
+        attachments,
+        provider.capabilities,
+        options?.attachmentPolicy ?? 'convert'
+      );
+      if (route.skipReason) {
+        // Not consulted at all, so it neither starts nor completes
+        skippedCount++;
+        push({
+          type: 'member_skipped',
+          providerName: provider.name,
+          response: {
+            content: '',
+            provider: provider.name,
+            ...(provider.memberId ? { memberId: provider.memberId } : {}),
+            modelId: provider.modelId,
+            latencyMs: 0,
+            error: route.skipReason,
+            skipped: true,
+            ...toRoutingFields(route),
+          },
+          skipped: skippedCount,
+          total,
+        });
+        running--;
+        wake?.();
+        return;
+      }
+      push({ type: 'member_started', providerName: provider.name, modelId: provider.modelId });
+
+      try {
+        for await (const text of provider.queryStream(buildPrompt(route.prompt, options?.context), {
+          signal: controller.signal,
+          attachments: route.attachments,
+          onStreamMetadata: (metadata) => {
+            push({
+              type: 'member_switched',
+              providerName: provider.name,
+              fromModelId: metadata.fromModelId,
+              toModelId: metadata.toModelId,
+              error: metadata.error,
+            });
+          },
+        })) {
+          content += text;
+          push({ type: 'chunk', providerName: provider.name, text });
+        }
+
+        completedCount++;
+        push({
+          type: 'member_done',
+          providerName: provider.name,
+          response: {
+            content,
+            provider: provider.name,
+            ...(provider.memberId ? { memberId: provider.memberId } : {}),
+            modelId: provider.modelId,
+            latencyMs: Date.now() - startTime,
+            ...toRoutingFields(route),
+          },
+          completed: completedCount,
+          total,
+        });
+      } catch (error) {
+        completedCount++;
+
+        if (this.debug) {
+          console.log(
+            `[Council] ${provider.name} stream failed:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+
+        push({
+          type: 'member_failed',
+          providerName: provider.name,
+          response: {
+            content,
+            provider: provider.name,
+            ...(provider.memberId ? { memberId: provider.memberId } : {}),
+            modelId: provider.modelId,
+            latencyMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+            errorCode: classifyProviderError(error),
+            ...toRoutingFields(route),
+          },
+          completed: completedCount,
+          total,
+        });
+      } finally {
+        running--;
+        wake?.();
+      }
+    };
+
+    for (const provider of providers) {
+      void pump(provider);
+    }
+
+    try {
+      while (running > 0 || queue.length > 0) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = undefined;
+      }
+    } finally {
+      userSignal?.removeEventListener('abort', onUserAbort);
+      controller.abort();
+    }
+  }
+
   /**
    * Gets the list of provider names in the Council
    */
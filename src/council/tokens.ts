@@ -0,0 +1,39 @@
+/**
+ * Token approximations used to budget requests before they are sent
+ * About four characters per token; no tokenizer is involved.
+ */
+
+import type { ProviderAttachment } from '../providers/types.js';
+
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Typical cost of one image for vision models (vendors scale images to a bounded size)
+ */
+const IMAGE_TOKENS = 1_600;
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the prompt tokens of one attachment
+ * Images count a fixed amount; other inline files count their decoded size. Files given by
+ * URL cannot be sized without fetching them and count as zero.
+ */
+export function estimateAttachmentTokens(attachment: ProviderAttachment): number {
+  if (attachment.mediaType.startsWith('image/')) {
+    return IMAGE_TOKENS;
+  }
+  if (!attachment.data) {
+    return 0;
+  }
+  const commaIndex = attachment.data.indexOf(',');
+  const base64 =
+    attachment.data.startsWith('data:') && commaIndex !== -1
+      ? attachment.data.slice(commaIndex + 1)
+      : attachment.data;
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return Math.ceil(bytes / CHARS_PER_TOKEN);
+}
@@ -22,16 +22,34 @@ export interface DeliberationResult {
   successCount: number;
 
   /**
-   * Number of failed responses
+   * Number of failed responses (excluding members that timed out or were skipped)
    */
   failureCount: number;
 
+  /**
+   * Number of members aborted because the deliberation deadline passed
+   */
+  timedOutCount: number;
+
+  /**
+   * Number of members aborted because the quorum was already reached
+   */
+  skippedCount: number;
+
   /**
    * The original prompt sent to Council
    */
   prompt: string;
 }
 
+/**
+ * What to do with attachments a member cannot accept
+ * - convert: inline text files into the prompt, strip the rest with a warning
+ * - strip: leave them out with a warning
+ * - skip: do not consult the member
+ */
+export type AttachmentPolicy = 'convert' | 'strip' | 'skip';
+
 /**
  * Progress callback for Council deliberation
  * Called when each provider completes (success or failure)
@@ -42,3 +60,47 @@ export type ProgressCallback = (params: {
   completed: number;
   total: number;
 }) => void;
+
+/**
+ * Event emitted by a streaming Council deliberation
+ * Events from all members are interleaved in arrival order
+ */
+export type CouncilStreamEvent =
+  | {
+      type: 'member_started';
+      providerName: string;
+      modelId: string;
+    }
+  | {
+      type: 'chunk';
+      providerName: string;
+      text: string;
+    }
+  | {
+      type: 'member_switched'; // A fallback model took over mid-stream and is continuing the text
+      providerName: string;
+      fromModelId: string;
+      toModelId: string;
+      error: string;
+    }
+  | {
+      type: 'member_done';
+      providerName: string;
+      response: ProviderResponse;
+      completed: number; // Members that answered or failed so far (skipped members not included)
+      total: number;
+    }
+  | {
+      type: 'member_failed';
+      providerName: string;
+      response: ProviderResponse; // Carries the error message and partial content, if any
+      completed: number;
+      total: number;
+    }
+  | {
+      type: 'member_skipped'; // Not consulted (e.g., the attachment policy skips the member)
+      providerName: string;
+      response: ProviderResponse; // Carries the skip reason
+      skipped: number; // Members skipped so far
+      total: number;
+    };
@@ -1,21 +1,25 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { getMissingApiKeys } from './config.js';
-import { COUNCIL_MODELS, ModelConfig } from '../council.config.js';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createXai } from '@ai-sdk/xai';
-import { createGroq } from '@ai-sdk/groq';
-import { generateText } from 'ai';
+import { loadConfig } from './config.js';
+import { ModelConfig } from '../council.config.js';
+import { getCouncilModels, setCouncilConfigPath } from './council-config.js';
 import chalk from 'chalk';
 import ora from 'ora';
 import axios from 'axios';
 import { ProgressSpinner, showHeader, showSuccess, showError, formatTiming } from './ui.js';
-import { CouncilResponse } from './server/types.js';
+import { ConsultationEstimate, CouncilResponse } from './server/types.js';
+import { formatUsage, formatUsd } from './server/cost.js';
+import {
+  createProvider,
+  getMissingApiKeys,
+  loadProviderModules,
+  requiresApiKey,
+  resolveApiKey,
+} from './providers/index.js';
 
 interface CliOptions {
+  config?: string;
   testProviders?: boolean;
   testProvider?: string;
   server?: string;
@@ -35,9 +39,32 @@ program
   .command('ask <question>')
   .description('Consult the Council of AI models for perspectives and critiques')
   .option('-s, --server <url>', 'Council server URL', 'http://127.0.0.1:3000')
-  .action(async (question: string, options: { server: string }) => {
-    await handleAskCommand(question, options.server);
-  });
+  .option('-p, --preset <name>', 'Named council preset (e.g., "fast", "deep")')
+  .option('-S, --session <id>', 'Follow up on an earlier consultation in the same session')
+  .action(
+    async (question: string, options: { server: string; preset?: string; session?: string }) => {
+      await handleAskCommand(question, options.server, options.preset, options.session);
+    }
+  );
+
+/**
+ * Estimate command - preview a consultation's tokens and cost without calling any model
+ */
+program
+  .command('estimate <question>')
+  .description('Estimate the tokens and cost of a consultation without calling any model')
+  .option('-s, --server <url>', 'Council server URL', 'http://127.0.0.1:3000')
+  .option('-p, --preset <name>', 'Named council preset (e.g., "fast", "deep")')
+  .option('-m, --models <names>', 'Comma-separated members to consult (e.g., "claude,gpt")')
+  .action(
+    async (question: string, options: { server: string; preset?: string; models?: string }) => {
+      const models = options.models
+        ?.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean);
+      await handleEstimateCommand(question, options.server, options.preset, models);
+    }
+  );
 
 /**
  * Server command - start the Council daemon
@@ -45,10 +72,15 @@ program
 program
   .command('server')
   .description('Start the Council daemon server')
-  .action(async () => {
+  .option('-c, --config <path>', 'Council config file (JSON or YAML)')
+  .action(async (options: { config?: string }) => {
     console.log(chalk.cyan('\n🚀 Starting Council daemon server...\n'));
     const { spawn } = await import('child_process');
-    const serverProcess = spawn('node', ['dist/src/server/index.js'], {
+    const args = [
+      'dist/src/server/index.js',
+      ...(options.config ? ['--config', options.config] : []),
+    ];
+    const serverProcess = spawn('node', args, {
       stdio: 'inherit',
     });
 
@@ -62,9 +94,15 @@ program
  * Test commands
  */
 program
+  .option('-c, --config <path>', 'Council config file (JSON or YAML)')
   .option('--test-providers', 'Test connectivity to all AI providers')
   .option('--test-provider <provider>', 'Test connectivity to a specific provider (e.g., "GPT")')
   .action(async (options: CliOptions) => {
+    if (options.testProvider || options.testProviders) {
+      setCouncilConfigPath(options.config);
+      // Register in-house provider types before any member is built
+      await loadProviderModules(loadConfig().providerModules);
+    }
     if (options.testProvider) {
       await testSingleProvider(options.testProvider);
     } else if (options.testProviders) {
@@ -77,7 +115,12 @@ program
 /**
  * Handles the 'ask' command - consults the Council via HTTP
  */
-async function handleAskCommand(question: string, serverUrl: string): Promise<void> {
+async function handleAskCommand(
+  question: string,
+  serverUrl: string,
+  preset?: string,
+  sessionId?: string
+): Promise<void> {
   const startTime = Date.now();
   let originHeader: string | undefined;
   try {
@@ -94,7 +137,7 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
   }
 
   showHeader('Council Consultation');
-  console.log(chalk.gray(`Question: ${question}\n`));
+  console.log(chalk.gray(`Question: ${question}${preset ? `\nPreset: ${preset}` : ''}\n`));
 
   try {
     // Check server health
@@ -147,6 +190,8 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
           name: 'consult_llm_council',
           arguments: {
             prompt: question,
+            ...(preset ? { preset } : {}),
+            ...(sessionId ? { session_id: sessionId } : {}),
           },
         },
       },
@@ -156,6 +201,14 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
       }
     );
 
+    // Invalid requests (e.g., an unknown preset) come back as JSON-RPC errors
+    const rpcError = (response.data as { error?: { message: string } }).error;
+    if (rpcError) {
+      consultSpinner.fail(chalk.red('Council rejected the request'));
+      showError(rpcError.message);
+      process.exit(1);
+    }
+
     const result = response.data.result;
 
     // Extract structured content if available
@@ -181,13 +234,32 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
     );
 
     for (const critique of councilResponse.critiques) {
-      if (critique.error) {
+      if (critique.skipped) {
+        console.log(chalk.gray.bold(`${critique.model} ⊘`));
+        console.log(chalk.gray(`Model ID: ${critique.model_id}`));
+        const byAttachments = critique.attachments?.some(
+          (attachment) => attachment.handling === 'skipped'
+        );
+        console.log(chalk.gray(`Skipped: ${byAttachments ? critique.error : 'quorum reached'}\n`));
+      } else if (critique.timed_out) {
+        console.log(chalk.yellow.bold(`${critique.model} ⏱`));
+        console.log(chalk.gray(`Model ID: ${critique.model_id}`));
+        console.log(chalk.yellow(`Timed out: ${critique.error}\n`));
+      } else if (critique.error) {
         console.log(chalk.red.bold(`${critique.model} ✗`));
         console.log(chalk.gray(`Model ID: ${critique.model_id}`));
         console.log(chalk.red(`Error: ${critique.error}\n`));
       } else {
         console.log(chalk.green.bold(`${critique.model} ✓`));
         console.log(chalk.gray(`Model ID: ${critique.model_id}`));
+        if (critique.usage) {
+          console.log(
+            chalk.gray(`Usage: ${formatUsage(critique.usage, critique.estimated_cost_usd)}`)
+          );
+        }
+        for (const warning of critique.warnings ?? []) {
+          console.log(chalk.yellow(`  ! ${warning}`));
+        }
         console.log(`${critique.response}\n`);
       }
     }
@@ -201,6 +273,25 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
       )
     );
     console.log(chalk.gray(`Total time: ${formatTiming(totalTime)}`));
+    const {
+      usage,
+      estimated_cost_usd: costUsd,
+      unpriced_models: unpriced,
+    } = councilResponse.summary;
+    if (usage) {
+      console.log(chalk.gray(`Tokens: ${formatUsage(usage)}`));
+    }
+    if (costUsd !== undefined) {
+      const note = unpriced ? ` (excludes unpriced: ${unpriced.join(', ')})` : '';
+      console.log(chalk.gray(`Estimated cost: ${formatUsd(costUsd)}${note}`));
+    }
+    if (councilResponse.session_id) {
+      console.log(
+        chalk.gray(
+          `Follow up with: llm-council ask --session ${councilResponse.session_id} "<question>"`
+        )
+      );
+    }
 
     showSuccess('Council consultation complete!');
   } catch (error) {
@@ -220,22 +311,117 @@ async function handleAskCommand(question: string, serverUrl: string): Promise<vo
 }
 
 /**
- * Creates a provider client based on provider type
+ * Handles the 'estimate' command - asks the Council server for a pre-flight estimate
  */
-function createProviderClient(provider: string, apiKey: string) {
-  switch (provider) {
-    case 'anthropic':
-      return createAnthropic({ apiKey });
-    case 'openai':
-      return createOpenAI({ apiKey });
-    case 'gemini':
-      return createGoogleGenerativeAI({ apiKey });
-    case 'xai':
-      return createXai({ apiKey });
-    case 'groq':
-      return createGroq({ apiKey });
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+async function handleEstimateCommand(
+  question: string,
+  serverUrl: string,
+  preset?: string,
+  models?: string[]
+): Promise<void> {
+  let originHeader: string | undefined;
+  try {
+    originHeader = new URL(serverUrl).origin;
+  } catch {
+    originHeader = undefined;
+  }
+
+  if (!question || question.trim().length === 0) {
+    showError('Please provide the question you would ask the Council.');
+    console.log(chalk.gray('Example: llm-council estimate "What is TypeScript?"\n'));
+    process.exit(1);
+  }
+
+  showHeader('Consultation Estimate');
+
+  const spinner = new ProgressSpinner('Estimating consultation...');
+  try {
+    const response = await axios.post(
+      `${serverUrl}/mcp`,
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: {
+          name: 'estimate_consultation',
+          arguments: {
+            prompt: question,
+            ...(preset ? { preset } : {}),
+            ...(models && models.length > 0 ? { models } : {}),
+          },
+        },
+      },
+      {
+        timeout: 10000,
+        ...(originHeader ? { headers: { Origin: originHeader } } : {}),
+      }
+    );
+
+    const rpcError = (response.data as { error?: { message: string } }).error;
+    if (rpcError) {
+      spinner.fail(chalk.red('Council rejected the request'));
+      showError(rpcError.message);
+      process.exit(1);
+    }
+
+    const estimate = (response.data as { result?: { structuredContent?: ConsultationEstimate } })
+      .result?.structuredContent;
+    if (!estimate) {
+      spinner.fail(chalk.red('Unexpected response format'));
+      showError('Could not parse the estimate. Please try again.');
+      process.exit(1);
+    }
+    spinner.succeed(chalk.green(`Estimated ${estimate.summary.members_consulted} members`));
+    console.log();
+
+    for (const member of estimate.members) {
+      const overflow = member.fits_context === false;
+      console.log(overflow ? chalk.yellow.bold(`${member.name} ⚠`) : chalk.bold(`${member.name}`));
+      console.log(chalk.gray(`Model ID: ${member.model_id}`));
+      const window = member.context_window !== undefined ? ` of ${member.context_window}` : '';
+      const cost =
+        member.estimated_cost_usd !== undefined ? `, ${formatUsd(member.estimated_cost_usd)}` : '';
+      console.log(
+        chalk.gray(
+          `Tokens: ${member.input_tokens} in / ${member.output_tokens} out${window}${cost}`
+        )
+      );
+      for (const warning of member.warnings ?? []) {
+        console.log(chalk.yellow(`  ! ${warning}`));
+      }
+      console.log();
+    }
+
+    for (const member of estimate.skipped) {
+      console.log(chalk.gray(`${member.name} ⊘ skipped: ${member.reason}`));
+    }
+
+    const { summary } = estimate;
+    const note = summary.unpriced_models
+      ? ` (excludes unpriced: ${summary.unpriced_models.join(', ')})`
+      : '';
+    console.log(chalk.gray(`\nTokens: ${summary.input_tokens} in / ${summary.output_tokens} out`));
+    console.log(chalk.gray(`Estimated cost: ${formatUsd(summary.estimated_cost_usd)}${note}`));
+    if (summary.budget.allowed) {
+      showSuccess('Within budget');
+    } else {
+      showError(`Would be rejected: ${summary.budget.error}`);
+    }
+  } catch (error) {
+    spinner.fail(chalk.red('Estimate failed'));
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNREFUSED') {
+        showError('Council server is not running.');
+        console.log(chalk.yellow('Start the server with: llm-council server'));
+      } else if (error.response) {
+        showError(`Server error: ${error.response.status} ${error.response.statusText}`);
+      } else {
+        showError(`Network error: ${error.message}`);
+      }
+    } else {
+      showError(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exit(1);
   }
 }
 
@@ -243,17 +429,15 @@ function createProviderClient(provider: string, apiKey: string) {
  * Tests a single model and returns success status
  */
 async function testModel(modelConfig: ModelConfig, modelId: string): Promise<boolean> {
-  if (!modelConfig.apiKey) {
+  const apiKey = resolveApiKey(modelConfig);
+  if (!apiKey && requiresApiKey(modelConfig.provider)) {
     throw new Error('API key not configured');
   }
 
-  const client = createProviderClient(modelConfig.provider, modelConfig.apiKey);
-  const result = await generateText({
-    model: client(modelId),
-    prompt: `Say "Hello from ${modelConfig.name}" and nothing else.`,
-  });
+  const provider = createProvider(modelConfig, apiKey, modelId);
+  const response = await provider.query(`Say "Hello from ${modelConfig.name}" and nothing else.`);
 
-  return result.text.includes('Hello') || result.text.toLowerCase().includes('hello');
+  return response.content.includes('Hello') || response.content.toLowerCase().includes('hello');
 }
 
 interface TestResult {
@@ -267,14 +451,14 @@ interface TestResult {
 async function testSingleProvider(providerName: string) {
   console.log(chalk.bold(`\n🧠 Testing Provider: ${providerName}\n`));
 
-  const modelConfig = COUNCIL_MODELS.find(
+  const modelConfig = getCouncilModels().find(
     (m) => m.name.toLowerCase() === providerName.toLowerCase()
   );
 
   if (!modelConfig) {
     console.error(chalk.red(`\n❌ Unknown provider: ${providerName}\n`));
     console.log(chalk.bold('Available providers:'));
-    COUNCIL_MODELS.forEach((m) => {
+    getCouncilModels().forEach((m) => {
       console.log(chalk.gray(`  - ${m.name}`));
     });
     console.log();
@@ -282,7 +466,7 @@ async function testSingleProvider(providerName: string) {
   }
 
   // Check if API key is configured
-  if (!modelConfig.apiKey) {
+  if (!resolveApiKey(modelConfig) && requiresApiKey(modelConfig.provider)) {
     console.error(chalk.red(`\n❌ Missing API key for ${modelConfig.name}\n`));
     console.log(
       chalk.yellow(
@@ -339,8 +523,8 @@ async function testProviders() {
   const results: TestResult[] = [];
 
   // Test each model config
-  for (const modelConfig of COUNCIL_MODELS) {
-    if (!modelConfig.apiKey) {
+  for (const modelConfig of getCouncilModels()) {
+    if (!resolveApiKey(modelConfig) && requiresApiKey(modelConfig.provider)) {
       // Skip this provider
       results.push({
         name: modelConfig.name,
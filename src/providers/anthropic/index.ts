@@ -1,7 +1,17 @@
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateText, streamText } from 'ai';
-import { buildUserContent } from '../message.js';
-import { Provider, ProviderResponse, ProviderRequestOptions } from '../types.js';
+import { buildModelInput } from '../message.js';
+import { resolveRetryPolicy, RetryPolicy, withRetry } from '../retry.js';
+import { toCallSettings } from '../settings.js';
+import { readTextStream } from '../stream.js';
+import { toTokenUsage } from '../usage.js';
+import {
+  GenerationSettings,
+  Provider,
+  ProviderOptions,
+  ProviderResponse,
+  ProviderRequestOptions,
+} from '../types.js';
 
 /**
  * Anthropic provider - model-agnostic wrapper for any Anthropic model
@@ -9,26 +19,38 @@ import { Provider, ProviderResponse, ProviderRequestOptions } from '../types.js'
 export class AnthropicProvider implements Provider {
   public readonly name: string;
   public readonly modelId: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly settings?: GenerationSettings;
   private readonly client: ReturnType<typeof createAnthropic>;
 
-  constructor(apiKey: string, modelId: string, displayName?: string) {
+  constructor(apiKey: string, modelId: string, displayName?: string, options?: ProviderOptions) {
     this.client = createAnthropic({ apiKey });
     this.modelId = modelId;
     this.name = displayName || `Anthropic (${modelId})`;
+    this.retryPolicy = resolveRetryPolicy(options?.retry);
+    this.settings = options?.settings;
   }
 
   async query(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse> {
     const startTime = Date.now();
+    let attempts = 0;
 
     try {
-      const content = buildUserContent(prompt, options?.attachments);
-      const result = await generateText({
-        model: this.client(this.modelId),
-        ...(Array.isArray(content)
-          ? { messages: [{ role: 'user', content }] }
-          : { prompt: content }),
-        abortSignal: options?.signal,
-      });
+      const input = buildModelInput(prompt, options);
+      const { result, attempts: totalAttempts } = await withRetry(
+        (attempt) => {
+          attempts = attempt;
+          return generateText({
+            model: this.client(this.modelId),
+            ...input,
+            ...toCallSettings(this.settings),
+            abortSignal: options?.signal,
+            maxRetries: 0, // Retries are handled by withRetry
+          });
+        },
+        this.retryPolicy,
+        options?.signal
+      );
 
       const latencyMs = Date.now() - startTime;
 
@@ -38,9 +60,12 @@ export class AnthropicProvider implements Provider {
         modelId: this.modelId,
         latencyMs,
         tokensUsed: result.usage?.totalTokens,
+        usage: toTokenUsage(result.usage),
+        attempts: totalAttempts,
       };
     } catch (error) {
       const latencyMs = Date.now() - startTime;
+      const attemptInfo = attempts > 1 ? `, ${attempts} attempts` : '';
       // Get detailed error message
       let errorMsg = 'Unknown error';
       if (error instanceof Error) {
@@ -55,28 +80,30 @@ export class AnthropicProvider implements Provider {
       } else {
         errorMsg = String(error);
       }
-      throw new Error(`Anthropic query failed (${latencyMs}ms): ${errorMsg}`);
+      throw new Error(`Anthropic query failed (${latencyMs}ms${attemptInfo}): ${errorMsg}`, {
+        cause: error,
+      });
     }
   }
 
   async *queryStream(prompt: string, options?: ProviderRequestOptions): AsyncIterable<string> {
     try {
-      const content = buildUserContent(prompt, options?.attachments);
+      const input = buildModelInput(prompt, options);
       const result = streamText({
         model: this.client(this.modelId),
-        ...(Array.isArray(content)
-          ? { messages: [{ role: 'user', content }] }
-          : { prompt: content }),
+        ...input,
+        ...toCallSettings(this.settings),
         abortSignal: options?.signal,
       });
 
       // Stream text chunks as they arrive
-      for await (const chunk of result.textStream) {
+      for await (const chunk of readTextStream(result.fullStream)) {
         yield chunk;
       }
     } catch (error) {
       throw new Error(
-        `Anthropic stream failed: ${error instanceof Error ? error.message : String(error)}`
+        `Anthropic stream failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
@@ -0,0 +1,110 @@
+import { loadConfig } from '../config.js';
+import { AnthropicProvider } from './anthropic/index.js';
+import { GeminiProvider } from './gemini/index.js';
+import { GroqProvider } from './groq/index.js';
+import { OllamaProvider } from './ollama/index.js';
+import { OpenAIProvider } from './openai/index.js';
+import { OpenAICompatibleProvider } from './openai-compatible/index.js';
+import type { ProviderRegistration } from './registry.js';
+import { XAIProvider } from './xai/index.js';
+
+/**
+ * Provider types that ship with the council
+ */
+export const BUILTIN_PROVIDERS: ProviderRegistration[] = [
+  {
+    type: 'anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    capabilities: {
+      imageInput: true,
+      pdfInput: true,
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+    },
+    modelCapabilities: {
+      'claude-sonnet-3-5-20241022': { maxOutputTokens: 8_192 },
+    },
+    aliases: ['claude'],
+    create: ({ apiKey, modelId, displayName, options }) =>
+      new AnthropicProvider(apiKey!, modelId, displayName, options),
+  },
+  {
+    type: 'openai',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    capabilities: {
+      imageInput: true,
+      pdfInput: true,
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+    },
+    modelCapabilities: {
+      'gpt-5.2': { contextWindow: 400_000, maxOutputTokens: 128_000 },
+      'gpt-4-turbo': { maxOutputTokens: 4_096 },
+    },
+    aliases: ['gpt'],
+    create: ({ apiKey, modelId, displayName, options }) =>
+      new OpenAIProvider(apiKey!, modelId, displayName, options),
+  },
+  {
+    // GeminiProvider sends the prompt only, so attachments are not forwarded
+    type: 'gemini',
+    apiKeyEnv: 'GEMINI_API_KEY',
+    capabilities: { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+    aliases: ['gemini'],
+    create: ({ apiKey, modelId, displayName, options }) =>
+      new GeminiProvider(apiKey!, modelId, displayName, options),
+  },
+  {
+    type: 'xai',
+    apiKeyEnv: 'XAI_API_KEY',
+    capabilities: { imageInput: true, contextWindow: 131_072 },
+    modelCapabilities: {
+      'grok-3-beta': { imageInput: false }, // Text-only; the vision models are separate
+    },
+    aliases: ['grok'],
+    create: ({ apiKey, modelId, displayName, options }) =>
+      new XAIProvider(apiKey!, modelId, displayName, options),
+  },
+  {
+    type: 'groq',
+    apiKeyEnv: 'GROQ_API_KEY',
+    capabilities: { contextWindow: 131_072, maxOutputTokens: 8_192 },
+    modelCapabilities: {
+      'meta-llama/llama-4-maverick-17b-128e-instruct': { imageInput: true },
+      'meta-llama/llama-4-scout-17b-16e-instruct': { imageInput: true },
+      'llama-3.3-70b-versatile': { maxOutputTokens: 32_768 },
+    },
+    aliases: ['llama'],
+    create: ({ apiKey, modelId, displayName, options }) =>
+      new GroqProvider(apiKey!, modelId, displayName, options),
+  },
+  {
+    type: 'openai-compatible',
+    requiresApiKey: false,
+    capabilities: { imageInput: true },
+    create: ({ apiKey, modelId, displayName, modelConfig, options }) => {
+      if (!modelConfig.baseURL) {
+        throw new Error(`${displayName}: provider type openai-compatible requires a baseURL`);
+      }
+      return new OpenAICompatibleProvider(
+        { baseURL: modelConfig.baseURL, apiKey, headers: modelConfig.headers },
+        modelId,
+        displayName,
+        options
+      );
+    },
+  },
+  {
+    type: 'ollama',
+    requiresApiKey: false,
+    capabilities: { imageInput: true, urlInput: false }, // Inline base64 images only
+    aliases: ['ollama'],
+    create: ({ modelId, displayName, modelConfig, options }) =>
+      new OllamaProvider(
+        modelConfig.baseURL ?? loadConfig().ollamaHost,
+        modelId,
+        displayName,
+        options
+      ),
+  },
+];
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest';
+import { APICallError } from 'ai';
+import { classifyProviderError } from './errors.js';
+
+function apiError(statusCode: number | undefined, message = 'error', responseBody?: string) {
+  return new APICallError({
+    message,
+    url: 'https://api.example.com/v1/chat',
+    requestBodyValues: {},
+    statusCode,
+    responseBody,
+  });
+}
+
+function wrapped(cause: unknown): Error {
+  return new Error('OpenAI query failed (12ms): error', { cause });
+}
+
+describe('classifyProviderError', () => {
+  test('maps HTTP status codes to error types', () => {
+    expect(classifyProviderError(apiError(401))).toBe('auth');
+    expect(classifyProviderError(apiError(403))).toBe('auth');
+    expect(classifyProviderError(apiError(429))).toBe('rate_limited');
+    expect(classifyProviderError(apiError(404))).toBe('model_not_found');
+    expect(classifyProviderError(apiError(undefined, 'Cannot connect to API'))).toBe('network');
+  });
+
+  test('distinguishes quota exhaustion from rate limiting', () => {
+    const error = apiError(429, 'Too many requests', '{"error":{"code":"insufficient_quota"}}');
+    expect(classifyProviderError(error)).toBe('quota_exceeded');
+  });
+
+  test('detects context length and content filter failures', () => {
+    expect(
+      classifyProviderError(apiError(400, "This model's maximum context length is 128000 tokens"))
+    ).toBe('context_length_exceeded');
+    expect(
+      classifyProviderError(apiError(400, 'Request rejected by the content filter policy'))
+    ).toBe('content_filtered');
+    expect(
+      classifyProviderError(
+        apiError(400, 'input length and `max_tokens` exceed context limit: 198000 + 8192 > 200000')
+      )
+    ).toBe('context_length_exceeded');
+    expect(classifyProviderError(apiError(400, 'Response was blocked due to SAFETY'))).toBe(
+      'content_filtered'
+    );
+  });
+
+  test('does not read ordinary validation errors as context or content failures', () => {
+    expect(classifyProviderError(apiError(400, 'max_tokens must be ≤ 8192'))).toBe('unknown');
+    expect(classifyProviderError(apiError(400, 'request blocked by proxy'))).toBe('unknown');
+    expect(classifyProviderError(apiError(400, 'Invalid value for safety_identifier'))).toBe(
+      'unknown'
+    );
+    expect(classifyProviderError(new Error('Upstream blocked the request'))).toBe('unknown');
+  });
+
+  test('looks through provider wrapper errors to the cause', () => {
+    expect(classifyProviderError(wrapped(apiError(401)))).toBe('auth');
+    expect(classifyProviderError(wrapped(wrapped(apiError(429))))).toBe('rate_limited');
+  });
+
+  test('classifies aborts, network failures and unknown errors', () => {
+    const abort = new Error('This operation was aborted');
+    abort.name = 'AbortError';
+    expect(classifyProviderError(wrapped(abort))).toBe('aborted');
+
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    expect(classifyProviderError(wrapped(refused))).toBe('network');
+
+    expect(classifyProviderError(new Error('Something odd happened'))).toBe('unknown');
+  });
+});
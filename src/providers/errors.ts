@@ -0,0 +1,119 @@
+import { APICallError } from 'ai';
+
+/**
+ * Fixed set of provider failure types exposed to clients as `error_code`
+ */
+export type ProviderErrorCode =
+  | 'auth'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'context_length_exceeded'
+  | 'content_filtered'
+  | 'model_not_found'
+  | 'network'
+  | 'aborted'
+  | 'timeout'
+  | 'unknown';
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+const QUOTA_PATTERN = /quota|insufficient_quota|billing|credit balance|exceeded your current/i;
+// Phrases vendors use for these failures only; bare words such as "max_tokens" or "blocked"
+// also appear in ordinary validation errors
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length[_ ]exceeded|maximum context length|exceeds? (the )?(model's )?(maximum )?context (window|length|limit)|prompt is too long|input is too long|too many (input )?tokens|input token count .* exceeds|reduce the length of the (messages|prompt)/i;
+const CONTENT_FILTER_PATTERN =
+  /content[_ ]filter|content (management )?policy|usage polic(y|ies)|safety (system|settings|filters?)|blocked (due to|because of|for) (safety|content)|block_?reason|flagged (by|for) moderation/i;
+const MODEL_NOT_FOUND_PATTERN = /model.*(not found|does not exist|not_found)|unknown model/i;
+
+/**
+ * Walks the `cause` chain (provider wrappers and fallback errors nest the original)
+ */
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+  while (current !== undefined && current !== null && chain.length < 10) {
+    chain.push(current);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return chain;
+}
+
+function classifyApiCallError(error: APICallError): ProviderErrorCode {
+  const text = `${error.message} ${error.responseBody ?? ''}`;
+  const status = error.statusCode;
+
+  if (status === undefined) {
+    return 'network';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 402) {
+    return 'quota_exceeded';
+  }
+  if (status === 429) {
+    return QUOTA_PATTERN.test(text) ? 'quota_exceeded' : 'rate_limited';
+  }
+  if (status === 404) {
+    return 'model_not_found';
+  }
+  if (status === 408 || status === 504) {
+    return 'timeout';
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    if (CONTEXT_LENGTH_PATTERN.test(text)) return 'context_length_exceeded';
+    if (CONTENT_FILTER_PATTERN.test(text)) return 'content_filtered';
+    if (MODEL_NOT_FOUND_PATTERN.test(text)) return 'model_not_found';
+  }
+  return 'unknown';
+}
+
+/**
+ * Classifies a provider failure into a ProviderErrorCode
+ * Uses HTTP status codes where available and falls back to message patterns
+ */
+export function classifyProviderError(error: unknown): ProviderErrorCode {
+  const chain = errorChain(error);
+
+  for (const item of chain) {
+    if (APICallError.isInstance(item)) {
+      return classifyApiCallError(item);
+    }
+  }
+
+  for (const item of chain) {
+    if (!(item instanceof Error)) continue;
+
+    if (item.name === 'AbortError') return 'aborted';
+    if (item.name === 'TimeoutError') return 'timeout';
+    if (item.name === 'AI_LoadAPIKeyError') return 'auth';
+    if (item.name === 'AI_NoSuchModelError') return 'model_not_found';
+
+    const code = (item as Error & { code?: unknown }).code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return 'network';
+    }
+    if (item instanceof TypeError && /fetch failed/i.test(item.message)) {
+      return 'network';
+    }
+  }
+
+  const message = chain
+    .map((item) => (item instanceof Error ? item.message : String(item)))
+    .join(' ');
+  if (/aborted/i.test(message)) return 'aborted';
+  if (CONTEXT_LENGTH_PATTERN.test(message)) return 'context_length_exceeded';
+  if (CONTENT_FILTER_PATTERN.test(message)) return 'content_filtered';
+
+  return 'unknown';
+}
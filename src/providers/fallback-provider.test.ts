@@ -0,0 +1,308 @@
+import { describe, expect, test } from 'vitest';
+import { FallbackExhaustedError, FallbackProvider } from './fallback-provider.js';
+import type {
+  Provider,
+  ProviderRequestOptions,
+  ProviderResponse,
+  StreamMetadata,
+} from './types.js';
+
+function createMockProvider(
+  modelId: string,
+  delay: number,
+  options?: { fail?: boolean; onAbort?: () => void }
+): Provider {
+  return {
+    name: 'Mock',
+    modelId,
+    query: (prompt: string, requestOptions?: ProviderRequestOptions) =>
+      new Promise<ProviderResponse>((resolve, reject) => {
+        const timeoutId = setTimeout(() => {
+          if (options?.fail) {
+            reject(new Error(`${modelId} failed`));
+            return;
+          }
+          resolve({
+            content: `${modelId}: ${prompt}`,
+            provider: 'Mock',
+            modelId,
+            latencyMs: delay,
+          });
+        }, delay);
+        requestOptions?.signal?.addEventListener('abort', () => {
+          clearTimeout(timeoutId);
+          options?.onAbort?.();
+          reject(new Error('Operation was aborted'));
+        });
+      }),
+    async *queryStream() {
+      await Promise.resolve();
+      yield modelId;
+    },
+  };
+}
+
+describe('FallbackProvider', () => {
+  test('falls back to the next model when the primary fails', async () => {
+    const provider = new FallbackProvider(
+      'GPT',
+      [createMockProvider('primary', 10, { fail: true }), createMockProvider('fallback', 10)],
+      60000
+    );
+
+    const response = await provider.query('hi');
+
+    expect(response.modelId).toBe('fallback');
+    expect(provider.modelId).toBe('fallback');
+  });
+
+  describe('fallback trail', () => {
+    test('records each model tried with its outcome and error class', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('gpt-5.2', 10, { fail: true }), createMockProvider('gpt-4o', 10)],
+        60000
+      );
+
+      const response = await provider.query('hi');
+
+      expect(response.fallbackTrail).toHaveLength(2);
+      expect(response.fallbackTrail?.[0]).toMatchObject({
+        modelId: 'gpt-5.2',
+        outcome: 'failed',
+        errorClass: 'Error',
+      });
+      expect(response.fallbackTrail?.[1]).toMatchObject({ modelId: 'gpt-4o', outcome: 'success' });
+      expect(response.fallbackTrail?.[1].latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    test('reports models skipped because they are cooling down', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('gpt-5.2', 10, { fail: true }), createMockProvider('gpt-4o', 10)],
+        60000
+      );
+
+      await provider.query('first');
+      const response = await provider.query('second');
+
+      expect(response.fallbackTrail?.map((attempt) => attempt.outcome)).toEqual([
+        'success',
+        'cooldown',
+      ]);
+    });
+
+    test('attaches the trail to the error when every model fails', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('a', 10, { fail: true }), createMockProvider('b', 10, { fail: true })],
+        60000
+      );
+
+      const error: unknown = await provider.query('hi').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FallbackExhaustedError);
+      expect((error as FallbackExhaustedError).message).toBe('b failed');
+      expect((error as FallbackExhaustedError).trail.map((attempt) => attempt.modelId)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    test('reports cooldown state per model', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('gpt-5.2', 10, { fail: true }), createMockProvider('gpt-4o', 10)],
+        60000
+      );
+
+      await provider.query('hi');
+      const status = provider.getModelStatus();
+
+      expect(status[0].modelId).toBe('gpt-5.2');
+      expect(status[0].coolingDown).toBe(true);
+      expect(status[0].cooldownRemainingMs).toBeGreaterThan(0);
+      expect(status[1]).toEqual({ modelId: 'gpt-4o', coolingDown: false, cooldownRemainingMs: 0 });
+    });
+  });
+
+  describe('hedged requests', () => {
+    test('starts the next candidate when the primary exceeds the hedge threshold', async () => {
+      let primaryAborted = false;
+      const provider = new FallbackProvider(
+        'GPT',
+        [
+          createMockProvider('slow-primary', 2000, { onAbort: () => (primaryAborted = true) }),
+          createMockProvider('fast-fallback', 20),
+        ],
+        60000,
+        { hedgeAfterMs: 50 }
+      );
+
+      const startTime = Date.now();
+      const response = await provider.query('hi');
+
+      expect(Date.now() - startTime).toBeLessThan(1000);
+      expect(response.modelId).toBe('fast-fallback');
+      expect(response.hedge).toEqual({
+        candidates: ['slow-primary', 'fast-fallback'],
+        winner: 'fast-fallback',
+      });
+      expect(primaryAborted).toBe(true);
+      expect(response.fallbackTrail?.map((attempt) => attempt.outcome)).toEqual([
+        'success',
+        'cancelled',
+      ]);
+    });
+
+    test('does not hedge when the primary answers within the threshold', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('primary', 10), createMockProvider('fallback', 10)],
+        60000,
+        { hedgeAfterMs: 500 }
+      );
+
+      const response = await provider.query('hi');
+
+      expect(response.modelId).toBe('primary');
+      expect(response.hedge).toBeUndefined();
+    });
+
+    test('keeps the primary if it wins the race after hedging', async () => {
+      let fallbackAborted = false;
+      const provider = new FallbackProvider(
+        'GPT',
+        [
+          createMockProvider('primary', 80),
+          createMockProvider('fallback', 2000, { onAbort: () => (fallbackAborted = true) }),
+        ],
+        60000,
+        { hedgeAfterMs: 20 }
+      );
+
+      const response = await provider.query('hi');
+
+      expect(response.hedge?.winner).toBe('primary');
+      expect(fallbackAborted).toBe(true);
+    });
+
+    test('starts the next candidate immediately when one fails outright', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('broken', 10, { fail: true }), createMockProvider('fallback', 10)],
+        60000,
+        { hedgeAfterMs: 5000 }
+      );
+
+      const startTime = Date.now();
+      const response = await provider.query('hi');
+
+      expect(Date.now() - startTime).toBeLessThan(1000);
+      expect(response.modelId).toBe('fallback');
+    });
+
+    test('rejects with the last error when every candidate fails', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [createMockProvider('a', 10, { fail: true }), createMockProvider('b', 10, { fail: true })],
+        60000,
+        { hedgeAfterMs: 5 }
+      );
+
+      await expect(provider.query('hi')).rejects.toThrow(/failed/);
+    });
+  });
+
+  describe('stream continuation', () => {
+    function createStreamingProvider(
+      modelId: string,
+      chunks: string[],
+      failAfter?: number
+    ): Provider & { prompts: string[] } {
+      const prompts: string[] = [];
+      return {
+        name: 'Mock',
+        modelId,
+        prompts,
+        query: () => Promise.reject(new Error('not used')),
+        async *queryStream(prompt: string) {
+          prompts.push(prompt);
+          for (let i = 0; i < chunks.length; i++) {
+            if (failAfter === i) {
+              throw new Error(`${modelId} stream died`);
+            }
+            await Promise.resolve();
+            yield chunks[i];
+          }
+        },
+      };
+    }
+
+    async function collect(provider: Provider, options?: ProviderRequestOptions): Promise<string> {
+      let text = '';
+      for await (const chunk of provider.queryStream('Explain closures', options)) {
+        text += chunk;
+      }
+      return text;
+    }
+
+    test('surfaces mid-stream errors when continuation is disabled', async () => {
+      const provider = new FallbackProvider(
+        'GPT',
+        [
+          createStreamingProvider('primary', ['A closure ', 'captures'], 1),
+          createStreamingProvider('fallback', ['unused']),
+        ],
+        60000
+      );
+
+      await expect(collect(provider)).rejects.toThrow('primary stream died');
+    });
+
+    test('continues a failed stream on the next candidate with the partial text', async () => {
+      const fallback = createStreamingProvider('fallback', ['captures its scope.']);
+      const provider = new FallbackProvider(
+        'GPT',
+        [createStreamingProvider('primary', ['A closure ', 'never'], 1), fallback],
+        60000,
+        { continueStreams: true }
+      );
+      const metadata: StreamMetadata[] = [];
+
+      const text = await collect(provider, { onStreamMetadata: (m) => metadata.push(m) });
+
+      expect(text).toBe('A closure captures its scope.');
+      expect(fallback.prompts[0]).toContain('Explain closures');
+      expect(fallback.prompts[0]).toContain('A closure ');
+      expect(fallback.prompts[0]).toContain('Continue the answer exactly where it stopped');
+      expect(metadata).toEqual([
+        {
+          type: 'model_switch',
+          fromModelId: 'primary',
+          toModelId: 'fallback',
+          error: 'primary stream died',
+          continuedAfterChars: 'A closure '.length,
+        },
+      ]);
+      expect(provider.modelId).toBe('fallback');
+    });
+
+    test('uses the original prompt when the primary fails before yielding', async () => {
+      const fallback = createStreamingProvider('fallback', ['Hello']);
+      const provider = new FallbackProvider(
+        'GPT',
+        [createStreamingProvider('primary', ['x'], 0), fallback],
+        60000,
+        { continueStreams: true }
+      );
+      const metadata: StreamMetadata[] = [];
+
+      const text = await collect(provider, { onStreamMetadata: (m) => metadata.push(m) });
+
+      expect(text).toBe('Hello');
+      expect(fallback.prompts[0]).toBe('Explain closures');
+      expect(metadata).toHaveLength(0);
+    });
+  });
+});
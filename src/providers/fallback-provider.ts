@@ -1,19 +1,112 @@
-import type { Provider, ProviderRequestOptions, ProviderResponse } from './types.js';
+import { classifyProviderError } from './errors.js';
+import type { ProviderCapabilities } from './registry.js';
+import type {
+  FallbackAttempt,
+  ModelCooldownStatus,
+  Provider,
+  ProviderRequestOptions,
+  ProviderResponse,
+} from './types.js';
+
+export interface FallbackProviderOptions {
+  /**
+   * If the current candidate hasn't answered within this many ms, start the next
+   * candidate in parallel and take whichever finishes first
+   */
+  hedgeAfterMs?: number;
+
+  /**
+   * If a stream fails after yielding text, ask the next candidate to continue from the
+   * partial output instead of surfacing the error to the consumer
+   */
+  continueStreams?: boolean;
+
+  /**
+   * Unique ID of the council member this chain serves
+   */
+  memberId?: string;
+
+  /**
+   * What the member accepts (those of the primary model)
+   */
+  capabilities?: ProviderCapabilities;
+}
+
+/**
+ * Builds the prompt sent to the next candidate when a stream dies partway through
+ */
+export function buildContinuationPrompt(prompt: string, partial: string): string {
+  return [
+    prompt,
+    '',
+    '---',
+    'A previous answer to this request was interrupted. The text produced so far was:',
+    '',
+    partial,
+    '',
+    '---',
+    'Continue the answer exactly where it stopped. Do not repeat any of the text above and do not mention the interruption.',
+  ].join('\n');
+}
+
+/**
+ * Thrown when every candidate model failed
+ * Keeps the last underlying error message and carries the full fallback trail
+ */
+export class FallbackExhaustedError extends Error {
+  public readonly trail: FallbackAttempt[];
+
+  constructor(lastError: unknown, trail: FallbackAttempt[]) {
+    super(lastError instanceof Error ? lastError.message : 'All fallback providers failed', {
+      cause: lastError,
+    });
+    this.name = 'FallbackExhaustedError';
+    this.trail = trail;
+  }
+}
+
+/**
+ * Returns the class name of the underlying error (e.g., "AI_APICallError")
+ * Provider wrappers re-throw plain Errors, so the original is read from `cause`
+ */
+function getErrorClass(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return typeof error;
+  }
+  const cause: unknown = error.cause;
+  if (cause instanceof Error) {
+    return cause.name;
+  }
+  return error.name;
+}
 
 export class FallbackProvider implements Provider {
   public readonly name: string;
+  public readonly memberId?: string;
+  public readonly capabilities?: ProviderCapabilities;
   private readonly providers: Provider[];
   private readonly failureTimestamps: Array<number | undefined>;
   private readonly cooldownMs: number;
+  private readonly hedgeAfterMs?: number;
+  private readonly continueStreams: boolean;
   private lastSuccessIndex: number;
 
-  constructor(name: string, providers: Provider[], cooldownMs: number) {
+  constructor(
+    name: string,
+    providers: Provider[],
+    cooldownMs: number,
+    options?: FallbackProviderOptions
+  ) {
     if (providers.length === 0) {
       throw new Error('FallbackProvider requires at least one provider');
     }
     this.name = name;
+    this.memberId = options?.memberId;
+    this.capabilities = options?.capabilities;
     this.providers = providers;
     this.cooldownMs = cooldownMs;
+    this.hedgeAfterMs = options?.hedgeAfterMs;
+    this.continueStreams = options?.continueStreams ?? false;
     this.failureTimestamps = new Array<number | undefined>(providers.length).fill(undefined);
     this.lastSuccessIndex = 0;
   }
@@ -22,6 +115,35 @@ export class FallbackProvider implements Provider {
     return this.providers[this.lastSuccessIndex]?.modelId ?? this.providers[0].modelId;
   }
 
+  /**
+   * Reports the cooldown state of every model in the fallback chain
+   */
+  getModelStatus(): ModelCooldownStatus[] {
+    const now = Date.now();
+    return this.providers.map((provider, index) => {
+      const lastFailure = this.failureTimestamps[index];
+      const remaining = lastFailure ? Math.max(0, lastFailure + this.cooldownMs - now) : 0;
+      return {
+        modelId: provider.modelId,
+        coolingDown: !this.isHealthy(index),
+        cooldownRemainingMs: remaining,
+      };
+    });
+  }
+
+  /**
+   * Lists the models available at the member's endpoint (e.g., models pulled on an Ollama host)
+   * Every model in a chain shares the same endpoint, so the first provider with discovery is asked
+   */
+  async discoverModels(signal?: AbortSignal): Promise<string[] | undefined> {
+    for (const provider of this.providers) {
+      if (provider.discoverModels) {
+        return provider.discoverModels(signal);
+      }
+    }
+    return undefined;
+  }
+
   private isHealthy(index: number): boolean {
     const lastFailure = this.failureTimestamps[index];
     if (!lastFailure) {
@@ -34,59 +156,244 @@ export class FallbackProvider implements Provider {
     this.failureTimestamps[index] = Date.now();
   }
 
-  private getCandidateIndexes(): number[] {
+  /**
+   * Orders candidates starting from the last successful model
+   * Models in cooldown are left out unless every model is cooling down
+   */
+  private getCandidateIndexes(): { candidates: number[]; coolingDown: number[] } {
     const indexes = Array.from({ length: this.providers.length }, (_, i) => i);
     const rotated = indexes
       .slice(this.lastSuccessIndex)
       .concat(indexes.slice(0, this.lastSuccessIndex));
     const healthy = rotated.filter((index) => this.isHealthy(index));
     if (healthy.length > 0) {
-      return healthy;
+      return {
+        candidates: healthy,
+        coolingDown: rotated.filter((index) => !healthy.includes(index)),
+      };
     }
-    return rotated;
+    return { candidates: rotated, coolingDown: [] };
+  }
+
+  private cooldownAttempts(coolingDown: number[]): FallbackAttempt[] {
+    return coolingDown.map((index) => ({
+      modelId: this.providers[index].modelId,
+      outcome: 'cooldown',
+      latencyMs: 0,
+    }));
   }
 
   async query(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse> {
+    if (this.hedgeAfterMs !== undefined && this.providers.length > 1) {
+      return this.queryHedged(prompt, this.hedgeAfterMs, options);
+    }
+
+    const { candidates, coolingDown } = this.getCandidateIndexes();
+    const trail: FallbackAttempt[] = [];
     let lastError: unknown;
 
-    for (const index of this.getCandidateIndexes()) {
+    for (const index of candidates) {
+      const attemptStart = Date.now();
       try {
         const response = await this.providers[index].query(prompt, options);
         this.lastSuccessIndex = index;
-        return response;
+        trail.push({
+          modelId: this.providers[index].modelId,
+          outcome: 'success',
+          latencyMs: Date.now() - attemptStart,
+        });
+        return { ...response, fallbackTrail: [...trail, ...this.cooldownAttempts(coolingDown)] };
       } catch (error) {
         if (options?.signal?.aborted) {
           throw error;
         }
         this.markFailure(index);
+        trail.push({
+          modelId: this.providers[index].modelId,
+          outcome: 'failed',
+          errorClass: getErrorClass(error),
+          errorCode: classifyProviderError(error),
+          latencyMs: Date.now() - attemptStart,
+        });
         lastError = error;
       }
     }
 
-    if (lastError instanceof Error) {
-      throw lastError;
-    }
-    throw new Error('All fallback providers failed');
+    throw new FallbackExhaustedError(lastError, [...trail, ...this.cooldownAttempts(coolingDown)]);
+  }
+
+  /**
+   * Queries candidates with hedging: a new candidate starts whenever the running ones
+   * exceed the hedge threshold or one fails outright. The first success wins and the
+   * other in-flight candidates are aborted.
+   */
+  private queryHedged(
+    prompt: string,
+    hedgeAfterMs: number,
+    options?: ProviderRequestOptions
+  ): Promise<ProviderResponse> {
+    const { candidates, coolingDown } = this.getCandidateIndexes();
+    const outerSignal = options?.signal;
+
+    return new Promise<ProviderResponse>((resolve, reject) => {
+      const controllers = new Map<number, AbortController>();
+      const startTimes = new Map<number, number>();
+      const started: number[] = [];
+      const finished = new Set<number>();
+      const trail: FallbackAttempt[] = [];
+      let nextCandidate = 0;
+      let pending = 0;
+      let settled = false;
+      let lastError: unknown;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const onOuterAbort = () => {
+        for (const controller of controllers.values()) {
+          controller.abort(outerSignal?.reason);
+        }
+      };
+
+      const finish = () => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        outerSignal?.removeEventListener('abort', onOuterAbort);
+      };
+
+      const armHedgeTimer = () => {
+        clearTimeout(hedgeTimer);
+        if (nextCandidate < candidates.length) {
+          hedgeTimer = setTimeout(launch, hedgeAfterMs);
+        }
+      };
+
+      const launch = () => {
+        if (settled || nextCandidate >= candidates.length) {
+          return;
+        }
+        const index = candidates[nextCandidate++];
+        const controller = new AbortController();
+        controllers.set(index, controller);
+        startTimes.set(index, Date.now());
+        started.push(index);
+        pending++;
+
+        this.providers[index].query(prompt, { ...options, signal: controller.signal }).then(
+          (response) => {
+            pending--;
+            finished.add(index);
+            if (settled) return;
+            finish();
+            this.lastSuccessIndex = index;
+            const now = Date.now();
+            trail.push({
+              modelId: this.providers[index].modelId,
+              outcome: 'success',
+              latencyMs: now - (startTimes.get(index) ?? now),
+            });
+            for (const [otherIndex, other] of controllers) {
+              if (finished.has(otherIndex)) continue;
+              other.abort(new Error('Hedged request lost the race'));
+              trail.push({
+                modelId: this.providers[otherIndex].modelId,
+                outcome: 'cancelled',
+                latencyMs: now - (startTimes.get(otherIndex) ?? now),
+              });
+            }
+            resolve({
+              ...response,
+              fallbackTrail: [...trail, ...this.cooldownAttempts(coolingDown)],
+              ...(started.length > 1
+                ? {
+                    hedge: {
+                      candidates: started.map((i) => this.providers[i].modelId),
+                      winner: response.modelId,
+                    },
+                  }
+                : {}),
+            });
+          },
+          (error: unknown) => {
+            pending--;
+            finished.add(index);
+            if (settled) return;
+            if (outerSignal?.aborted) {
+              finish();
+              reject(error instanceof Error ? error : new Error(String(error)));
+              return;
+            }
+            this.markFailure(index);
+            const now = Date.now();
+            trail.push({
+              modelId: this.providers[index].modelId,
+              outcome: 'failed',
+              errorClass: getErrorClass(error),
+              errorCode: classifyProviderError(error),
+              latencyMs: now - (startTimes.get(index) ?? now),
+            });
+            lastError = error;
+            if (nextCandidate < candidates.length) {
+              launch();
+            } else if (pending === 0) {
+              finish();
+              reject(
+                new FallbackExhaustedError(lastError, [
+                  ...trail,
+                  ...this.cooldownAttempts(coolingDown),
+                ])
+              );
+            }
+          }
+        );
+
+        armHedgeTimer();
+      };
+
+      if (outerSignal?.aborted) {
+        reject(outerSignal.reason instanceof Error ? outerSignal.reason : new Error('Aborted'));
+        return;
+      }
+      outerSignal?.addEventListener('abort', onOuterAbort, { once: true });
+      launch();
+    });
   }
 
   async *queryStream(prompt: string, options?: ProviderRequestOptions): AsyncIterable<string> {
     let lastError: unknown;
+    let partial = '';
+    let interruptedModelId: string | undefined;
+
+    for (const index of this.getCandidateIndexes().candidates) {
+      const candidate = this.providers[index];
+      const candidatePrompt = partial ? buildContinuationPrompt(prompt, partial) : prompt;
+
+      if (interruptedModelId) {
+        options?.onStreamMetadata?.({
+          type: 'model_switch',
+          fromModelId: interruptedModelId,
+          toModelId: candidate.modelId,
+          error: lastError instanceof Error ? lastError.message : String(lastError),
+          continuedAfterChars: partial.length,
+        });
+      }
 
-    for (const index of this.getCandidateIndexes()) {
       let yielded = false;
       try {
-        for await (const chunk of this.providers[index].queryStream(prompt, options)) {
+        for await (const chunk of candidate.queryStream(candidatePrompt, options)) {
           yielded = true;
+          partial += chunk;
           yield chunk;
         }
         this.lastSuccessIndex = index;
         return;
       } catch (error) {
-        if (options?.signal?.aborted || yielded) {
+        if (options?.signal?.aborted || (yielded && !this.continueStreams)) {
           throw error;
         }
         this.markFailure(index);
         lastError = error;
+        if (partial) {
+          interruptedModelId = candidate.modelId;
+        }
       }
     }
 
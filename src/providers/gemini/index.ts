@@ -1,6 +1,17 @@
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { generateText, streamText } from 'ai';
-import { Provider, ProviderRequestOptions, ProviderResponse } from '../types.js';
+import { buildModelInput } from '../message.js';
+import { resolveRetryPolicy, RetryPolicy, withRetry } from '../retry.js';
+import { toCallSettings } from '../settings.js';
+import { readTextStream } from '../stream.js';
+import { toTokenUsage } from '../usage.js';
+import {
+  GenerationSettings,
+  Provider,
+  ProviderOptions,
+  ProviderRequestOptions,
+  ProviderResponse,
+} from '../types.js';
 
 /**
  * Gemini provider - model-agnostic wrapper for any Gemini model
@@ -8,23 +19,37 @@ import { Provider, ProviderRequestOptions, ProviderResponse } from '../types.js'
 export class GeminiProvider implements Provider {
   public readonly name: string;
   public readonly modelId: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly settings?: GenerationSettings;
   private readonly client: ReturnType<typeof createGoogleGenerativeAI>;
 
-  constructor(apiKey: string, modelId: string, displayName?: string) {
+  constructor(apiKey: string, modelId: string, displayName?: string, options?: ProviderOptions) {
     this.client = createGoogleGenerativeAI({ apiKey });
     this.modelId = modelId;
     this.name = displayName || `Gemini (${modelId})`;
+    this.retryPolicy = resolveRetryPolicy(options?.retry);
+    this.settings = options?.settings;
   }
 
   async query(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse> {
     const startTime = Date.now();
+    let attempts = 0;
 
     try {
-      const result = await generateText({
-        model: this.client(this.modelId),
-        prompt,
-        abortSignal: options?.signal,
-      });
+      const { result, attempts: totalAttempts } = await withRetry(
+        (attempt) => {
+          attempts = attempt;
+          return generateText({
+            model: this.client(this.modelId),
+            ...buildModelInput(prompt, { history: options?.history }),
+            ...toCallSettings(this.settings),
+            abortSignal: options?.signal,
+            maxRetries: 0, // Retries are handled by withRetry
+          });
+        },
+        this.retryPolicy,
+        options?.signal
+      );
 
       const latencyMs = Date.now() - startTime;
 
@@ -34,11 +59,15 @@ export class GeminiProvider implements Provider {
         modelId: this.modelId,
         latencyMs,
         tokensUsed: result.usage?.totalTokens,
+        usage: toTokenUsage(result.usage),
+        attempts: totalAttempts,
       };
     } catch (error) {
       const latencyMs = Date.now() - startTime;
+      const attemptInfo = attempts > 1 ? `, ${attempts} attempts` : '';
       throw new Error(
-        `Gemini query failed for ${this.name} (${latencyMs}ms): ${error instanceof Error ? error.message : String(error)}`
+        `Gemini query failed for ${this.name} (${latencyMs}ms${attemptInfo}): ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
@@ -47,17 +76,19 @@ export class GeminiProvider implements Provider {
     try {
       const result = streamText({
         model: this.client(this.modelId),
-        prompt,
+        ...buildModelInput(prompt, { history: options?.history }),
+        ...toCallSettings(this.settings),
         abortSignal: options?.signal,
       });
 
       // Stream text chunks as they arrive
-      for await (const chunk of result.textStream) {
+      for await (const chunk of readTextStream(result.fullStream)) {
         yield chunk;
       }
     } catch (error) {
       throw new Error(
-        `Gemini stream failed for ${this.name}: ${error instanceof Error ? error.message : String(error)}`
+        `Gemini stream failed for ${this.name}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
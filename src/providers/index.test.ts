@@ -1,5 +1,11 @@
-import { describe, expect, it } from 'vitest';
-import { createCouncilProviders } from './index.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ModelConfig } from '../../council.config.js';
+import {
+  createCouncilProviders,
+  createPresetProviders,
+  createProviderWithFallback,
+  resolveApiKey,
+} from './index.js';
 
 describe('Provider Factory', () => {
   it('should create council providers without errors', () => {
@@ -22,3 +28,144 @@ describe('Provider Factory', () => {
     });
   });
 });
+
+describe('keyless members', () => {
+  afterEach(() => {
+    delete process.env.TEST_COMPAT_API_KEY;
+  });
+
+  it('should create a member without an API key', () => {
+    const provider = createProviderWithFallback({
+      name: 'Local Qwen',
+      provider: 'openai-compatible',
+      baseURL: 'http://127.0.0.1:8000/v1',
+      models: ['qwen-7b'],
+    });
+
+    expect(provider).not.toBeNull();
+    expect(provider?.name).toBe('Local Qwen');
+    expect(provider?.modelId).toBe('qwen-7b');
+  });
+
+  it('should require a baseURL', () => {
+    expect(() =>
+      createProviderWithFallback({
+        name: 'Local Qwen',
+        provider: 'openai-compatible',
+        models: ['qwen-7b'],
+      })
+    ).toThrowError(/requires a baseURL/);
+  });
+
+  it('should resolve the API key from apiKeyEnv', () => {
+    const modelConfig = {
+      name: 'Local Qwen',
+      provider: 'openai-compatible',
+      apiKeyEnv: 'TEST_COMPAT_API_KEY',
+      models: ['qwen-7b'],
+    };
+
+    expect(resolveApiKey(modelConfig)).toBeUndefined();
+    process.env.TEST_COMPAT_API_KEY = 'secret';
+    expect(resolveApiKey(modelConfig)).toBe('secret');
+    expect(resolveApiKey({ ...modelConfig, apiKey: 'explicit' })).toBe('explicit');
+  });
+
+  it('should create ollama members without an API key', () => {
+    const provider = createProviderWithFallback({
+      name: 'Local Llama',
+      provider: 'ollama',
+      models: ['llama3.2', 'llama3.2:1b'],
+    });
+
+    expect(provider).not.toBeNull();
+    expect(provider?.modelId).toBe('llama3.2');
+    expect(typeof provider?.discoverModels).toBe('function');
+  });
+
+  it('should apply the member capabilities override over the provider type', () => {
+    const provider = createProviderWithFallback({
+      name: 'Local Llama',
+      provider: 'ollama',
+      models: ['llama3.2'],
+      capabilities: { imageInput: false, contextWindow: 8_192 },
+    });
+
+    expect(provider?.capabilities).toEqual({
+      imageInput: false,
+      pdfInput: false,
+      fileInput: false,
+      urlInput: false,
+      contextWindow: 8_192,
+    });
+  });
+
+  it('should still skip vendor members without an API key', () => {
+    expect(
+      createProviderWithFallback({ name: 'GPT', provider: 'openai', models: ['gpt-4o'] })
+    ).toBeNull();
+  });
+});
+
+describe('presets', () => {
+  const members: ModelConfig[] = [
+    { name: 'Local Llama', provider: 'ollama', models: ['llama3.2', 'llama3.2:1b'] },
+    { name: 'Local Qwen', provider: 'ollama', models: ['qwen2.5'] },
+    { name: 'GPT', provider: 'openai', models: ['gpt-4o'] },
+  ];
+
+  it('should build preset members with their model overrides', () => {
+    const providers = createPresetProviders(
+      {
+        name: 'fast',
+        members: ['local qwen', { name: 'Local Llama', models: ['llama3.2:1b'] }],
+        settings: { temperature: 0.2 },
+      },
+      members
+    );
+
+    expect(providers.map((provider) => provider.name)).toEqual(['Local Qwen', 'Local Llama']);
+    expect(providers[1].getModelStatus?.().map((status) => status.modelId)).toEqual([
+      'llama3.2:1b',
+    ]);
+  });
+
+  it('should skip preset members without an API key', () => {
+    const providers = createPresetProviders(
+      { name: 'mixed', members: ['GPT', 'Local Llama'] },
+      members
+    );
+
+    expect(providers.map((provider) => provider.name)).toEqual(['Local Llama']);
+  });
+
+  it('should seat every persona of a preset member', () => {
+    const providers = createPresetProviders(
+      {
+        name: 'review',
+        members: [{ name: 'Local Qwen', models: ['qwen2.5:14b'] }],
+      },
+      [
+        {
+          ...members[1],
+          personas: [
+            { name: 'Security reviewer', systemPrompt: 'Look for vulnerabilities.' },
+            { id: 'devil', name: "Devil's advocate", temperature: 1 },
+          ],
+        },
+      ]
+    );
+
+    expect(providers.map((provider) => [provider.memberId, provider.name])).toEqual([
+      ['local-qwen.security-reviewer', 'Local Qwen (Security reviewer)'],
+      ['local-qwen.devil', "Local Qwen (Devil's advocate)"],
+    ]);
+    expect(providers.map((provider) => provider.modelId)).toEqual(['qwen2.5:14b', 'qwen2.5:14b']);
+  });
+
+  it('should reject unknown members', () => {
+    expect(() =>
+      createPresetProviders({ name: 'deep', members: ['Claude'] }, members)
+    ).toThrowError(/Preset "deep" references unknown council member "Claude"/);
+  });
+});
@@ -1,58 +1,113 @@
-import { loadConfig } from '../config.js';
-import { COUNCIL_MODELS } from '../../council.config.js';
-import { AnthropicProvider } from './anthropic/index.js';
-import { GeminiProvider } from './gemini/index.js';
-import { GroqProvider } from './groq/index.js';
-import { OpenAIProvider } from './openai/index.js';
+import { getConfig } from '../config.js';
+import type { ModelConfig, PresetConfig } from '../../council.config.js';
+import {
+  expandPersonas,
+  findCouncilMember,
+  getCouncilModels,
+  getCouncilPresets,
+  getMemberId,
+} from '../council-config.js';
 import { FallbackProvider } from './fallback-provider.js';
-import { Provider } from './types.js';
-import { XAIProvider } from './xai/index.js';
+import {
+  getProviderCapabilities,
+  getProviderRegistration,
+  type ProviderCapabilities,
+  requiresApiKey,
+} from './registry.js';
+import { mergeGenerationSettings } from './settings.js';
+import { GenerationSettings, Provider, ProviderOptions } from './types.js';
 
 // Re-export types
-export type { Provider, ProviderResponse } from './types.js';
+export type {
+  FallbackAttempt,
+  GenerationSettings,
+  ModelCooldownStatus,
+  Provider,
+  ProviderResponse,
+  TokenUsage,
+} from './types.js';
+export {
+  getMissingApiKeys,
+  getProviderCapabilities,
+  getProviderRegistration,
+  loadProviderModules,
+  registerProvider,
+  requiresApiKey,
+  supportsAttachment,
+} from './registry.js';
+export type { ProviderCapabilities, ProviderRegistration } from './registry.js';
+export { mergeGenerationSettings } from './settings.js';
 
-const config = loadConfig();
+/**
+ * Resolves a member's API key: an explicit `apiKey` wins, then the member's `apiKeyEnv`,
+ * then the env var registered for its provider type
+ */
+export function resolveApiKey(modelConfig: ModelConfig): string | undefined {
+  if (modelConfig.apiKey) {
+    return modelConfig.apiKey;
+  }
+  const envName = modelConfig.apiKeyEnv ?? getProviderRegistration(modelConfig.provider)?.apiKeyEnv;
+  if (envName) {
+    const value = process.env[envName];
+    return value && value.trim() !== '' ? value : undefined;
+  }
+  return undefined;
+}
 
 /**
- * Creates a provider instance for a given model config
- * Returns the provider or null if API key is missing
+ * Creates a provider instance for a single model of a council member
+ * Looks the provider type up in the registry (built-ins plus loaded provider modules)
  */
-function createProvider(
-  providerType: string,
-  apiKey: string,
+export function createProvider(
+  modelConfig: ModelConfig,
+  apiKey: string | undefined,
   modelId: string,
-  displayName: string
+  options: ProviderOptions = {}
 ): Provider {
-  switch (providerType) {
-    case 'anthropic':
-      return new AnthropicProvider(apiKey, modelId, displayName);
-    case 'openai':
-      return new OpenAIProvider(apiKey, modelId, displayName);
-    case 'gemini':
-      return new GeminiProvider(apiKey, modelId, displayName);
-    case 'xai':
-      return new XAIProvider(apiKey, modelId, displayName);
-    case 'groq':
-      return new GroqProvider(apiKey, modelId, displayName);
-    default:
-      throw new Error(`Unknown provider type: ${providerType}`);
+  const registration = getProviderRegistration(modelConfig.provider);
+  if (!registration) {
+    throw new Error(`Unknown provider type: ${modelConfig.provider}`);
   }
+  return registration.create({
+    modelId,
+    displayName: modelConfig.name,
+    apiKey,
+    modelConfig,
+    options,
+  });
 }
 
 /**
  * Creates providers for all configured council models
  * Skips models with missing API keys
  * Uses fallback support - tries each model in order until one succeeds
+ * Members with personas get one provider per persona
  *
  * This ensures that if a primary model (like gpt-5.2) requires special access,
  * we automatically fall back to more widely available models (like gpt-4o).
+ *
+ * @param members - Members to build (default: the current council definition)
+ * @param fallbackCooldownMs - How long a failed model sits out (default: the current config)
  */
-export function createCouncilProviders(): Provider[] {
+export function createCouncilProviders(
+  members: ModelConfig[] = getCouncilModels(),
+  fallbackCooldownMs: number = getConfig().fallbackCooldownMs
+): Provider[] {
   const providers: Provider[] = [];
 
-  for (const config of COUNCIL_MODELS) {
-    // Skip if no API key
-    if (!config.apiKey) {
+  // Config files are validated up front; this catches duplicates in council.config.ts
+  const seenIds = new Set<string>();
+  for (const member of members.flatMap(expandPersonas)) {
+    const memberId = getMemberId(member);
+    if (seenIds.has(memberId)) {
+      throw new Error(`Duplicate council member ID "${memberId}" (give each member a unique id)`);
+    }
+    seenIds.add(memberId);
+  }
+
+  for (const config of members) {
+    // Skip if no API key (self-hosted endpoints may not need one)
+    if (!resolveApiKey(config) && requiresApiKey(config.provider)) {
       console.warn(`⚠️  Skipping ${config.name}: No API key configured`);
       continue;
     }
@@ -64,40 +119,136 @@ export function createCouncilProviders(): Provider[] {
     }
 
     // Try to create provider with fallback support
-    const provider = createProviderWithFallback(config);
+    for (const member of expandPersonas(config)) {
+      const provider = createProviderWithFallback(member, undefined, fallbackCooldownMs);
+
+      if (provider) {
+        providers.push(provider);
+      } else {
+        console.warn(`⚠️  All models failed for ${member.name}`);
+      }
+    }
+  }
+
+  return providers;
+}
+
+/**
+ * Creates the providers of one preset
+ * Each member (or each of its personas) gets its own fallback chain built from the preset's
+ * model overrides and settings; members without an API key are skipped (already reported for
+ * the full council)
+ *
+ * @param preset - Preset from the council config file or COUNCIL_PRESETS
+ * @param members - Council members the preset refers to by name
+ * @param fallbackCooldownMs - How long a failed model sits out (default: the current config)
+ */
+export function createPresetProviders(
+  preset: PresetConfig,
+  members: ModelConfig[] = getCouncilModels(),
+  fallbackCooldownMs: number = getConfig().fallbackCooldownMs
+): Provider[] {
+  const providers: Provider[] = [];
 
-    if (provider) {
-      providers.push(provider);
-    } else {
-      console.warn(`⚠️  All models failed for ${config.name}`);
+  for (const entry of preset.members) {
+    const override = typeof entry === 'string' ? { name: entry } : entry;
+    const member = findCouncilMember(members, override.name);
+    if (!member) {
+      throw new Error(
+        `Preset "${preset.name}" references unknown council member "${override.name}"`
+      );
+    }
+
+    const settings = mergeGenerationSettings(preset.settings, override.settings);
+    for (const seat of expandPersonas({ ...member, models: override.models ?? member.models })) {
+      const provider = createProviderWithFallback(seat, settings, fallbackCooldownMs);
+      if (provider) {
+        providers.push(provider);
+      }
     }
   }
 
   return providers;
 }
 
+/**
+ * A configured preset together with the providers built for it
+ */
+export interface PresetProviders {
+  preset: PresetConfig;
+  providers: Provider[];
+}
+
+/**
+ * Creates the providers of every configured preset, keyed by lowercase preset name
+ * Defaults to the presets and members of the current council definition
+ */
+export function createCouncilPresetProviders(
+  presets: PresetConfig[] = getCouncilPresets(),
+  members: ModelConfig[] = getCouncilModels(),
+  fallbackCooldownMs: number = getConfig().fallbackCooldownMs
+): Map<string, PresetProviders> {
+  const built = new Map<string, PresetProviders>();
+  for (const preset of presets) {
+    built.set(preset.name.toLowerCase(), {
+      preset,
+      providers: createPresetProviders(preset, members, fallbackCooldownMs),
+    });
+  }
+  return built;
+}
+
 /**
  * Creates a single provider with fallback support
  * Tries each model in the config's models array until one succeeds
  *
- * @param config - Model configuration from COUNCIL_MODELS
- * @param testPrompt - Optional test prompt to verify the provider works
+ * Single-model members are wrapped too, so every response carries a fallback trail
+ * and every member reports its cooldown state.
+ *
+ * @param config - Member configuration (from the council config file or COUNCIL_MODELS)
+ * @param presetSettings - Optional preset settings, applied over the member and per-model settings
+ * @param fallbackCooldownMs - How long a failed model sits out (default: the current config)
  * @returns Provider instance or null if all models fail
  */
 export function createProviderWithFallback(
-  modelConfig: (typeof COUNCIL_MODELS)[number]
+  modelConfig: ModelConfig,
+  presetSettings?: GenerationSettings,
+  fallbackCooldownMs: number = getConfig().fallbackCooldownMs
 ): Provider | null {
-  if (!modelConfig.apiKey) {
+  const apiKey = resolveApiKey(modelConfig);
+  if (!apiKey && requiresApiKey(modelConfig.provider)) {
     return null;
   }
 
-  const providers = modelConfig.models.map((modelId) =>
-    createProvider(modelConfig.provider, modelConfig.apiKey!, modelId, modelConfig.name)
-  );
+  const providers = modelConfig.models.map((modelId) => {
+    const settings = mergeGenerationSettings(
+      modelConfig.settings,
+      modelConfig.modelSettings?.[modelId],
+      presetSettings
+    );
+    return createProvider(modelConfig, apiKey, modelId, {
+      retry: modelConfig.retry,
+      ...(settings ? { settings } : {}),
+    });
+  });
 
-  if (providers.length === 1) {
-    return providers[0];
-  }
+  return new FallbackProvider(modelConfig.name, providers, fallbackCooldownMs, {
+    hedgeAfterMs: modelConfig.hedgeAfterMs,
+    continueStreams: modelConfig.streamContinuation,
+    memberId: getMemberId(modelConfig),
+    capabilities: getMemberCapabilities(modelConfig),
+  });
+}
 
-  return new FallbackProvider(modelConfig.name, providers, config.fallbackCooldownMs);
+/**
+ * Returns what a member accepts: its primary model's capabilities, with the member's
+ * `capabilities` override applied
+ * Attachments are routed once per member, so a fallback model that accepts less may still
+ * reject them.
+ */
+export function getMemberCapabilities(modelConfig: ModelConfig): ProviderCapabilities {
+  return {
+    ...getProviderCapabilities(modelConfig.provider, modelConfig.models[0]),
+    ...modelConfig.capabilities,
+  };
 }
@@ -1,4 +1,5 @@
-import type { ProviderAttachment } from './types.js';
+import type { ModelMessage } from 'ai';
+import type { ProviderAttachment, ProviderRequestOptions } from './types.js';
 
 type TextPart = { type: 'text'; text: string };
 type ImagePart = { type: 'image'; image: string | URL; mediaType?: string };
@@ -16,7 +17,7 @@ function toAttachmentData(attachment: ProviderAttachment): string | URL | undefi
   return undefined;
 }
 
-export function buildUserContent(prompt: string, attachments?: ProviderAttachment[]): UserContent {
+function buildUserContent(prompt: string, attachments?: ProviderAttachment[]): UserContent {
   if (!attachments || attachments.length === 0) {
     return prompt;
   }
@@ -53,3 +54,25 @@ export function buildUserContent(prompt: string, attachments?: ProviderAttachmen
 
   return parts;
 }
+
+/**
+ * Builds the prompt or message list for an AI SDK call
+ * A plain prompt is used when there are no attachments and no earlier turns to replay
+ */
+export function buildModelInput(
+  prompt: string,
+  options?: Pick<ProviderRequestOptions, 'attachments' | 'history'>
+): { prompt: string } | { messages: ModelMessage[] } {
+  const content = buildUserContent(prompt, options?.attachments);
+  const history = options?.history ?? [];
+  if (!Array.isArray(content) && history.length === 0) {
+    return { prompt: content };
+  }
+
+  return {
+    messages: [
+      ...history.map((turn): ModelMessage => ({ role: turn.role, content: turn.content })),
+      { role: 'user', content },
+    ],
+  };
+}
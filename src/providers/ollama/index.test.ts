@@ -0,0 +1,204 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { classifyProviderError } from '../errors.js';
+import { OllamaProvider } from './index.js';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  body?: {
+    model: string;
+    stream: boolean;
+    messages: Array<{ role: string; content: string; images?: string[] }>;
+    options?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Minimal stub of the Ollama REST API (/api/chat and /api/tags)
+ */
+function startStubServer(requests: RecordedRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const body = raw ? (JSON.parse(raw) as RecordedRequest['body']) : undefined;
+      requests.push({ method: req.method, url: req.url, body });
+
+      if (req.url?.startsWith('/hung/')) {
+        return; // Never answers, like an unreachable host
+      }
+
+      if (req.url === '/api/tags') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ models: [{ name: 'llama3.2:latest' }, { name: 'llava:7b' }] }));
+        return;
+      }
+
+      if (body?.model === 'missing') {
+        res.writeHead(404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: "model 'missing' not found, try pulling it first" }));
+        return;
+      }
+
+      if (body?.stream) {
+        res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+        res.write(JSON.stringify({ message: { role: 'assistant', content: 'Hello' } }) + '\n');
+        res.write(JSON.stringify({ message: { role: 'assistant', content: ' from' } }) + '\n');
+        res.end(
+          JSON.stringify({ message: { role: 'assistant', content: ' Ollama' }, done: true }) + '\n'
+        );
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          model: body?.model,
+          message: { role: 'assistant', content: 'OK' },
+          done: true,
+          prompt_eval_count: 12,
+          eval_count: 2,
+        })
+      );
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('OllamaProvider', () => {
+  const requests: RecordedRequest[] = [];
+  let server: Server;
+  let host: string;
+
+  beforeAll(async () => {
+    server = await startStubServer(requests);
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('should query the chat endpoint and return ProviderResponse', async () => {
+    const provider = new OllamaProvider(host, 'llama3.2', 'Local Llama');
+
+    const response = await provider.query('Say OK');
+
+    expect(response.content).toBe('OK');
+    expect(response.provider).toBe('Local Llama');
+    expect(response.modelId).toBe('llama3.2');
+    expect(response.tokensUsed).toBe(14);
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 2, totalTokens: 14 });
+    expect(requests[0].url).toBe('/api/chat');
+    expect(requests[0].body?.stream).toBe(false);
+    expect(requests[0].body?.messages).toEqual([{ role: 'user', content: 'Say OK' }]);
+    expect(requests[0].body?.options).toBeUndefined();
+  });
+
+  it('should map generation settings to a system message and Ollama model options', async () => {
+    const provider = new OllamaProvider(host, 'llama3.2', undefined, {
+      settings: {
+        systemPrompt: 'Answer in one word.',
+        temperature: 0.2,
+        topP: 0.9,
+        maxOutputTokens: 256,
+        seed: 7,
+        stopSequences: ['END'],
+        providerOptions: { ollama: { num_ctx: 8192 } },
+      },
+    });
+
+    await provider.query('Say OK');
+
+    expect(requests[0].body?.messages).toEqual([
+      { role: 'system', content: 'Answer in one word.' },
+      { role: 'user', content: 'Say OK' },
+    ]);
+    expect(requests[0].body?.options).toEqual({
+      temperature: 0.2,
+      top_p: 0.9,
+      num_predict: 256,
+      seed: 7,
+      stop: ['END'],
+      num_ctx: 8192,
+    });
+  });
+
+  it('should replay earlier turns before the prompt', async () => {
+    const provider = new OllamaProvider(host, 'llama3.2');
+    const history = [
+      { role: 'user' as const, content: 'Which database?' },
+      { role: 'assistant' as const, content: 'Postgres.' },
+    ];
+
+    await provider.query('Why?', { history });
+
+    expect(requests[0].body?.messages).toEqual([...history, { role: 'user', content: 'Why?' }]);
+  });
+
+  it('should stream newline-delimited chunks', async () => {
+    const provider = new OllamaProvider(host, 'llama3.2');
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.queryStream('Say hello')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hello', ' from', ' Ollama']);
+    expect(requests[0].body?.stream).toBe(true);
+  });
+
+  it('should send image attachments as base64 images', async () => {
+    const provider = new OllamaProvider(host, 'llava:7b');
+
+    await provider.query('Describe this', {
+      attachments: [
+        { mediaType: 'image/png', data: 'data:image/png;base64,iVBORw0KGgo=' },
+        { mediaType: 'image/jpeg', data: '/9j/4AAQ' },
+      ],
+    });
+
+    expect(requests[0].body?.messages[0].images).toEqual(['iVBORw0KGgo=', '/9j/4AAQ']);
+  });
+
+  it('should reject non-image attachments without calling the host', async () => {
+    const provider = new OllamaProvider(host, 'llama3.2');
+
+    await expect(
+      provider.query('Summarize', {
+        attachments: [{ mediaType: 'application/pdf', data: 'JVBERi0=' }],
+      })
+    ).rejects.toThrow(/image attachments only/);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should discover pulled models through the tags endpoint', async () => {
+    const provider = new OllamaProvider(`${host}/`, 'llama3.2');
+
+    await expect(provider.discoverModels()).resolves.toEqual(['llama3.2:latest', 'llava:7b']);
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/api/tags' });
+  });
+
+  it('should give up discovery when the caller aborts', async () => {
+    const provider = new OllamaProvider(`${host}/hung`, 'llama3.2');
+
+    await expect(provider.discoverModels(AbortSignal.timeout(50))).rejects.toThrow();
+  });
+
+  it('should classify missing models', async () => {
+    const provider = new OllamaProvider(host, 'missing');
+
+    const error = await provider.query('Say OK').catch((err: unknown) => err);
+
+    expect((error as Error).message).toContain("model 'missing' not found");
+    expect(classifyProviderError(error)).toBe('model_not_found');
+  });
+});
@@ -0,0 +1,289 @@
+import { APICallError } from 'ai';
+import { resolveRetryPolicy, RetryPolicy, withRetry } from '../retry.js';
+import {
+  GenerationSettings,
+  Provider,
+  ProviderAttachment,
+  ProviderOptions,
+  ProviderRequestOptions,
+  ProviderResponse,
+  TokenUsage,
+} from '../types.js';
+
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: string[]; // Base64 without the data URL prefix
+}
+
+interface OllamaChatChunk {
+  message?: { role: string; content: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaModelOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number; // Maximum number of tokens to generate
+  seed?: number;
+  stop?: string[];
+  [option: string]: unknown; // Raw options from providerOptions.ollama (e.g., num_ctx)
+}
+
+/**
+ * Longest a chat request may take, including a streamed response (local models can be slow)
+ */
+const CHAT_TIMEOUT_MS = 600_000;
+
+/**
+ * Longest model discovery may take, so an unreachable host cannot hold up list_models
+ */
+const DISCOVERY_TIMEOUT_MS = 5_000;
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; model?: string }>;
+}
+
+/**
+ * Converts attachments to Ollama's `images` field
+ * Ollama only accepts inline base64 images, so other attachments are rejected up front
+ */
+function toOllamaImages(attachments?: ProviderAttachment[]): string[] | undefined {
+  if (!attachments || attachments.length === 0) {
+    return undefined;
+  }
+
+  return attachments.map((attachment) => {
+    if (!attachment.mediaType.startsWith('image/')) {
+      throw new Error(`Ollama supports image attachments only (got ${attachment.mediaType})`);
+    }
+    if (!attachment.data) {
+      throw new Error('Ollama requires inline image data; URL attachments are not supported');
+    }
+    const commaIndex = attachment.data.indexOf(',');
+    return attachment.data.startsWith('data:') && commaIndex !== -1
+      ? attachment.data.slice(commaIndex + 1)
+      : attachment.data;
+  });
+}
+
+/**
+ * Maps generation settings to Ollama's model options
+ * `providerOptions.ollama` is passed through as-is and wins over the mapped fields
+ */
+function toOllamaOptions(settings?: GenerationSettings): OllamaModelOptions | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  const options: OllamaModelOptions = {
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+    ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+    ...(settings.maxOutputTokens !== undefined ? { num_predict: settings.maxOutputTokens } : {}),
+    ...(settings.seed !== undefined ? { seed: settings.seed } : {}),
+    ...(settings.stopSequences ? { stop: settings.stopSequences } : {}),
+    ...settings.providerOptions?.ollama,
+  };
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Ollama provider - talks to a local Ollama host through its native REST API
+ * No API key is involved; the host is expected to be reachable only locally
+ */
+export class OllamaProvider implements Provider {
+  public readonly name: string;
+  public readonly modelId: string;
+  private readonly host: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly settings?: GenerationSettings;
+
+  constructor(host: string, modelId: string, displayName?: string, options?: ProviderOptions) {
+    this.host = host.replace(/\/+$/, '');
+    this.modelId = modelId;
+    this.name = displayName || `Ollama (${modelId})`;
+    this.retryPolicy = resolveRetryPolicy(options?.retry);
+    this.settings = options?.settings;
+  }
+
+  /**
+   * Sends a request to the Ollama host, aborted after timeoutMs or by the caller's signal
+   * Non-2xx responses are raised as APICallError so retries and error codes work as for SDK providers
+   */
+  private async request(
+    path: string,
+    timeoutMs: number,
+    body?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = `${this.host}${path}`;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: body ? { 'content-type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      const responseBody = await response.text();
+      let message = `${response.status} ${response.statusText}`;
+      try {
+        const parsed = JSON.parse(responseBody) as { error?: string };
+        if (parsed.error) {
+          message = parsed.error;
+        }
+      } catch {
+        // Not JSON - keep the status line
+      }
+      throw new APICallError({
+        message,
+        url,
+        requestBodyValues: body ?? {},
+        statusCode: response.status,
+        responseHeaders: Object.fromEntries(response.headers.entries()),
+        responseBody,
+      });
+    }
+
+    return response;
+  }
+
+  private buildChatBody(
+    prompt: string,
+    options: ProviderRequestOptions | undefined,
+    stream: boolean
+  ) {
+    const images = toOllamaImages(options?.attachments);
+    const message: OllamaChatMessage = {
+      role: 'user',
+      content: prompt,
+      ...(images ? { images } : {}),
+    };
+    const history = (options?.history ?? []).map(
+      (turn): OllamaChatMessage => ({ role: turn.role, content: turn.content })
+    );
+    const modelOptions = toOllamaOptions(this.settings);
+    const systemPrompt = this.settings?.systemPrompt;
+    return {
+      model: this.modelId,
+      messages: systemPrompt
+        ? [
+            { role: 'system', content: systemPrompt } satisfies OllamaChatMessage,
+            ...history,
+            message,
+          ]
+        : [...history, message],
+      stream,
+      ...(modelOptions ? { options: modelOptions } : {}),
+    };
+  }
+
+  async query(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse> {
+    const startTime = Date.now();
+    let attempts = 0;
+
+    try {
+      const body = this.buildChatBody(prompt, options, false);
+      const { result, attempts: totalAttempts } = await withRetry(
+        async (attempt) => {
+          attempts = attempt;
+          const response = await this.request('/api/chat', CHAT_TIMEOUT_MS, body, options?.signal);
+          return (await response.json()) as OllamaChatChunk;
+        },
+        this.retryPolicy,
+        options?.signal
+      );
+
+      const latencyMs = Date.now() - startTime;
+      const tokensUsed =
+        result.prompt_eval_count !== undefined || result.eval_count !== undefined
+          ? (result.prompt_eval_count ?? 0) + (result.eval_count ?? 0)
+          : undefined;
+      const usage: TokenUsage | undefined =
+        tokensUsed !== undefined
+          ? {
+              ...(result.prompt_eval_count !== undefined
+                ? { inputTokens: result.prompt_eval_count }
+                : {}),
+              ...(result.eval_count !== undefined ? { outputTokens: result.eval_count } : {}),
+              totalTokens: tokensUsed,
+            }
+          : undefined;
+
+      return {
+        content: result.message?.content ?? '',
+        provider: this.name,
+        modelId: this.modelId,
+        latencyMs,
+        tokensUsed,
+        usage,
+        attempts: totalAttempts,
+      };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const attemptInfo = attempts > 1 ? `, ${attempts} attempts` : '';
+      throw new Error(
+        `Ollama query failed (${latencyMs}ms${attemptInfo}): ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  async *queryStream(prompt: string, options?: ProviderRequestOptions): AsyncIterable<string> {
+    try {
+      const body = this.buildChatBody(prompt, options, true);
+      const response = await this.request('/api/chat', CHAT_TIMEOUT_MS, body, options?.signal);
+      if (!response.body) {
+        throw new Error('Ollama returned an empty stream');
+      }
+
+      // Ollama streams newline-delimited JSON objects
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Cancelled when the consumer stops early or the stream fails, which closes the connection
+      try {
+        for (;;) {
+          const { done, value } = (await reader.read()) as { done: boolean; value?: Uint8Array };
+          buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = done ? '' : (lines.pop() ?? '');
+
+          for (const line of lines) {
+            if (line.trim() === '') continue;
+            const chunk = JSON.parse(line) as OllamaChatChunk;
+            if (chunk.error) {
+              throw new Error(chunk.error);
+            }
+            if (chunk.message?.content) {
+              yield chunk.message.content;
+            }
+          }
+
+          if (done) break;
+        }
+      } finally {
+        await reader.cancel().catch(() => undefined);
+      }
+    } catch (error) {
+      throw new Error(
+        `Ollama stream failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Lists the models pulled on the Ollama host (GET /api/tags)
+   */
+  async discoverModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await this.request('/api/tags', DISCOVERY_TIMEOUT_MS, undefined, signal);
+    const tags = (await response.json()) as OllamaTagsResponse;
+    return (tags.models ?? []).map((model) => model.name);
+  }
+}
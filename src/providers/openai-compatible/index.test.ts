@@ -0,0 +1,190 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { classifyProviderError } from '../errors.js';
+import { OpenAICompatibleProvider } from './index.js';
+
+interface RecordedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: {
+    model: string;
+    stream?: boolean;
+    messages: Array<{ role: string; content: unknown }>;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    seed?: number;
+    stop?: string[];
+  };
+}
+
+/**
+ * Minimal OpenAI chat completions stub (what vLLM / LM Studio expose)
+ */
+function startStubServer(requests: RecordedRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const body = JSON.parse(raw) as RecordedRequest['body'];
+      requests.push({ url: req.url, headers: req.headers, body });
+
+      if (body.model === 'missing-model') {
+        res.writeHead(404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'The model does not exist' } }));
+        return;
+      }
+
+      if (body.stream) {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        const deltas = [
+          { delta: { content: 'Hello' }, finish_reason: null },
+          { delta: { content: ' from' }, finish_reason: null },
+          { delta: { content: ' stub' }, finish_reason: null },
+          { delta: {}, finish_reason: 'stop' },
+        ];
+        for (const delta of deltas) {
+          const chunk = {
+            id: 'chatcmpl-1',
+            object: 'chat.completion.chunk',
+            created: 0,
+            model: body.model,
+            choices: [{ index: 0, ...delta }],
+          };
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'OK from stub' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: {
+            prompt_tokens: 7,
+            completion_tokens: 3,
+            total_tokens: 10,
+            prompt_tokens_details: { cached_tokens: 4 },
+            completion_tokens_details: { reasoning_tokens: 1 },
+          },
+        })
+      );
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('OpenAICompatibleProvider', () => {
+  const requests: RecordedRequest[] = [];
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = await startStubServer(requests);
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('should query the configured base URL and return ProviderResponse', async () => {
+    const provider = new OpenAICompatibleProvider(
+      { baseURL, apiKey: 'local-key', headers: { 'X-Team': 'council' } },
+      'qwen-7b',
+      'Local Qwen'
+    );
+
+    const response = await provider.query('Say OK');
+
+    expect(response.content).toBe('OK from stub');
+    expect(response.provider).toBe('Local Qwen');
+    expect(response.modelId).toBe('qwen-7b');
+    expect(response.tokensUsed).toBe(10);
+    expect(response.usage).toEqual({
+      inputTokens: 7,
+      outputTokens: 3,
+      cachedInputTokens: 4,
+      reasoningTokens: 1,
+      totalTokens: 10,
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].body.model).toBe('qwen-7b');
+    expect(requests[0].headers.authorization).toBe('Bearer local-key');
+    expect(requests[0].headers['x-team']).toBe('council');
+  });
+
+  it('should not send an Authorization header without an API key', async () => {
+    const provider = new OpenAICompatibleProvider({ baseURL }, 'qwen-7b');
+
+    await provider.query('Say OK');
+
+    expect(provider.name).toBe('OpenAI-compatible (qwen-7b)');
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should send generation settings with every request', async () => {
+    const provider = new OpenAICompatibleProvider({ baseURL }, 'qwen-7b', undefined, {
+      settings: {
+        systemPrompt: 'Answer in one word.',
+        temperature: 0.3,
+        topP: 0.8,
+        maxOutputTokens: 512,
+        seed: 42,
+        stopSequences: ['END'],
+      },
+    });
+
+    await provider.query('Say OK');
+
+    expect(requests[0].body.messages[0]).toEqual({
+      role: 'system',
+      content: 'Answer in one word.',
+    });
+    expect(requests[0].body.temperature).toBe(0.3);
+    expect(requests[0].body.top_p).toBe(0.8);
+    expect(requests[0].body.max_tokens).toBe(512);
+    expect(requests[0].body.seed).toBe(42);
+    expect(requests[0].body.stop).toEqual(['END']);
+  });
+
+  it('should stream text chunks', async () => {
+    const provider = new OpenAICompatibleProvider({ baseURL }, 'qwen-7b');
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.queryStream('Say hello')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe('Hello from stub');
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('should surface endpoint errors with a classifiable cause', async () => {
+    const provider = new OpenAICompatibleProvider({ baseURL }, 'missing-model');
+
+    const error = await provider.query('Say OK').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('OpenAI-compatible query failed');
+    expect(classifyProviderError(error)).toBe('model_not_found');
+  });
+});
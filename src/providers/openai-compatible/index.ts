@@ -0,0 +1,117 @@
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { generateText, streamText } from 'ai';
+import { buildModelInput } from '../message.js';
+import { resolveRetryPolicy, RetryPolicy, withRetry } from '../retry.js';
+import { toCallSettings } from '../settings.js';
+import { readTextStream } from '../stream.js';
+import { toTokenUsage } from '../usage.js';
+import {
+  GenerationSettings,
+  Provider,
+  ProviderOptions,
+  ProviderResponse,
+  ProviderRequestOptions,
+} from '../types.js';
+
+/**
+ * Endpoint settings for an OpenAI-compatible server (vLLM, LM Studio, llama.cpp, ...)
+ */
+export interface OpenAICompatibleEndpoint {
+  baseURL: string; // e.g., "http://localhost:8000/v1"
+  apiKey?: string; // Sent as a Bearer token when set; many local servers need none
+  headers?: Record<string, string>; // Extra headers sent with every request
+}
+
+/**
+ * OpenAI-compatible provider - talks the OpenAI chat completions API at a custom base URL
+ */
+export class OpenAICompatibleProvider implements Provider {
+  public readonly name: string;
+  public readonly modelId: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly settings?: GenerationSettings;
+  private readonly client: ReturnType<typeof createOpenAICompatible>;
+
+  constructor(
+    endpoint: OpenAICompatibleEndpoint,
+    modelId: string,
+    displayName?: string,
+    options?: ProviderOptions
+  ) {
+    this.client = createOpenAICompatible({
+      name: 'openai-compatible',
+      baseURL: endpoint.baseURL,
+      apiKey: endpoint.apiKey,
+      headers: endpoint.headers,
+      includeUsage: true,
+    });
+    this.modelId = modelId;
+    this.name = displayName || `OpenAI-compatible (${modelId})`;
+    this.retryPolicy = resolveRetryPolicy(options?.retry);
+    this.settings = options?.settings;
+  }
+
+  async query(prompt: string, options?: ProviderRequestOptions): Promise<ProviderResponse> {
+    const startTime = Date.now();
+    let attempts = 0;
+
+    try {
+      const input = buildModelInput(prompt, options);
+      const { result, attempts: totalAttempts } = await withRetry(
+        (attempt) => {
+          attempts = attempt;
+          return generateText({
+            model: this.client(this.modelId),
+            ...input,
+            ...toCallSettings(this.settings),
+            abortSignal: options?.signal,
+            maxRetries: 0, // Retries are handled by withRetry
+          });
+        },
+        this.retryPolicy,
+        options?.signal
+      );
+
+      const latencyMs = Date.now() - startTime;
+
+      return {
+        content: result.text,
+        provider: this.name,
+        modelId: this.modelId,
+        latencyMs,
+        tokensUsed: result.usage?.totalTokens,
+        usage: toTokenUsage(result.usage),
+        attempts: totalAttempts,
+      };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const attemptInfo = attempts > 1 ? `, ${attempts} attempts` : '';
+      throw new Error(
+        `OpenAI-compatible query failed (${latencyMs}ms${attemptInfo}): ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  async *queryStream(prompt: string, options?: ProviderRequestOptions): AsyncIterable<string> {
+    try {
+      const input = buildModelInput(prompt, options);
+      const result = streamText({
+        model: this.client(this.modelId),
+        ...input,
+        ...toCallSettings(this.settings),
+        abortSignal: options?.signal,
+      });
+
+      // Stream text chunks as they arrive
+      for await (const chunk of readTextStream(result.fullStream)) {
+        yield chunk;
+      }
+    } catch (error) {
+      throw new Error(
+        `OpenAI-compatible stream failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+}
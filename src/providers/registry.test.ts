@@ -0,0 +1,177 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { createProvider } from './index.js';
+import {
+  getMissingApiKeys,
+  getProviderCapabilities,
+  getProviderRegistration,
+  listProviderRegistrations,
+  loadProviderModules,
+  registerProvider,
+  requiresApiKey,
+  supportsAttachment,
+} from './registry.js';
+import type { Provider } from './types.js';
+
+function createStubProvider(name: string, modelId: string): Provider {
+  return {
+    name,
+    modelId,
+    query: () => Promise.resolve({ content: 'stub', provider: name, modelId, latencyMs: 1 }),
+    async *queryStream() {
+      await Promise.resolve();
+      yield 'stub';
+    },
+  };
+}
+
+describe('provider registry', () => {
+  const moduleDir = mkdtempSync(join(tmpdir(), 'council-providers-'));
+
+  afterAll(() => {
+    rmSync(moduleDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_INHOUSE_API_KEY;
+  });
+
+  it('registers the built-in provider types', () => {
+    const types = listProviderRegistrations().map((registration) => registration.type);
+
+    expect(types).toEqual(
+      expect.arrayContaining([
+        'anthropic',
+        'openai',
+        'gemini',
+        'xai',
+        'groq',
+        'openai-compatible',
+        'ollama',
+      ])
+    );
+    expect(getProviderRegistration('anthropic')?.apiKeyEnv).toBe('ANTHROPIC_API_KEY');
+    expect(getProviderRegistration('xai')?.aliases).toContain('grok');
+  });
+
+  it('reports key requirements and capabilities with safe defaults', () => {
+    expect(requiresApiKey('openai')).toBe(true);
+    expect(requiresApiKey('ollama')).toBe(false);
+    expect(requiresApiKey('not-registered')).toBe(true);
+
+    expect(getProviderCapabilities('anthropic')).toEqual({
+      imageInput: true,
+      pdfInput: true,
+      fileInput: false,
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+    });
+    expect(supportsAttachment(getProviderCapabilities('anthropic'), 'application/pdf')).toBe(true);
+    expect(supportsAttachment(getProviderCapabilities('groq'), 'application/pdf')).toBe(false);
+    expect(supportsAttachment(getProviderCapabilities('groq'), 'image/png')).toBe(false);
+    // Model entries override the provider type's defaults
+    expect(
+      getProviderCapabilities('groq', 'meta-llama/llama-4-maverick-17b-128e-instruct')
+    ).toMatchObject({ imageInput: true, contextWindow: 131_072 });
+    expect(getProviderCapabilities('openai', 'gpt-5.2').contextWindow).toBe(400_000);
+    expect(getProviderCapabilities('not-registered')).toEqual({
+      imageInput: false,
+      pdfInput: false,
+      fileInput: false,
+    });
+  });
+
+  it('rejects duplicate provider types', () => {
+    expect(() =>
+      registerProvider({
+        type: 'anthropic',
+        create: ({ displayName, modelId }) => createStubProvider(displayName, modelId),
+      })
+    ).toThrowError(/already registered: anthropic/);
+  });
+
+  it('registers provider types at runtime and builds members through them', async () => {
+    registerProvider({
+      type: 'test-runtime',
+      requiresApiKey: false,
+      create: ({ displayName, modelId }) => createStubProvider(displayName, modelId),
+    });
+
+    const provider = createProvider(
+      { name: 'Runtime', provider: 'test-runtime', models: ['runtime-1'] },
+      undefined,
+      'runtime-1'
+    );
+
+    await expect(provider.query('hi')).resolves.toMatchObject({ content: 'stub' });
+    expect(() =>
+      createProvider({ name: 'Nope', provider: 'missing', models: ['x'] }, undefined, 'x')
+    ).toThrowError(/Unknown provider type: missing/);
+  });
+
+  it('loads provider modules from paths and includes their key env vars', async () => {
+    const modulePath = join(moduleDir, 'inhouse.mjs');
+    writeFileSync(
+      modulePath,
+      `export default {
+        type: 'test-inhouse',
+        apiKeyEnv: 'TEST_INHOUSE_API_KEY',
+        capabilities: { fileInput: true },
+        aliases: ['inhouse'],
+        create: ({ displayName, modelId, apiKey }) => ({
+          name: displayName,
+          modelId,
+          query: async () => ({ content: apiKey, provider: displayName, modelId, latencyMs: 1 }),
+          queryStream: async function* () { yield apiKey; },
+        }),
+      };`
+    );
+
+    await loadProviderModules([modulePath]);
+    // Loading the same module again is a no-op rather than a duplicate registration
+    await loadProviderModules([modulePath]);
+
+    expect(getProviderRegistration('test-inhouse')?.apiKeyEnv).toBe('TEST_INHOUSE_API_KEY');
+    expect(getProviderRegistration('test-inhouse')?.aliases).toEqual(['inhouse']);
+    expect(getProviderCapabilities('test-inhouse').fileInput).toBe(true);
+    expect(getMissingApiKeys()).toContain('TEST_INHOUSE_API_KEY');
+
+    process.env.TEST_INHOUSE_API_KEY = 'secret';
+    expect(getMissingApiKeys()).not.toContain('TEST_INHOUSE_API_KEY');
+
+    const provider = createProvider(
+      { name: 'In-house', provider: 'test-inhouse', models: ['ih-1'] },
+      'secret',
+      'ih-1'
+    );
+    await expect(provider.query('hi')).resolves.toMatchObject({ content: 'secret' });
+  });
+
+  it("registers none of a module's entries when one of them is rejected", async () => {
+    const modulePath = join(moduleDir, 'partial.mjs');
+    writeFileSync(
+      modulePath,
+      `const create = () => { throw new Error('not used'); };
+      export default [{ type: 'test-partial', create }, { type: 'anthropic', create }];`
+    );
+
+    await expect(loadProviderModules([modulePath])).rejects.toThrowError(
+      /already registered: anthropic/
+    );
+    expect(getProviderRegistration('test-partial')).toBeUndefined();
+  });
+
+  it('reports modules that do not export a registration', async () => {
+    const modulePath = join(moduleDir, 'empty.mjs');
+    writeFileSync(modulePath, 'export const notARegistration = true;\n');
+
+    await expect(loadProviderModules([modulePath])).rejects.toThrowError(
+      /must default-export a provider registration/
+    );
+    await expect(loadProviderModules([join(moduleDir, 'missing.mjs')])).rejects.toThrowError(
+      /Failed to load provider module/
+    );
+  });
+});
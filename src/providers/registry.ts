@@ -0,0 +1,192 @@
+import { isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ModelConfig } from '../../council.config.js';
+import { BUILTIN_PROVIDERS } from './builtin.js';
+import type { Provider, ProviderOptions } from './types.js';
+
+/**
+ * Input types a provider can accept as attachments, and how many tokens fit
+ */
+export interface ProviderCapabilities {
+  imageInput: boolean; // image/* attachments
+  pdfInput: boolean; // application/pdf attachments
+  fileInput: boolean; // Any other file attachment (text, JSON, archives)
+  urlInput?: boolean; // Attachments given by URL instead of inline data (unset: accepted)
+  contextWindow?: number; // Input + output tokens the model accepts (unset if unknown)
+  maxOutputTokens?: number; // Most tokens the model generates per answer (unset if unknown)
+}
+
+/**
+ * Everything a factory needs to build a provider for one model of a council member
+ */
+export interface ProviderFactoryContext {
+  modelId: string;
+  displayName: string;
+  apiKey?: string; // Resolved key (undefined for keyless providers)
+  modelConfig: ModelConfig; // Full member config, for provider-specific fields like baseURL
+  options: ProviderOptions;
+}
+
+export type ProviderFactory = (context: ProviderFactoryContext) => Provider;
+
+/**
+ * A provider type known to the council
+ * Extra provider modules default-export one of these (or an array of them)
+ */
+export interface ProviderRegistration {
+  type: string; // Value used in ModelConfig.provider (e.g., "anthropic")
+  create: ProviderFactory;
+  apiKeyEnv?: string; // Default env var holding the API key
+  requiresApiKey?: boolean; // Members without a key are skipped (default: true)
+  capabilities?: Partial<ProviderCapabilities>; // Defaults for every model of this type
+  modelCapabilities?: Record<string, Partial<ProviderCapabilities>>; // Per-model overrides, keyed by model ID
+  aliases?: string[]; // Short names for every member of this type (e.g., "claude"); a member's own aliases come first
+}
+
+const NO_CAPABILITIES: ProviderCapabilities = {
+  imageInput: false,
+  pdfInput: false,
+  fileInput: false,
+};
+
+const registry = new Map<string, ProviderRegistration>();
+const loadedModules = new Set<string>();
+
+/**
+ * Throws if a registration is malformed or its type is taken
+ */
+function checkRegistration(registration: ProviderRegistration): void {
+  if (!registration.type || typeof registration.create !== 'function') {
+    throw new Error('Provider registration requires a type and a create function');
+  }
+  if (registry.has(registration.type)) {
+    throw new Error(`Provider type already registered: ${registration.type}`);
+  }
+}
+
+/**
+ * Registers a provider type
+ * Registering an existing type is an error, so a module cannot silently replace a vendor
+ */
+export function registerProvider(registration: ProviderRegistration): void {
+  checkRegistration(registration);
+  registry.set(registration.type, registration);
+}
+
+export function getProviderRegistration(type: string): ProviderRegistration | undefined {
+  return registry.get(type);
+}
+
+export function listProviderRegistrations(): ProviderRegistration[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Returns true if members of this provider type are skipped without an API key
+ * Unknown types count as requiring one
+ */
+export function requiresApiKey(providerType: string): boolean {
+  return registry.get(providerType)?.requiresApiKey ?? true;
+}
+
+/**
+ * Returns the API key env vars of registered providers that need a key but have none set
+ */
+export function getMissingApiKeys(): string[] {
+  return listProviderRegistrations()
+    .filter((registration) => registration.apiKeyEnv && (registration.requiresApiKey ?? true))
+    .map((registration) => registration.apiKeyEnv!)
+    .filter((key) => {
+      const value = process.env[key];
+      return !value || value.trim() === '';
+    });
+}
+
+/**
+ * Returns what a provider type (or one of its models) accepts
+ * Model entries override the type's defaults; unknown types accept text only
+ */
+export function getProviderCapabilities(
+  providerType: string,
+  modelId?: string
+): ProviderCapabilities {
+  const registration = registry.get(providerType);
+  return {
+    ...NO_CAPABILITIES,
+    ...registration?.capabilities,
+    ...(modelId ? registration?.modelCapabilities?.[modelId] : undefined),
+  };
+}
+
+/**
+ * Returns true if a provider with these capabilities accepts an attachment of this media type
+ *
+ * @param byUrl - Whether the attachment is given by URL only (no inline data)
+ */
+export function supportsAttachment(
+  capabilities: ProviderCapabilities,
+  mediaType: string,
+  byUrl = false
+): boolean {
+  if (byUrl && capabilities.urlInput === false) {
+    return false;
+  }
+  if (mediaType.startsWith('image/')) {
+    return capabilities.imageInput;
+  }
+  if (mediaType === 'application/pdf') {
+    return capabilities.pdfInput;
+  }
+  return capabilities.fileInput;
+}
+
+/**
+ * Imports extra provider modules and registers their default export
+ * Relative paths are resolved against the current working directory; modules already
+ * loaded are skipped. A module's entries are all checked before any is registered, so a
+ * failing module registers nothing and can be fixed and loaded again.
+ *
+ * @param paths - Module paths (e.g., from LLM_COUNCIL_PROVIDER_MODULES)
+ */
+export async function loadProviderModules(paths: string[]): Promise<void> {
+  for (const modulePath of paths) {
+    const absolutePath = isAbsolute(modulePath) ? modulePath : resolve(process.cwd(), modulePath);
+    if (loadedModules.has(absolutePath)) {
+      continue;
+    }
+
+    let loaded: { default?: unknown };
+    try {
+      loaded = (await import(pathToFileURL(absolutePath).href)) as { default?: unknown };
+    } catch (error) {
+      throw new Error(
+        `Failed to load provider module ${modulePath}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+
+    const exported = loaded.default;
+    const registrations = Array.isArray(exported) ? exported : [exported];
+    if (registrations.length === 0 || registrations.some((entry) => !entry)) {
+      throw new Error(
+        `Provider module ${modulePath} must default-export a provider registration or an array of them`
+      );
+    }
+    const types = new Set<string>();
+    for (const registration of registrations as ProviderRegistration[]) {
+      checkRegistration(registration);
+      if (types.has(registration.type)) {
+        throw new Error(`Provider module ${modulePath} registers ${registration.type} twice`);
+      }
+      types.add(registration.type);
+    }
+    for (const registration of registrations as ProviderRegistration[]) {
+      registry.set(registration.type, registration);
+    }
+    loadedModules.add(absolutePath);
+  }
+}
+
+for (const registration of BUILTIN_PROVIDERS) {
+  registerProvider(registration);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'vitest';
+import { APICallError } from 'ai';
+import { getRetryAfterMs, isRetryableError, resolveRetryPolicy, withRetry } from './retry.js';
+
+function apiError(statusCode: number, responseHeaders?: Record<string, string>): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com/v1/chat',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+const fastPolicy = resolveRetryPolicy({ initialDelayMs: 1, maxDelayMs: 5 });
+
+describe('retry policy', () => {
+  test('classifies rate limits and server errors as retryable', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+  });
+
+  test('reads retry-after headers in seconds and milliseconds', () => {
+    expect(getRetryAfterMs(apiError(429, { 'Retry-After': '2' }))).toBe(2000);
+    expect(getRetryAfterMs(apiError(429, { 'retry-after-ms': '150' }))).toBe(150);
+    expect(getRetryAfterMs(apiError(429))).toBeUndefined();
+  });
+
+  test('retries transient errors and reports the attempt count', async () => {
+    let calls = 0;
+    const { result, attempts } = await withRetry(() => {
+      calls++;
+      return calls < 3 ? Promise.reject(apiError(429)) : Promise.resolve('ok');
+    }, fastPolicy);
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+  });
+
+  test('does not retry non-transient errors', async () => {
+    let calls = 0;
+    await expect(
+      withRetry(() => {
+        calls++;
+        return Promise.reject(apiError(401));
+      }, fastPolicy)
+    ).rejects.toThrow('HTTP 401');
+    expect(calls).toBe(1);
+  });
+
+  test('stops after maxAttempts', async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        () => {
+          calls++;
+          return Promise.reject(apiError(500));
+        },
+        { ...fastPolicy, maxAttempts: 2 }
+      )
+    ).rejects.toThrow('HTTP 500');
+    expect(calls).toBe(2);
+  });
+
+  test('gives up when retry-after would exceed the total retry time cap', async () => {
+    let calls = 0;
+    const startTime = Date.now();
+    await expect(
+      withRetry(
+        () => {
+          calls++;
+          return Promise.reject(apiError(429, { 'retry-after': '60' }));
+        },
+        { ...fastPolicy, maxRetryTimeMs: 1000 }
+      )
+    ).rejects.toThrow('HTTP 429');
+    expect(calls).toBe(1);
+    expect(Date.now() - startTime).toBeLessThan(500);
+  });
+
+  test('stops retrying when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const promise = withRetry(
+      () => Promise.reject(apiError(503)),
+      resolveRetryPolicy({ initialDelayMs: 5000, maxDelayMs: 5000 }),
+      controller.signal
+    );
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(promise).rejects.toThrow();
+  });
+});
@@ -0,0 +1,128 @@
+import { APICallError } from 'ai';
+
+/**
+ * Retry policy for transient provider failures (rate limits, 5xx, network errors)
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one (1 = no retries)
+  initialDelayMs: number; // Base delay before the first retry
+  maxDelayMs: number; // Upper bound for a single backoff delay
+  maxRetryTimeMs: number; // Cap on the total time spent retrying, measured from the first attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryTimeMs: 30000,
+};
+
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+/**
+ * Returns true for errors worth retrying: 408, 409, 429, 5xx and network failures
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+  return false;
+}
+
+/**
+ * Reads retry-after-ms / retry-after response headers (seconds or HTTP date)
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!APICallError.isInstance(error) || !error.responseHeaders) {
+    return undefined;
+  }
+
+  const headers = Object.fromEntries(
+    Object.entries(error.responseHeaders).map(([key, value]) => [key.toLowerCase(), value])
+  );
+
+  const retryAfterMs = headers['retry-after-ms'];
+  if (retryAfterMs) {
+    const parsed = parseFloat(retryAfterMs);
+    if (!Number.isNaN(parsed) && parsed >= 0) {
+      return parsed;
+    }
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!Number.isNaN(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half is random
+ */
+function backoffDelayMs(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason instanceof Error ? signal.reason : new Error('Operation was aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason instanceof Error ? signal.reason : new Error('Operation was aborted'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation, retrying transient failures according to the policy
+ *
+ * @param operation - Called with the 1-based attempt number
+ * @param policy - Retry policy to apply
+ * @param signal - Optional AbortSignal; aborting stops further retries
+ * @returns The operation result and the number of attempts it took
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<{ result: T; attempts: number }> {
+  const startTime = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await operation(attempt);
+      return { result, attempts: attempt };
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs = retryAfterMs ?? backoffDelayMs(attempt, policy);
+      if (Date.now() - startTime + delayMs > policy.maxRetryTimeMs) {
+        throw error;
+      }
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
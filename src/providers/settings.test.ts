@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { mergeGenerationSettings, toCallSettings } from './settings.js';
+
+describe('mergeGenerationSettings', () => {
+  it('should return undefined when no layer is set', () => {
+    expect(mergeGenerationSettings(undefined, undefined)).toBeUndefined();
+  });
+
+  it('should let later layers win and merge provider options per vendor', () => {
+    const merged = mergeGenerationSettings(
+      {
+        systemPrompt: 'Be terse.',
+        temperature: 0.7,
+        providerOptions: { openai: { reasoningEffort: 'low', user: 'council' } },
+      },
+      undefined,
+      { temperature: 0.2, providerOptions: { openai: { reasoningEffort: 'high' } } }
+    );
+
+    expect(merged).toEqual({
+      systemPrompt: 'Be terse.',
+      temperature: 0.2,
+      providerOptions: { openai: { reasoningEffort: 'high', user: 'council' } },
+    });
+  });
+});
+
+describe('toCallSettings', () => {
+  it('should map settings to AI SDK call settings', () => {
+    expect(
+      toCallSettings({
+        systemPrompt: 'Be terse.',
+        temperature: 0,
+        topP: 0.9,
+        maxOutputTokens: 512,
+        seed: 7,
+        stopSequences: ['END'],
+        providerOptions: { anthropic: { sendReasoning: false } },
+      })
+    ).toEqual({
+      system: 'Be terse.',
+      temperature: 0,
+      topP: 0.9,
+      maxOutputTokens: 512,
+      seed: 7,
+      stopSequences: ['END'],
+      providerOptions: { anthropic: { sendReasoning: false } },
+    });
+    expect(toCallSettings(undefined)).toEqual({});
+  });
+});
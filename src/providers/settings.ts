@@ -0,0 +1,51 @@
+import type { GenerationSettings } from './types.js';
+
+/**
+ * Layers generation settings; later layers win field by field
+ * Provider options are merged per vendor namespace, so a preset can add one option
+ * without dropping the member's others.
+ *
+ * @returns Merged settings, or undefined if every layer is empty
+ */
+export function mergeGenerationSettings(
+  ...layers: Array<GenerationSettings | undefined>
+): GenerationSettings | undefined {
+  const present = layers.filter((layer): layer is GenerationSettings => layer !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const merged: GenerationSettings = {};
+  for (const layer of present) {
+    const { providerOptions, ...rest } = layer;
+    Object.assign(merged, rest);
+    if (providerOptions) {
+      const combined = { ...merged.providerOptions };
+      for (const [vendor, options] of Object.entries(providerOptions)) {
+        combined[vendor] = { ...combined[vendor], ...options };
+      }
+      merged.providerOptions = combined;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Maps generation settings to AI SDK call settings for generateText() and streamText()
+ */
+export function toCallSettings(settings?: GenerationSettings) {
+  if (!settings) {
+    return {};
+  }
+  return {
+    ...(settings.systemPrompt !== undefined ? { system: settings.systemPrompt } : {}),
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+    ...(settings.topP !== undefined ? { topP: settings.topP } : {}),
+    ...(settings.maxOutputTokens !== undefined
+      ? { maxOutputTokens: settings.maxOutputTokens }
+      : {}),
+    ...(settings.seed !== undefined ? { seed: settings.seed } : {}),
+    ...(settings.stopSequences ? { stopSequences: settings.stopSequences } : {}),
+    ...(settings.providerOptions ? { providerOptions: settings.providerOptions } : {}),
+  };
+}
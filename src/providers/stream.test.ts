@@ -0,0 +1,110 @@
+import { convertArrayToReadableStream, MockLanguageModelV3 } from 'ai/test';
+import { describe, expect, test, vi } from 'vitest';
+import { FallbackProvider } from './fallback-provider.js';
+import { OpenAICompatibleProvider } from './openai-compatible/index.js';
+import type { StreamMetadata } from './types.js';
+
+// Models the SDK client hands out, by model ID
+const sdkModels = vi.hoisted(() => new Map<string, MockLanguageModelV3>());
+
+vi.mock('@ai-sdk/openai-compatible', () => ({
+  createOpenAICompatible: () => (modelId: string) => sdkModels.get(modelId),
+}));
+
+type StreamPart =
+  Awaited<ReturnType<MockLanguageModelV3['doStream']>>['stream'] extends ReadableStream<infer T>
+    ? T
+    : never;
+
+const FINISH: StreamPart = {
+  type: 'finish',
+  finishReason: { unified: 'stop', raw: 'stop' },
+  usage: {
+    inputTokens: { total: 5, noCache: 5, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: 2, text: 2, reasoning: undefined },
+  },
+};
+
+function textParts(...deltas: string[]): StreamPart[] {
+  return [
+    { type: 'stream-start', warnings: [] },
+    { type: 'text-start', id: 't' },
+    ...deltas.map((delta): StreamPart => ({ type: 'text-delta', id: 't', delta })),
+  ];
+}
+
+function streamingModel(modelId: string, parts: StreamPart[]): MockLanguageModelV3 {
+  const model = new MockLanguageModelV3({
+    modelId,
+    doStream: () => Promise.resolve({ stream: convertArrayToReadableStream(parts) }),
+  });
+  sdkModels.set(modelId, model);
+  return model;
+}
+
+function sdkProvider(modelId: string): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({ baseURL: 'http://127.0.0.1:1/v1' }, modelId, 'Local');
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('SDK provider streams', () => {
+  test('throw when the stream errors partway through', async () => {
+    streamingModel('broken', [...textParts('Hel'), { type: 'error', error: new Error('reset') }]);
+
+    await expect(collect(sdkProvider('broken').queryStream('hi'))).rejects.toThrowError(
+      /OpenAI-compatible stream failed: reset/
+    );
+  });
+
+  test('fail over to the next model and continue a stream that broke partway through', async () => {
+    streamingModel('primary', [...textParts('Hel'), { type: 'error', error: new Error('reset') }]);
+    const fallback = streamingModel('fallback', [...textParts('lo'), FINISH]);
+    const metadata: StreamMetadata[] = [];
+    const provider = new FallbackProvider(
+      'Local',
+      [sdkProvider('primary'), sdkProvider('fallback')],
+      60_000,
+      { continueStreams: true }
+    );
+
+    const text = await collect(
+      provider.queryStream('hi', { onStreamMetadata: (event) => metadata.push(event) })
+    );
+
+    expect(text).toBe('Hello');
+    expect(metadata).toEqual([
+      expect.objectContaining({
+        type: 'model_switch',
+        fromModelId: 'primary',
+        toModelId: 'fallback',
+      }),
+    ]);
+    expect(JSON.stringify(fallback.doStreamCalls[0].prompt)).toContain('Hel');
+  });
+
+  test('fall back to the next model when the stream fails to start', async () => {
+    sdkModels.set(
+      'unreachable',
+      new MockLanguageModelV3({
+        modelId: 'unreachable',
+        doStream: () => Promise.reject(new Error('connect ECONNREFUSED')),
+      })
+    );
+    streamingModel('fallback', [...textParts('Hello'), FINISH]);
+    const provider = new FallbackProvider(
+      'Local',
+      [sdkProvider('unreachable'), sdkProvider('fallback')],
+      60_000
+    );
+
+    await expect(collect(provider.queryStream('hi'))).resolves.toBe('Hello');
+    expect(provider.getModelStatus()[0].coolingDown).toBe(true);
+  });
+});
@@ -0,0 +1,20 @@
+import type { TextStreamPart, ToolSet } from 'ai';
+
+/**
+ * Yields the text of a streamText result, throwing when the stream errors or is aborted
+ * The SDK's textStream only reports errors to onError and then ends normally, which would
+ * pass a cut-off answer off as complete and keep fallbacks from running.
+ */
+export async function* readTextStream(
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>
+): AsyncIterable<string> {
+  for await (const part of fullStream) {
+    if (part.type === 'text-delta') {
+      yield part.text;
+    } else if (part.type === 'error') {
+      throw part.error instanceof Error ? part.error : new Error(String(part.error));
+    } else if (part.type === 'abort') {
+      throw new Error(part.reason ?? 'Stream aborted');
+    }
+  }
+}
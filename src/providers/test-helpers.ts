@@ -1,4 +1,4 @@
-import { loadConfig } from '../config.js';
+import { getProviderRegistration } from './registry.js';
 
 /**
  * Test configuration using cheaper/faster models
@@ -17,17 +17,22 @@ export const TEST_MODELS = {
  */
 export const TEST_PROMPT = 'Say "OK" if you can hear me.';
 
+function getApiKey(providerType: string): string | undefined {
+  const envName = getProviderRegistration(providerType)?.apiKeyEnv;
+  const value = envName ? process.env[envName] : undefined;
+  return value && value.trim() !== '' ? value : undefined;
+}
+
 /**
  * Gets API keys from environment
  */
 export function getTestApiKeys() {
-  const config = loadConfig();
   return {
-    anthropic: config.anthropicApiKey,
-    openai: config.openaiApiKey,
-    xai: config.xaiApiKey,
-    groq: config.groqApiKey,
-    gemini: config.geminiApiKey,
+    anthropic: getApiKey('anthropic'),
+    openai: getApiKey('openai'),
+    xai: getApiKey('xai'),
+    groq: getApiKey('groq'),
+    gemini: getApiKey('gemini'),
   };
 }
 
@@ -1,13 +1,85 @@
+import type { JSONValue } from 'ai';
+import type { ProviderErrorCode } from './errors.js';
+import type { ProviderCapabilities } from './registry.js';
+import type { RetryPolicy } from './retry.js';
+
+/**
+ * One model tried by a fallback chain while answering a query
+ */
+export interface FallbackAttempt {
+  modelId: string; // Model identifier that was tried (or skipped)
+  outcome: 'success' | 'failed' | 'cancelled' | 'cooldown'; // cancelled = lost a hedged race
+  errorClass?: string; // Error class of the failure (e.g., "AI_APICallError")
+  errorCode?: ProviderErrorCode; // Classified failure type of a failed attempt
+  latencyMs: number; // Time spent on this model
+}
+
+/**
+ * Cooldown state of a single model in a fallback chain
+ */
+export interface ModelCooldownStatus {
+  modelId: string;
+  coolingDown: boolean; // True if the model recently failed and is skipped until the cooldown ends
+  cooldownRemainingMs: number;
+}
+
+/**
+ * Token usage of one query, as reported by the provider
+ * Fields the provider does not report are left unset
+ */
+export interface TokenUsage {
+  inputTokens?: number; // Prompt tokens, cached ones included
+  outputTokens?: number; // Completion tokens, reasoning ones included
+  cachedInputTokens?: number; // Prompt tokens read from the provider's cache
+  reasoningTokens?: number; // Hidden reasoning tokens (billed as output)
+  totalTokens?: number;
+}
+
+/**
+ * How one attachment was delivered to a council member
+ */
+export interface AttachmentHandling {
+  filename?: string;
+  mediaType: string;
+  handling: 'sent' | 'converted' | 'stripped' | 'skipped'; // converted = inlined into the prompt as text; skipped = member not consulted
+}
+
+/**
+ * How a member's prompt was fitted into its context window
+ */
+export interface ContextHandling {
+  handling: 'truncated' | 'chunked'; // chunked = answered by a map-reduce pass over context chunks
+  inputTokens: number; // Estimated tokens of the question and context as requested
+  budgetTokens: number; // Tokens available for them (for context chunks, when chunked) per request
+  chunks?: number; // Number of context chunks critiqued separately
+  failedChunks?: number; // Chunks whose critique failed and were left out of the merge
+  truncatedTokens?: number; // Estimated tokens left out
+}
+
 /**
  * Response from a provider query
  */
 export interface ProviderResponse {
   content: string; // The model's response
   provider: string; // Human-readable provider name (e.g., "Claude Sonnet 4.5")
+  memberId?: string; // Unique ID of the council member that answered (set by the Council)
   modelId: string; // Concrete model identifier used (e.g., "gpt-4o")
   latencyMs: number; // Time taken to complete the query
-  tokensUsed?: number; // Optional token usage information
+  tokensUsed?: number; // Optional total token count (same as usage.totalTokens)
+  usage?: TokenUsage; // Optional token usage split
+  attempts?: number; // Number of attempts made (more than 1 if transient errors were retried)
   error?: string; // Optional error message if query failed
+  errorCode?: ProviderErrorCode; // Classified failure type if query failed
+  timedOut?: boolean; // True if the query was aborted by a deliberation deadline
+  skipped?: boolean; // True if the quorum was reached first, or the member cannot take the attachments
+  hedge?: {
+    candidates: string[]; // Model IDs that were started in parallel, in launch order
+    winner: string; // Model ID whose response was used
+  }; // Present only if a hedged request was issued
+  fallbackTrail?: FallbackAttempt[]; // Every model tried for this query, in order
+  attachments?: AttachmentHandling[]; // How each attachment reached the member (set by the Council)
+  context?: ContextHandling; // Present if the prompt did not fit the context window (set by the Council)
+  warnings?: string[]; // Attachments stripped or converted, context truncated or chunked (set by the Council)
 }
 
 export interface ProviderAttachment {
@@ -17,9 +89,52 @@ export interface ProviderAttachment {
   url?: string; // http(s) URL to the file
 }
 
+/**
+ * Generation settings applied to every request a provider sends
+ * Unset fields fall back to the model's own defaults
+ */
+export interface GenerationSettings {
+  systemPrompt?: string; // Sent as the system message
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  seed?: number;
+  stopSequences?: string[];
+  providerOptions?: Record<string, Record<string, JSONValue>>; // Raw per-vendor options, keyed by vendor (e.g., { anthropic: { thinking: ... } })
+}
+
+/**
+ * Construction-time options shared by all provider implementations
+ */
+export interface ProviderOptions {
+  retry?: Partial<RetryPolicy>; // Overrides for the default retry policy
+  settings?: GenerationSettings; // Member, per-model and preset settings, already merged
+}
+
+/**
+ * Out-of-band metadata reported while a stream is running
+ */
+export type StreamMetadata = {
+  type: 'model_switch'; // The stream failed mid-way and a fallback model is continuing it
+  fromModelId: string;
+  toModelId: string;
+  error: string; // Error that interrupted the previous model
+  continuedAfterChars: number; // Length of the partial text handed to the next model
+};
+
+/**
+ * One message of a member's earlier conversation, replayed before a follow-up question
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface ProviderRequestOptions {
   signal?: AbortSignal;
   attachments?: ProviderAttachment[];
+  history?: ConversationTurn[]; // Earlier turns of this member's conversation, oldest first (user turn first)
+  onStreamMetadata?: (metadata: StreamMetadata) => void; // Called by queryStream() only
 }
 
 /**
@@ -28,6 +143,8 @@ export interface ProviderRequestOptions {
 export interface Provider {
   name: string; // Human-readable name (e.g., "Claude Sonnet 4.5", "GPT-5.2")
   modelId: string; // Concrete model identifier (primary or last successful fallback)
+  memberId?: string; // Unique council member ID (display names may repeat across members)
+  capabilities?: ProviderCapabilities; // What the member accepts; unset = unknown, attachments pass through
 
   /**
    * Query the provider with a prompt and get a complete response
@@ -39,4 +156,17 @@ export interface Provider {
    * Yields chunks of text as they arrive
    */
   queryStream(prompt: string, options?: ProviderRequestOptions): AsyncIterable<string>;
+
+  /**
+   * Optional cooldown state for each model behind this provider (fallback chains)
+   */
+  getModelStatus?(): ModelCooldownStatus[];
+
+  /**
+   * Optional discovery of the models actually available at the provider's endpoint
+   * Resolves to undefined when the underlying provider has no discovery endpoint
+   *
+   * @param signal - Optional abort signal; implementations also give up after their own timeout
+   */
+  discoverModels?(signal?: AbortSignal): Promise<string[] | undefined>;
 }
@@ -0,0 +1,51 @@
+import type { LanguageModelUsage } from 'ai';
+import type { TokenUsage } from './types.js';
+
+/**
+ * Converts the AI SDK usage object to a TokenUsage, keeping only the fields that are set
+ * Returns undefined when the provider reported no usage at all
+ */
+export function toTokenUsage(usage: LanguageModelUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const cachedInputTokens = usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens;
+  const reasoningTokens = usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens;
+  const result: TokenUsage = {
+    ...(usage.inputTokens !== undefined ? { inputTokens: usage.inputTokens } : {}),
+    ...(usage.outputTokens !== undefined ? { outputTokens: usage.outputTokens } : {}),
+    ...(cachedInputTokens !== undefined ? { cachedInputTokens } : {}),
+    ...(reasoningTokens !== undefined ? { reasoningTokens } : {}),
+    ...(usage.totalTokens !== undefined ? { totalTokens: usage.totalTokens } : {}),
+  };
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+const USAGE_FIELDS = [
+  'inputTokens',
+  'outputTokens',
+  'cachedInputTokens',
+  'reasoningTokens',
+  'totalTokens',
+] as const;
+
+/**
+ * Adds up the usage of several queries (e.g., the requests of a chunked answer)
+ * A field is set if any query reported it; returns undefined if none reported usage
+ */
+export function sumTokenUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+  if (reported.length === 0) {
+    return undefined;
+  }
+  const total: TokenUsage = {};
+  for (const usage of reported) {
+    for (const field of USAGE_FIELDS) {
+      const value = usage[field];
+      if (value !== undefined) {
+        total[field] = (total[field] ?? 0) + value;
+      }
+    }
+  }
+  return total;
+}
@@ -1,7 +1,7 @@
-import { loadConfig } from '../config.js';
-import type { ProviderAttachment } from '../providers/types.js';
-
-const config = loadConfig();
+import { getConfig } from '../config.js';
+import type { AttachmentHandling, ProviderAttachment } from '../providers/types.js';
+import { CouncilValidationError } from './mcp-errors.js';
+import type { AttachmentRoutingInfo } from './types.js';
 
 const BASE64_DATA_URL_REGEX = /^data:([^;]+);base64,(.+)$/;
 
@@ -13,7 +13,7 @@ function estimateBase64Bytes(base64: string): number {
 
 function isAllowedMediaType(mediaType: string): boolean {
   const normalized = mediaType.toLowerCase();
-  return config.attachmentAllowedMediaTypes.some((allowed) => {
+  return getConfig().attachmentAllowedMediaTypes.some((allowed) => {
     const rule = allowed.toLowerCase();
     if (rule.endsWith('/*')) {
       return normalized.startsWith(rule.slice(0, -1));
@@ -27,11 +27,11 @@ function normalizeAttachment(attachment: ProviderAttachment): ProviderAttachment
   const hasUrl = typeof attachment.url === 'string' && attachment.url.length > 0;
 
   if (hasData === hasUrl) {
-    throw new Error('Each attachment must include exactly one of data or url.');
+    throw new CouncilValidationError('Each attachment must include exactly one of data or url.');
   }
 
-  if (hasUrl && !config.attachmentAllowUrls) {
-    throw new Error('Attachment URLs are disabled by server configuration.');
+  if (hasUrl && !getConfig().attachmentAllowUrls) {
+    throw new CouncilValidationError('Attachment URLs are disabled by server configuration.');
   }
 
   let mediaType = attachment.mediaType;
@@ -45,17 +45,17 @@ function normalizeAttachment(attachment: ProviderAttachment): ProviderAttachment
   }
 
   if (!mediaType || mediaType.trim() === '') {
-    throw new Error('Attachment mediaType is required.');
+    throw new CouncilValidationError('Attachment mediaType is required.');
   }
 
   if (!isAllowedMediaType(mediaType)) {
-    throw new Error(`Attachment mediaType not allowed: ${mediaType}`);
+    throw new CouncilValidationError(`Attachment mediaType not allowed: ${mediaType}`);
   }
 
   if (hasData) {
     const match = attachment.data!.match(BASE64_DATA_URL_REGEX);
     if (match && match[1] && match[1] !== mediaType) {
-      throw new Error('Attachment mediaType does not match data URL.');
+      throw new CouncilValidationError('Attachment mediaType does not match data URL.');
     }
   }
 
@@ -72,8 +72,9 @@ export function normalizeAttachments(attachments?: ProviderAttachment[]): Provid
     return [];
   }
 
+  const config = getConfig();
   if (attachments.length > config.attachmentMaxCount) {
-    throw new Error(`Too many attachments (max ${config.attachmentMaxCount}).`);
+    throw new CouncilValidationError(`Too many attachments (max ${config.attachmentMaxCount}).`);
   }
 
   let totalBytes = 0;
@@ -84,7 +85,9 @@ export function normalizeAttachments(attachments?: ProviderAttachment[]): Provid
       const base64 = match ? match[2] : normalizedAttachment.data;
       const size = estimateBase64Bytes(base64);
       if (size > config.attachmentMaxBytes) {
-        throw new Error(`Attachment exceeds max size of ${config.attachmentMaxBytes} bytes.`);
+        throw new CouncilValidationError(
+          `Attachment exceeds max size of ${config.attachmentMaxBytes} bytes.`
+        );
       }
       totalBytes += size;
     }
@@ -92,8 +95,21 @@ export function normalizeAttachments(attachments?: ProviderAttachment[]): Provid
   });
 
   if (totalBytes > config.attachmentMaxTotalBytes) {
-    throw new Error(`Total attachment size exceeds ${config.attachmentMaxTotalBytes} bytes.`);
+    throw new CouncilValidationError(
+      `Total attachment size exceeds ${config.attachmentMaxTotalBytes} bytes.`
+    );
   }
 
   return normalized;
 }
+
+/**
+ * Converts the Council's attachment routing to the response format
+ */
+export function toAttachmentRoutingInfo(handling: AttachmentHandling[]): AttachmentRoutingInfo[] {
+  return handling.map((entry) => ({
+    ...(entry.filename ? { filename: entry.filename } : {}),
+    media_type: entry.mediaType,
+    handling: entry.handling,
+  }));
+}
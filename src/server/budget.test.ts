@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { BudgetTracker } from './budget.js';
+import { CouncilBudgetError } from './mcp-errors.js';
+
+function captureBudgetError(run: () => unknown): CouncilBudgetError {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CouncilBudgetError);
+    return error as CouncilBudgetError;
+  }
+  throw new Error('Expected a CouncilBudgetError');
+}
+
+describe('BudgetTracker', () => {
+  test('rejects consultations estimated above the per-consultation limit', () => {
+    const tracker = new BudgetTracker({ perConsultationUsd: 0.05 });
+
+    const error = captureBudgetError(() => tracker.reserve('cursor', 0.08));
+
+    expect(error.message).toMatch(/estimated cost \$0\.0800 is above the per-consultation limit/);
+    expect(error.details).toEqual({
+      budget: 'consultation',
+      limit_usd: 0.05,
+      spent_usd: 0,
+      estimated_cost_usd: 0.08,
+    });
+    expect(() => tracker.reserve('cursor', 0.05).release()).not.toThrow();
+  });
+
+  test('counts running reservations and actual spend against the daily limit', () => {
+    const tracker = new BudgetTracker({ perDayUsd: 1 });
+
+    const running = tracker.reserve('a', 0.6);
+    expect(captureBudgetError(() => tracker.reserve('b', 0.5)).details).toMatchObject({
+      budget: 'daily',
+      spent_usd: 0.6,
+    });
+
+    // Settled with the actual cost, which was lower than the estimate
+    running.commit(0.3);
+    running.commit(5); // Settling twice is ignored
+    tracker.reserve('b', 0.5).commit(0.5);
+
+    expect(tracker.getStatus()).toMatchObject({
+      limits: { per_day_usd: 1 },
+      spent_today_usd: 0.8,
+      reserved_usd: 0,
+      clients: { a: 0.3, b: 0.5 },
+    });
+  });
+
+  test('tracks each client against the per-client limit', () => {
+    const tracker = new BudgetTracker({ perClientUsd: 0.1 });
+
+    tracker.reserve('cursor', 0.08).commit(0.08);
+
+    const error = captureBudgetError(() => tracker.reserve('cursor', 0.05));
+    expect(error.message).toMatch(/client "cursor" has used \$0\.0800 of \$0\.1000 today/);
+    expect(error.details.client).toBe('cursor');
+    expect(() => tracker.reserve('claude-desktop', 0.05)).not.toThrow();
+  });
+
+  test('starts a new day at midnight UTC', () => {
+    let now = new Date('2026-03-01T23:59:00Z');
+    const tracker = new BudgetTracker({ perDayUsd: 1 }, () => now);
+
+    tracker.reserve('a', 0.9).commit(0.9);
+    expect(() => tracker.reserve('a', 0.2)).toThrowError(CouncilBudgetError);
+
+    now = new Date('2026-03-02T00:01:00Z');
+    expect(() => tracker.reserve('a', 0.2)).not.toThrow();
+    expect(tracker.getStatus()).toMatchObject({
+      day: '2026-03-02',
+      spent_today_usd: 0,
+      reserved_usd: 0.2,
+    });
+  });
+});
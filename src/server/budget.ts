@@ -0,0 +1,172 @@
+/**
+ * Spending budgets for consultations
+ *
+ * A consultation reserves its pre-dispatch estimate before any provider is called and is
+ * rejected if that would exceed a budget. When it completes, the reservation is replaced by
+ * the estimated cost of the tokens actually used. Daily totals reset at midnight UTC.
+ */
+
+import { formatUsd } from './cost.js';
+import { CouncilBudgetError } from './mcp-errors.js';
+import type { CouncilBudgetStatus } from './types.js';
+
+export interface BudgetLimits {
+  perConsultationUsd?: number;
+  perDayUsd?: number;
+  perClientUsd?: number; // Per UTC day, for each client
+}
+
+/**
+ * A consultation's hold on the budget, settled exactly once
+ */
+export interface BudgetReservation {
+  commit(actualUsd: number): void; // Record the actual cost and drop the reservation
+  release(): void; // Drop the reservation without recording a cost (e.g., the consultation failed)
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export class BudgetTracker {
+  private limits: BudgetLimits;
+  private readonly now: () => Date;
+  private day: string;
+  private spent = 0;
+  private reserved = 0;
+  private readonly clientSpent = new Map<string, number>();
+  private readonly clientReserved = new Map<string, number>();
+
+  constructor(limits: BudgetLimits, now: () => Date = () => new Date()) {
+    this.limits = limits;
+    this.now = now;
+    this.day = this.today();
+  }
+
+  /**
+   * Replaces the limits (e.g., after .env changed); amounts spent so far are kept
+   */
+  setLimits(limits: BudgetLimits): void {
+    this.limits = limits;
+  }
+
+  /**
+   * Reserves the estimated cost of a consultation
+   *
+   * @throws CouncilBudgetError if the estimate would exceed a budget
+   */
+  reserve(client: string, estimatedUsd: number): BudgetReservation {
+    this.check(client, estimatedUsd);
+    this.reserved += estimatedUsd;
+    this.clientReserved.set(client, (this.clientReserved.get(client) ?? 0) + estimatedUsd);
+
+    let settled = false;
+    const settle = (actualUsd: number) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      this.rollOver();
+      this.reserved = Math.max(0, this.reserved - estimatedUsd);
+      this.clientReserved.set(
+        client,
+        Math.max(0, (this.clientReserved.get(client) ?? 0) - estimatedUsd)
+      );
+      if (actualUsd > 0) {
+        this.spent += actualUsd;
+        this.clientSpent.set(client, (this.clientSpent.get(client) ?? 0) + actualUsd);
+      }
+    };
+
+    return {
+      commit: (actualUsd) => settle(actualUsd),
+      release: () => settle(0),
+    };
+  }
+
+  /**
+   * Checks an estimate against the budgets without reserving it
+   *
+   * @throws CouncilBudgetError if the estimate would exceed a budget
+   */
+  check(client: string, estimatedUsd: number): void {
+    this.rollOver();
+    const { perConsultationUsd, perDayUsd, perClientUsd } = this.limits;
+    const estimate = formatUsd(estimatedUsd);
+
+    if (perConsultationUsd !== undefined && estimatedUsd > perConsultationUsd) {
+      throw new CouncilBudgetError(
+        `Consultation budget exceeded: estimated cost ${estimate} is above the per-consultation limit of ${formatUsd(perConsultationUsd)}. Consult fewer models (models or preset) or shorten the context.`,
+        {
+          budget: 'consultation',
+          limit_usd: perConsultationUsd,
+          spent_usd: 0,
+          estimated_cost_usd: estimatedUsd,
+        }
+      );
+    }
+
+    const dailyUsed = roundUsd(this.spent + this.reserved);
+    if (perDayUsd !== undefined && dailyUsed + estimatedUsd > perDayUsd) {
+      throw new CouncilBudgetError(
+        `Daily budget exceeded: ${formatUsd(dailyUsed)} of ${formatUsd(perDayUsd)} is already used today and this consultation is estimated at ${estimate}. The budget resets at midnight UTC.`,
+        {
+          budget: 'daily',
+          limit_usd: perDayUsd,
+          spent_usd: dailyUsed,
+          estimated_cost_usd: estimatedUsd,
+        }
+      );
+    }
+
+    const clientUsed = roundUsd(
+      (this.clientSpent.get(client) ?? 0) + (this.clientReserved.get(client) ?? 0)
+    );
+    if (perClientUsd !== undefined && clientUsed + estimatedUsd > perClientUsd) {
+      throw new CouncilBudgetError(
+        `Client budget exceeded: client "${client}" has used ${formatUsd(clientUsed)} of ${formatUsd(perClientUsd)} today and this consultation is estimated at ${estimate}. The budget resets at midnight UTC.`,
+        {
+          budget: 'client',
+          limit_usd: perClientUsd,
+          spent_usd: clientUsed,
+          estimated_cost_usd: estimatedUsd,
+          client,
+        }
+      );
+    }
+  }
+
+  getStatus(): CouncilBudgetStatus {
+    this.rollOver();
+    const { perConsultationUsd, perDayUsd, perClientUsd } = this.limits;
+    return {
+      limits: {
+        ...(perConsultationUsd !== undefined ? { per_consultation_usd: perConsultationUsd } : {}),
+        ...(perDayUsd !== undefined ? { per_day_usd: perDayUsd } : {}),
+        ...(perClientUsd !== undefined ? { per_client_usd: perClientUsd } : {}),
+      },
+      day: this.day,
+      spent_today_usd: roundUsd(this.spent),
+      reserved_usd: roundUsd(this.reserved),
+      clients: Object.fromEntries(
+        Array.from(this.clientSpent.entries()).map(([client, spent]) => [client, roundUsd(spent)])
+      ),
+    };
+  }
+
+  private today(): string {
+    return this.now().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Starts a new day's totals at midnight UTC (reservations of running consultations carry over)
+   */
+  private rollOver(): void {
+    const today = this.today();
+    if (today !== this.day) {
+      this.day = today;
+      this.spent = 0;
+      this.clientSpent.clear();
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, describe, expect, test, vi } from 'vitest';
+import { getConfig, reloadEnvFile } from '../config.js';
+import { getCouncilModels, setCouncilConfigPath } from '../council-config.js';
+import { watchFiles } from './config-watcher.js';
+import { getCouncilProviders, getCouncilReloadStatus, reloadCouncil } from './shared.js';
+
+function ollamaMembers(...names: string[]): string {
+  return JSON.stringify({
+    members: names.map((name) => ({
+      name,
+      provider: 'ollama',
+      baseURL: 'http://127.0.0.1:1',
+      models: ['llama3.2'],
+    })),
+  });
+}
+
+describe('council hot reload', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'council-reload-'));
+  const configPath = join(dir, 'council.json');
+
+  afterAll(() => {
+    setCouncilConfigPath(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('swaps in the new provider set and keeps the old one for in-flight work', async () => {
+    writeFileSync(configPath, ollamaMembers('Local A'));
+    setCouncilConfigPath(configPath);
+
+    const first = await reloadCouncil('test');
+    const inFlight = getCouncilProviders();
+    expect(inFlight.map((provider) => provider.name)).toEqual(['Local A']);
+
+    writeFileSync(configPath, ollamaMembers('Local A', 'Local B'));
+    const second = await reloadCouncil('test');
+
+    expect(second.generation).toBe(first.generation + 1);
+    expect(second.config_source).toBe(configPath);
+    expect(second.last_reload_reason).toBe('test');
+    expect(getCouncilProviders().map((provider) => provider.name)).toEqual(['Local A', 'Local B']);
+    // A consultation that captured the previous set is unaffected
+    expect(inFlight.map((provider) => provider.name)).toEqual(['Local A']);
+  });
+
+  test('keeps the previous set and reports validation errors', async () => {
+    writeFileSync(configPath, ollamaMembers('Local A'));
+    const good = await reloadCouncil('test');
+
+    writeFileSync(configPath, '{ "members": [ { "name": "Broken", "provider": "ollama" } ] }');
+    const bad = await reloadCouncil('test');
+
+    expect(bad.generation).toBe(good.generation);
+    expect(bad.last_error).toMatch(/council\.json:1:\d+ members\[0\]\.models/);
+    expect(getCouncilProviders().map((provider) => provider.name)).toEqual(['Local A']);
+
+    writeFileSync(configPath, ollamaMembers('Local C'));
+    const fixed = await reloadCouncil('test');
+    expect(fixed.generation).toBe(good.generation + 1);
+    expect(fixed.last_error).toBeUndefined();
+    expect(getCouncilReloadStatus()).toEqual(fixed);
+  });
+
+  test('keeps the previous definition and settings when the new file fails to build', async () => {
+    writeFileSync(configPath, ollamaMembers('Local A'));
+    process.env.LLM_COUNCIL_MAX_INPUT_CHARS = '1234';
+    try {
+      await reloadCouncil('test');
+      expect(getConfig().maxInputChars).toBe(1234);
+
+      // Valid as a file, but the provider type is not registered
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          members: [{ name: 'Broken', provider: 'unregistered', apiKey: 'k', models: ['m'] }],
+        })
+      );
+      process.env.LLM_COUNCIL_MAX_INPUT_CHARS = '99';
+      const status = await reloadCouncil('test');
+
+      expect(status.last_error).toMatch(/Unknown provider type: unregistered/);
+      expect(getCouncilProviders().map((provider) => provider.name)).toEqual(['Local A']);
+      expect(getCouncilModels().map((member) => member.name)).toEqual(['Local A']);
+      expect(getConfig().maxInputChars).toBe(1234);
+    } finally {
+      delete process.env.LLM_COUNCIL_MAX_INPUT_CHARS;
+    }
+  });
+
+  test('runs concurrent reloads one after another', async () => {
+    writeFileSync(configPath, ollamaMembers('Local A'));
+    const before = getCouncilReloadStatus().generation;
+
+    const results = await Promise.all([reloadCouncil('a'), reloadCouncil('b')]);
+
+    expect(results.map((result) => result.generation)).toEqual([before + 1, before + 2]);
+  });
+
+  test('loads provider modules added since startup', async () => {
+    const modulePath = join(dir, 'reloaded.mjs');
+    writeFileSync(
+      modulePath,
+      `export default {
+        type: 'test-reloaded',
+        requiresApiKey: false,
+        create: ({ displayName, modelId }) => ({
+          name: displayName,
+          modelId,
+          query: async () => ({ content: '', provider: displayName, modelId, latencyMs: 1 }),
+          queryStream: async function* () {},
+        }),
+      };`
+    );
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        members: [{ name: 'Reloaded', provider: 'test-reloaded', models: ['r-1'] }],
+      })
+    );
+    process.env.LLM_COUNCIL_PROVIDER_MODULES = modulePath;
+    try {
+      const status = await reloadCouncil('test');
+
+      expect(status.last_error).toBeUndefined();
+      expect(getCouncilProviders().map((provider) => provider.name)).toEqual(['Reloaded']);
+    } finally {
+      delete process.env.LLM_COUNCIL_PROVIDER_MODULES;
+    }
+  });
+});
+
+describe('reloadEnvFile', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'council-env-'));
+  const envPath = join(dir, '.env');
+
+  afterEach(() => {
+    delete process.env.TEST_RELOAD_KEY;
+    delete process.env.TEST_RELOAD_OTHER;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('applies new values and unsets keys removed from the file', () => {
+    writeFileSync(envPath, 'TEST_RELOAD_KEY=first\nTEST_RELOAD_OTHER=kept\n');
+    const first = reloadEnvFile(envPath, {});
+    expect(process.env.TEST_RELOAD_KEY).toBe('first');
+
+    writeFileSync(envPath, 'TEST_RELOAD_OTHER=rotated\n');
+    const second = reloadEnvFile(envPath, first);
+
+    expect(process.env.TEST_RELOAD_KEY).toBeUndefined();
+    expect(process.env.TEST_RELOAD_OTHER).toBe('rotated');
+    expect(second).toEqual({ TEST_RELOAD_OTHER: 'rotated' });
+  });
+
+  test('keeps removed keys that were changed outside the file', () => {
+    writeFileSync(envPath, 'TEST_RELOAD_KEY=first\n');
+    const first = reloadEnvFile(envPath, {});
+    process.env.TEST_RELOAD_KEY = 'exported';
+
+    rmSync(envPath);
+    expect(reloadEnvFile(envPath, first)).toEqual({});
+    expect(process.env.TEST_RELOAD_KEY).toBe('exported');
+  });
+});
+
+describe('watchFiles', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'council-watch-'));
+  let stop: (() => void) | undefined;
+
+  afterEach(() => {
+    stop?.();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reports changes to watched files once per burst and ignores others', async () => {
+    const watched = join(dir, 'council.yaml');
+    writeFileSync(watched, 'members: []\n');
+    const onChange = vi.fn();
+    stop = watchFiles([watched], onChange, 50);
+
+    writeFileSync(join(dir, 'other.txt'), 'ignored');
+    writeFileSync(watched, 'members: [1]\n');
+    writeFileSync(watched, 'members: [2]\n');
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith(watched), { timeout: 2000 });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+
+/**
+ * Watches files for changes and calls `onChange` once per burst of events
+ *
+ * Directories are watched rather than the files themselves: editors and secret managers
+ * usually replace files (write + rename), which ends a watch on the original inode, and
+ * files that do not exist yet can still be picked up once created.
+ *
+ * @param files - Absolute file paths to watch
+ * @param onChange - Called with the changed file after `debounceMs` of quiet
+ * @returns A function that stops watching
+ */
+export function watchFiles(
+  files: string[],
+  onChange: (file: string) => void,
+  debounceMs = 250
+): () => void {
+  const filesByDir = new Map<string, Map<string, string>>();
+  for (const file of files) {
+    const dir = dirname(file);
+    const names = filesByDir.get(dir) ?? new Map<string, string>();
+    names.set(basename(file), file);
+    filesByDir.set(dir, names);
+  }
+
+  const watchers: FSWatcher[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  for (const [dir, names] of filesByDir) {
+    try {
+      const watcher = watch(dir, (_event, fileName) => {
+        const file = fileName ? names.get(fileName.toString()) : undefined;
+        if (!file) {
+          return;
+        }
+        clearTimeout(timer);
+        timer = setTimeout(() => onChange(file), debounceMs);
+      });
+      watcher.on('error', (error) => {
+        console.error(`⚠ Stopped watching ${dir}:`, error.message);
+      });
+      watchers.push(watcher);
+    } catch (error) {
+      console.error(
+        `⚠ Cannot watch ${dir}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+}
@@ -1,9 +1,22 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { describe, expect, test } from 'vitest';
-import type { Provider } from '../providers/types.js';
+import { setCouncilConfigPath } from '../council-config.js';
+import type { PresetProviders } from '../providers/index.js';
+import type { Provider, ProviderRequestOptions } from '../providers/types.js';
+import { BudgetTracker } from './budget.js';
+import { CouncilBudgetError, CouncilValidationError } from './mcp-errors.js';
 import {
+  askCouncilMemberWithProviders,
   consultCouncilWithProviders,
+  createProgressNotifier,
+  estimateConsultationWithProviders,
   listCouncilModels,
+  listCouncilPresets,
+  reserveConsultationBudget,
   selectCouncilProviders,
+  selectPresetProviders,
 } from './shared.js';
 
 function createMockProvider(name: string, modelId: string, responseText: string): Provider {
@@ -65,6 +78,333 @@ describe('consult_llm_council response shaping', () => {
     expect(result.synthesis_data?.confidence).toBeGreaterThanOrEqual(0);
     expect(result.synthesis_data?.confidence).toBeLessThanOrEqual(1);
   });
+
+  test('reports token usage and estimated cost from the price table', async () => {
+    const withUsage = (
+      provider: Provider,
+      inputTokens: number,
+      outputTokens: number
+    ): Provider => ({
+      ...provider,
+      async query(prompt, options) {
+        const response = await provider.query(prompt, options);
+        return { ...response, usage: { inputTokens, outputTokens } };
+      },
+    });
+    const providers: Provider[] = [
+      // gpt-4o is priced in council.config.ts at $2.50 in / $10 out per million tokens
+      withUsage(createMockProvider('GPT', 'gpt-4o', 'Use TypeScript.'), 2000, 500),
+      withUsage(createMockProvider('Local', 'local-test', 'Use TypeScript.'), 100, 10),
+      createMockProvider('Claude', 'claude-test', 'Use TypeScript.'),
+    ];
+
+    const result = await consultCouncilWithProviders(
+      { prompt: 'Test prompt', show_raw: true },
+      providers
+    );
+
+    expect(result.critiques[0]).toMatchObject({
+      usage: { input_tokens: 2000, output_tokens: 500 },
+      estimated_cost_usd: 0.01,
+    });
+    expect(result.critiques[1].estimated_cost_usd).toBeUndefined();
+    expect(result.critiques[2].usage).toBeUndefined();
+    expect(result.summary).toMatchObject({
+      usage: { input_tokens: 2100, output_tokens: 510 },
+      estimated_cost_usd: 0.01,
+      unpriced_models: ['local-test'],
+    });
+  });
+});
+
+describe('consult_llm_council budgets', () => {
+  test('rejects a consultation whose estimate exceeds the budget before dispatch', () => {
+    const tracker = new BudgetTracker({ perConsultationUsd: 0.02 });
+    // gpt-4o: ~25,000 prompt tokens * $2.50 + 1,024 output tokens * $10, per million tokens
+    const request = { prompt: 'x'.repeat(100_000), client: 'agent-loop' };
+
+    expect(() =>
+      reserveConsultationBudget(request, [createMockProvider('GPT', 'gpt-4o', 'OK')], { tracker })
+    ).toThrowError(CouncilBudgetError);
+
+    reserveConsultationBudget(
+      { ...request, prompt: 'Short question' },
+      [createMockProvider('GPT', 'gpt-4o', 'OK')],
+      { tracker }
+    ).commit(0.01);
+    expect(tracker.getStatus().clients).toEqual({ 'agent-loop': 0.01 });
+  });
+});
+
+describe('estimate_consultation', () => {
+  test('estimates each member from its capabilities without calling it', () => {
+    const pdf = { mediaType: 'application/pdf', filename: 'spec.pdf', data: 'JVBERi0=' };
+    const [claude, local, skipped] = estimateConsultationWithProviders(
+      { prompt: 'p'.repeat(4_000), attachments: [pdf] },
+      [
+        {
+          ...createMockProvider('Claude', 'claude-sonnet-4-5-20250929', 'OK'),
+          capabilities: {
+            imageInput: true,
+            pdfInput: true,
+            fileInput: false,
+            contextWindow: 200_000,
+          },
+        },
+        {
+          ...createMockProvider('Local', 'local-test', 'OK'),
+          capabilities: { imageInput: false, pdfInput: false, fileInput: false },
+        },
+      ]
+    ).concat(
+      estimateConsultationWithProviders(
+        { prompt: 'Short', attachments: [pdf], unsupported_attachments: 'skip' },
+        [
+          {
+            ...createMockProvider('Local', 'local-test', 'OK'),
+            capabilities: { imageInput: false, pdfInput: false, fileInput: false },
+          },
+        ]
+      )
+    );
+
+    expect(claude).toMatchObject({
+      name: 'Claude',
+      context_window: 200_000,
+      fits_context: true,
+      attachments: [{ filename: 'spec.pdf', handling: 'sent' }],
+    });
+    expect(claude.input_tokens).toBeGreaterThan(1_000);
+    expect(local).toMatchObject({ input_tokens: 1_000, attachments: [{ handling: 'stripped' }] });
+    expect(local.context_window).toBeUndefined();
+    expect(skipped).toMatchObject({
+      input_tokens: 0,
+      skip_reason: 'Cannot accept spec.pdf (application/pdf)',
+    });
+  });
+});
+
+describe('consult_llm_council attachment routing', () => {
+  test('reports how each attachment reached each model', async () => {
+    const prompts: string[] = [];
+    const textOnly: Provider = {
+      ...createMockProvider('Grok', 'grok-test', 'OK'),
+      capabilities: { imageInput: false, pdfInput: false, fileInput: false },
+      async query(prompt, options) {
+        await Promise.resolve();
+        prompts.push(prompt);
+        expect(options?.attachments).toEqual([]);
+        return { content: 'OK', provider: 'Grok', modelId: 'grok-test', latencyMs: 1 };
+      },
+    };
+    const attachments = [
+      {
+        mediaType: 'text/plain',
+        filename: 'notes.txt',
+        data: Buffer.from('hello').toString('base64'),
+      },
+      { mediaType: 'application/pdf', filename: 'spec.pdf', data: 'JVBERi0=' },
+    ];
+
+    const result = await consultCouncilWithProviders(
+      { prompt: 'Review', attachments, show_raw: true },
+      [textOnly, createMockProvider('Claude', 'claude-test', 'OK')]
+    );
+
+    expect(prompts[0]).toContain('--- Attachment: notes.txt ---\nhello');
+    expect(result.critiques[0].attachments).toEqual([
+      { filename: 'notes.txt', media_type: 'text/plain', handling: 'converted' },
+      { filename: 'spec.pdf', media_type: 'application/pdf', handling: 'stripped' },
+    ]);
+    expect(result.critiques[0].warnings).toHaveLength(2);
+    // Unknown capabilities: everything is sent unchanged
+    expect(result.critiques[1].attachments?.map((entry) => entry.handling)).toEqual([
+      'sent',
+      'sent',
+    ]);
+
+    const skipped = await consultCouncilWithProviders(
+      { prompt: 'Review', attachments, show_raw: true, unsupported_attachments: 'skip' },
+      [textOnly, createMockProvider('Claude', 'claude-test', 'OK')]
+    );
+    expect(skipped.critiques[0].skipped).toBe(true);
+    expect(skipped.critiques[0].error).toBe(
+      'Cannot accept notes.txt (text/plain), spec.pdf (application/pdf)'
+    );
+    expect(skipped.summary).toMatchObject({ models_responded: 1, models_skipped: 1 });
+  });
+});
+
+describe('consult_llm_council fallback trail', () => {
+  test('exposes the fallback trail and error class on each critique', async () => {
+    const provider: Provider = {
+      ...createMockProvider('GPT', 'gpt-4o', 'Use TS.'),
+      async query() {
+        await Promise.resolve();
+        return {
+          content: 'Use TS.',
+          provider: 'GPT',
+          modelId: 'gpt-4o',
+          latencyMs: 10,
+          fallbackTrail: [
+            { modelId: 'gpt-5.2', outcome: 'failed', errorClass: 'AI_APICallError', latencyMs: 5 },
+            { modelId: 'gpt-4o', outcome: 'success', latencyMs: 10 },
+          ],
+        };
+      },
+    };
+
+    const result = await consultCouncilWithProviders({ prompt: 'Test prompt', show_raw: true }, [
+      provider,
+    ]);
+
+    expect(result.critiques[0].fallback_trail).toEqual([
+      { model_id: 'gpt-5.2', outcome: 'failed', error_class: 'AI_APICallError', latency_ms: 5 },
+      { model_id: 'gpt-4o', outcome: 'success', latency_ms: 10 },
+    ]);
+  });
+});
+
+describe('consult_llm_council deadline', () => {
+  test('returns arrived critiques and marks late models as timed out', async () => {
+    const slow: Provider = {
+      name: 'Grok',
+      modelId: 'grok-test',
+      query: () => new Promise(() => {}),
+      async *queryStream() {},
+    };
+    const providers: Provider[] = [createMockProvider('Claude', 'claude-test', 'Use TS.'), slow];
+
+    const result = await consultCouncilWithProviders(
+      { prompt: 'Test prompt', show_raw: true, deadline_ms: 100 },
+      providers
+    );
+
+    expect(result.summary.models_responded).toBe(1);
+    expect(result.summary.models_failed).toBe(0);
+    expect(result.summary.models_timed_out).toBe(1);
+    const late = result.critiques.find((critique) => critique.model === 'Grok');
+    expect(late?.timed_out).toBe(true);
+    expect(late?.error).toContain('Timed out');
+    expect(late?.error_code).toBe('timeout');
+  });
+});
+
+describe('consult_llm_council quorum', () => {
+  test('marks skipped models in the response', async () => {
+    const slow: Provider = {
+      name: 'Gemini',
+      modelId: 'gemini-test',
+      query: () => new Promise(() => {}),
+      async *queryStream() {},
+    };
+    const providers: Provider[] = [createMockProvider('Claude', 'claude-test', 'Use TS.'), slow];
+
+    const result = await consultCouncilWithProviders(
+      { prompt: 'Test prompt', show_raw: true, quorum: 1 },
+      providers
+    );
+
+    expect(result.summary.models_responded).toBe(1);
+    expect(result.summary.models_skipped).toBe(1);
+    expect(result.critiques.find((critique) => critique.model === 'Gemini')?.skipped).toBe(true);
+  });
+
+  test('rejects a quorum larger than the selected models', async () => {
+    const providers: Provider[] = [createMockProvider('Claude', 'claude-test', 'Use TS.')];
+
+    await expect(
+      consultCouncilWithProviders({ prompt: 'Test prompt', quorum: 2 }, providers)
+    ).rejects.toThrow(/Quorum of 2 exceeds/);
+  });
+});
+
+describe('consult_llm_council sessions', () => {
+  test('replays each member its own earlier turns in a follow-up', async () => {
+    const histories: Array<ProviderRequestOptions['history']> = [];
+    const claude: Provider = {
+      ...createMockProvider('Claude', 'claude-test', 'Use TS.'),
+      memberId: 'claude',
+      query: (_prompt, options) => {
+        histories.push(options?.history);
+        return Promise.resolve({
+          content: `Answer ${histories.length}`,
+          provider: 'Claude',
+          modelId: 'claude-test',
+          latencyMs: 10,
+        });
+      },
+    };
+    const failing: Provider = {
+      ...createMockProvider('GPT', 'gpt-test', ''),
+      memberId: 'gpt',
+      query: () => Promise.reject(new Error('down')),
+    };
+
+    const first = await consultCouncilWithProviders(
+      { prompt: 'Which database?', context: 'Small app', show_raw: true },
+      [claude, failing]
+    );
+    const followUp = await consultCouncilWithProviders(
+      { prompt: 'What about backups?', session_id: first.session_id, show_raw: true },
+      [claude]
+    );
+
+    // Every consultation opens a session, without being asked to
+    expect(first.session_id).toEqual(expect.any(String));
+    expect(followUp.session_id).toBe(first.session_id);
+    expect(histories).toEqual([
+      undefined,
+      [
+        { role: 'user', content: 'Context: Small app\n\nQuestion: Which database?' },
+        { role: 'assistant', content: 'Answer 1' },
+      ],
+    ]);
+    await expect(
+      consultCouncilWithProviders({ prompt: 'Again?', session_id: 'unknown' }, [claude])
+    ).rejects.toThrow(CouncilValidationError);
+  });
+});
+
+describe('consult_llm_council progress notifications', () => {
+  test('reports progress as each model finishes', async () => {
+    const providers: Provider[] = [
+      createMockProvider('Claude', 'claude-test', 'Use TypeScript.'),
+      createMockProvider('GPT', 'gpt-test', 'Use TypeScript.'),
+    ];
+    const completed: number[] = [];
+
+    await consultCouncilWithProviders({ prompt: 'Test prompt', show_raw: true }, providers, {
+      onProgress: (params) => completed.push(params.completed),
+    });
+
+    expect(completed).toEqual([1, 2]);
+  });
+
+  test('sends MCP progress notifications only when a progressToken is present', () => {
+    const sent: unknown[] = [];
+    const sendNotification = (notification: unknown) => {
+      sent.push(notification);
+      return Promise.resolve();
+    };
+
+    expect(createProgressNotifier(undefined, sendNotification)).toBeUndefined();
+
+    const notify = createProgressNotifier('token-1', sendNotification);
+    notify?.({ providerName: 'GPT', success: true, completed: 1, total: 2 });
+
+    expect(sent).toEqual([
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-1',
+          progress: 1,
+          total: 2,
+          message: 'GPT responded (1/2)',
+        },
+      },
+    ]);
+  });
 });
 
 describe('consult_llm_council model selection', () => {
@@ -80,15 +420,51 @@ describe('consult_llm_council model selection', () => {
   });
 
   test('selects a subset of providers by alias', () => {
+    // "llama" is an alias of the configured "Llama 4 Maverick" member
     const providers: Provider[] = [
-      createMockProvider('Claude Sonnet 4.5', 'claude-test', 'Claude'),
+      createMockProvider('Claude', 'claude-test', 'Claude'),
       createMockProvider('GPT', 'gpt-test', 'GPT'),
       createMockProvider('Grok', 'grok-test', 'Grok'),
+      createMockProvider('Llama 4 Maverick', 'llama-test', 'Llama'),
     ];
 
-    const result = selectCouncilProviders(['claude', 'gpt'], providers);
+    const result = selectCouncilProviders(['claude', 'gpt', 'llama'], providers);
 
-    expect(result.map((provider) => provider.name)).toEqual(['Claude Sonnet 4.5', 'GPT']);
+    expect(result.map((provider) => provider.name)).toEqual(['Claude', 'GPT', 'Llama 4 Maverick']);
+  });
+
+  test('selects members by the aliases their provider type registers, after their own', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'council-aliases-'));
+    const configPath = join(dir, 'council.json');
+    const members = [
+      { name: 'Sonnet', provider: 'anthropic', models: ['sonnet-test'] },
+      { name: 'Opus', provider: 'anthropic', models: ['opus-test'] },
+    ];
+    const providers: Provider[] = [
+      createMockProvider('Sonnet', 'sonnet-test', 'Sonnet'),
+      createMockProvider('Opus', 'opus-test', 'Opus'),
+    ];
+    try {
+      // "claude" is registered for every anthropic member
+      writeFileSync(configPath, JSON.stringify({ members }));
+      setCouncilConfigPath(configPath);
+      expect(selectCouncilProviders(['claude'], providers)).toEqual(providers);
+      expect((await listCouncilModels(providers)).map((model) => model.aliases)).toEqual([
+        ['claude'],
+        ['claude'],
+      ]);
+
+      // A member's own alias takes precedence over the registered one
+      writeFileSync(
+        configPath,
+        JSON.stringify({ members: [members[0], { ...members[1], aliases: ['claude'] }] })
+      );
+      setCouncilConfigPath(configPath);
+      expect(selectCouncilProviders(['claude'], providers)).toEqual([providers[1]]);
+    } finally {
+      setCouncilConfigPath(undefined);
+      rmSync(dir, { recursive: true, force: true });
+    }
   });
 
   test('selects a single model by name', () => {
@@ -103,6 +479,55 @@ describe('consult_llm_council model selection', () => {
     expect(result.map((provider) => provider.name)).toEqual(['Grok']);
   });
 
+  test('selects members that share a display name by member ID', async () => {
+    const sonnet: Provider = {
+      ...createMockProvider('Claude', 'claude-sonnet-test', 'Prefer small modules.'),
+      memberId: 'claude-sonnet',
+    };
+    const opus: Provider = {
+      ...createMockProvider('Claude', 'claude-opus-test', 'Prefer one deployable.'),
+      memberId: 'claude-opus',
+    };
+
+    expect(selectCouncilProviders(['CLAUDE-OPUS'], [sonnet, opus])).toEqual([opus]);
+
+    const result = await consultCouncilWithProviders({ prompt: 'Test prompt', show_raw: true }, [
+      sonnet,
+      opus,
+    ]);
+    expect(result.critiques.map((critique) => critique.member_id)).toEqual([
+      'claude-sonnet',
+      'claude-opus',
+    ]);
+  });
+
+  test('selects every available member with a tag', () => {
+    const providers: Provider[] = [
+      createMockProvider('Claude', 'claude-test', 'Claude'),
+      createMockProvider('GPT', 'gpt-test', 'GPT'),
+      createMockProvider('Grok', 'grok-test', 'Grok'),
+    ];
+
+    // Gemini is tagged "coding" too but has no provider, so it is left out without an error
+    const result = selectCouncilProviders(['TAG:coding', 'claude'], providers);
+
+    expect(result.map((provider) => provider.name)).toEqual(['Claude', 'GPT']);
+  });
+
+  test('suggests close names and tags for unknown selectors', () => {
+    const providers: Provider[] = [
+      createMockProvider('Claude', 'claude-test', 'Claude'),
+      createMockProvider('GPT', 'gpt-test', 'GPT'),
+    ];
+
+    expect(() => selectCouncilProviders(['clade'], providers)).toThrowError(
+      /Unknown model name\(s\): clade \(did you mean "Claude"\?\)\./
+    );
+    expect(() => selectCouncilProviders(['tag:codng'], providers)).toThrowError(
+      /tag:codng \(did you mean "tag:coding"\?\)/
+    );
+  });
+
   test('throws a helpful error for invalid or unavailable models', () => {
     const providers: Provider[] = [
       createMockProvider('Claude Sonnet 4.5', 'claude-test', 'Claude'),
@@ -112,33 +537,236 @@ describe('consult_llm_council model selection', () => {
     expect(() => selectCouncilProviders(['grok', 'unknown'], providers)).toThrowError(
       /Unknown model name\(s\): unknown.*Not configured or unavailable: Grok.*Available models: Claude Sonnet 4.5, GPT\./s
     );
+    expect(() => selectCouncilProviders(['unknown'], providers)).toThrowError(
+      CouncilValidationError
+    );
+  });
+});
+
+describe('consult_llm_council presets', () => {
+  const claude = createMockProvider('Claude', 'claude-test', 'Claude');
+  const gpt = createMockProvider('GPT', 'gpt-test', 'GPT');
+  const fastGemini = createMockProvider('Gemini', 'gemini-2.5-flash', 'Gemini');
+  const presets = new Map<string, PresetProviders>([
+    [
+      'fast',
+      {
+        preset: { name: 'Fast', members: [{ name: 'Gemini', models: ['gemini-2.5-flash'] }] },
+        providers: [fastGemini],
+      },
+    ],
+    ['offline', { preset: { name: 'offline', members: ['Grok'] }, providers: [] }],
+  ]);
+
+  test('uses all providers when no preset is given', () => {
+    expect(selectPresetProviders(undefined, presets, [claude, gpt])).toEqual({
+      providers: [claude, gpt],
+    });
+  });
+
+  test('selects the preset providers case-insensitively', () => {
+    const result = selectPresetProviders('FAST', presets, [claude, gpt]);
+
+    expect(result.preset).toBe('Fast');
+    expect(result.providers).toEqual([fastGemini]);
+  });
+
+  test('rejects unknown presets and presets without available members', () => {
+    expect(() => selectPresetProviders('cheap', presets, [claude])).toThrowError(
+      /Unknown preset: cheap\. Available presets: Fast, offline\./
+    );
+    expect(() => selectPresetProviders('offline', presets, [claude])).toThrowError(
+      CouncilValidationError
+    );
+  });
+
+  test('reports the preset in the summary', async () => {
+    const result = await consultCouncilWithProviders(
+      { prompt: 'Test prompt', preset: 'Fast', show_raw: true },
+      [fastGemini]
+    );
+
+    expect(result.summary.preset).toBe('Fast');
+  });
+
+  test('lists presets with member overrides and settings', () => {
+    const listed = listCouncilPresets(
+      new Map<string, PresetProviders>([
+        [
+          'fast',
+          {
+            preset: {
+              name: 'fast',
+              description: 'Quick check',
+              members: ['gpt', { name: 'Gemini', models: ['gemini-2.5-flash'] }],
+              settings: { temperature: 0.2, maxOutputTokens: 800 },
+            },
+            providers: [fastGemini],
+          },
+        ],
+      ])
+    );
+
+    expect(listed).toEqual([
+      {
+        name: 'fast',
+        description: 'Quick check',
+        members: [
+          {
+            member_id: 'gpt',
+            name: 'GPT',
+            models: ['gpt-5.2', 'gpt-4o', 'gpt-4-turbo'],
+            available: false,
+            settings: { temperature: 0.2, max_output_tokens: 800 },
+          },
+          {
+            member_id: 'gemini',
+            name: 'Gemini',
+            models: ['gemini-2.5-flash'],
+            available: true,
+            settings: { temperature: 0.2, max_output_tokens: 800 },
+          },
+        ],
+      },
+    ]);
   });
 });
 
 describe('list_models tool behavior', () => {
-  test('lists all available council models by name', () => {
+  test('lists all available council models by name', async () => {
     const providers: Provider[] = [
       createMockProvider('Claude Sonnet 4.5', 'claude-test', 'Claude'),
       createMockProvider('GPT', 'gpt-test', 'GPT'),
     ];
 
-    const models = listCouncilModels(providers);
+    const models = await listCouncilModels(providers);
 
     expect(models).toEqual([
       { name: 'Claude Sonnet 4.5', model_id: 'claude-test' },
-      { name: 'GPT', model_id: 'gpt-test' },
+      { name: 'GPT', model_id: 'gpt-test', aliases: ['openai'], tags: ['coding', 'vision'] },
     ]);
   });
 
-  test('using listed model name selects only that model', () => {
+  test('includes cooldown state for members with a fallback chain', async () => {
+    const provider: Provider = {
+      ...createMockProvider('GPT', 'gpt-4o', 'GPT'),
+      getModelStatus: () => [
+        { modelId: 'gpt-5.2', coolingDown: true, cooldownRemainingMs: 1500 },
+        { modelId: 'gpt-4o', coolingDown: false, cooldownRemainingMs: 0 },
+      ],
+    };
+
+    const models = await listCouncilModels([provider]);
+
+    expect(models[0].fallback_chain).toEqual([
+      { model_id: 'gpt-5.2', cooling_down: true, cooldown_remaining_ms: 1500 },
+      { model_id: 'gpt-4o', cooling_down: false, cooldown_remaining_ms: 0 },
+    ]);
+  });
+
+  test('includes models discovered at the endpoint and discovery failures', async () => {
+    const local: Provider = {
+      ...createMockProvider('Local Llama', 'llama3.2', 'Local Llama'),
+      discoverModels: () => Promise.resolve(['llama3.2:latest', 'qwen2.5:7b']),
+    };
+    const offline: Provider = {
+      ...createMockProvider('Offline Llama', 'llama3.2', 'Offline Llama'),
+      discoverModels: () => Promise.reject(new Error('fetch failed')),
+    };
+
+    const models = await listCouncilModels([local, offline]);
+
+    expect(models[0].available_models).toEqual(['llama3.2:latest', 'qwen2.5:7b']);
+    expect(models[1].available_models).toBeUndefined();
+    expect(models[1].discovery_error).toBe('fetch failed');
+  });
+
+  test('using listed model name selects only that model', async () => {
     const providers: Provider[] = [
       createMockProvider('Claude Sonnet 4.5', 'claude-test', 'Claude'),
       createMockProvider('GPT', 'gpt-test', 'GPT'),
     ];
 
-    const models = listCouncilModels(providers);
+    const models = await listCouncilModels(providers);
     const selected = selectCouncilProviders([models[0].name], providers);
 
     expect(selected.map((provider) => provider.name)).toEqual([models[0].name]);
   });
 });
+
+describe('ask_council_member', () => {
+  function createRecordingProvider(name: string, histories: ProviderRequestOptions['history'][]) {
+    const provider: Provider = {
+      ...createMockProvider(name, `${name.toLowerCase()}-test`, ''),
+      query: (prompt, options) => {
+        histories.push(options?.history);
+        return Promise.resolve({
+          content: `${name} on: ${prompt}`,
+          provider: name,
+          modelId: `${name.toLowerCase()}-test`,
+          latencyMs: 10,
+        });
+      },
+    };
+    return provider;
+  }
+
+  test('follows up on a plain consultation, showing the member its own answer', async () => {
+    const claudeHistories: ProviderRequestOptions['history'][] = [];
+    const gptHistories: ProviderRequestOptions['history'][] = [];
+    const providers = [
+      createRecordingProvider('Claude', claudeHistories),
+      createRecordingProvider('GPT', gptHistories),
+    ];
+
+    // No session flags: the consultation's own session_id is all the follow-up needs
+    const consultation = await consultCouncilWithProviders(
+      { prompt: 'Which database?' },
+      providers
+    );
+    expect(consultation.session_id).toEqual(expect.any(String));
+
+    const answer = await askCouncilMemberWithProviders(
+      { member: 'claude', prompt: 'Why?', session_id: consultation.session_id },
+      providers
+    );
+    const again = await askCouncilMemberWithProviders(
+      { member: 'claude', prompt: 'Sure?', session_id: answer.session_id },
+      providers
+    );
+
+    expect(answer.session_id).toBe(consultation.session_id);
+    expect(answer.critique).toMatchObject({ model: 'Claude', response: 'Claude on: Why?' });
+    expect(claudeHistories[1]).toEqual([
+      { role: 'user', content: 'Which database?' },
+      { role: 'assistant', content: 'Claude on: Which database?' },
+    ]);
+    // Each answer is added to the session, so the next follow-up sees it too
+    expect(again.critique.response).toBe('Claude on: Sure?');
+    expect(claudeHistories[2]).toEqual([
+      { role: 'user', content: 'Which database?' },
+      { role: 'assistant', content: 'Claude on: Which database?' },
+      { role: 'user', content: 'Why?' },
+      { role: 'assistant', content: 'Claude on: Why?' },
+    ]);
+    expect(gptHistories).toHaveLength(1);
+  });
+
+  test('rejects selections of several members and members outside the session', async () => {
+    const providers = [createRecordingProvider('Claude', []), createRecordingProvider('GPT', [])];
+    const consultation = await consultCouncilWithProviders(
+      { prompt: 'Which database?', models: ['gpt'], show_raw: true },
+      [providers[1]]
+    );
+
+    await expect(
+      askCouncilMemberWithProviders({ member: 'tag:coding', prompt: 'Why?' }, providers)
+    ).rejects.toThrow(/selects 2 members/);
+    await expect(
+      askCouncilMemberWithProviders(
+        { member: 'claude', prompt: 'Why?', session_id: consultation.session_id },
+        providers
+      )
+    ).rejects.toThrow(CouncilValidationError);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Context-window handling in responses and estimates
+ */
+
+import type { ContextHandling } from '../providers/types.js';
+import type { ContextHandlingInfo } from './types.js';
+
+/**
+ * Converts the Council's context handling to the response format
+ */
+export function toContextHandlingInfo(handling: ContextHandling): ContextHandlingInfo {
+  return {
+    handling: handling.handling,
+    input_tokens: handling.inputTokens,
+    budget_tokens: handling.budgetTokens,
+    ...(handling.chunks !== undefined ? { chunks: handling.chunks } : {}),
+    ...(handling.failedChunks ? { failed_chunks: handling.failedChunks } : {}),
+    ...(handling.truncatedTokens !== undefined
+      ? { truncated_tokens: handling.truncatedTokens }
+      : {}),
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, expect, test } from 'vitest';
+import {
+  estimateCostUsd,
+  estimateUnreportedCostUsd,
+  formatUsage,
+  formatUsd,
+  summarizeUsage,
+  toUsageInfo,
+} from './cost.js';
+import type { MemberEstimate, ModelCritique } from './types.js';
+
+const pricing = { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.3 };
+
+function critique(modelId: string, overrides: Partial<ModelCritique>): ModelCritique {
+  return { model: modelId, model_id: modelId, response: 'OK', latency_ms: 10, ...overrides };
+}
+
+describe('estimateCostUsd', () => {
+  test('bills cached input at the cached price and output at the output price', () => {
+    // 800 uncached * $3 + 200 cached * $0.30 + 100 out * $15, per million tokens
+    expect(
+      estimateCostUsd({ inputTokens: 1000, cachedInputTokens: 200, outputTokens: 100 }, pricing)
+    ).toBe(0.00396);
+    expect(
+      estimateCostUsd(
+        { inputTokens: 1000, cachedInputTokens: 200, outputTokens: 100 },
+        { inputPerMillion: 3, outputPerMillion: 15 }
+      )
+    ).toBe(0.0045);
+  });
+
+  test('returns undefined without a price or an input/output split', () => {
+    expect(estimateCostUsd({ inputTokens: 10, outputTokens: 5 }, undefined)).toBeUndefined();
+    expect(estimateCostUsd({ totalTokens: 15 }, pricing)).toBeUndefined();
+  });
+});
+
+describe('summarizeUsage', () => {
+  test('adds up usage and the cost of priced critiques', () => {
+    const summary = summarizeUsage([
+      critique('claude', {
+        usage: { input_tokens: 1000, output_tokens: 100, total_tokens: 1100 },
+        estimated_cost_usd: 0.0045,
+      }),
+      critique('gpt', {
+        usage: { input_tokens: 500, output_tokens: 50, reasoning_tokens: 20, total_tokens: 550 },
+        estimated_cost_usd: 0.00175,
+      }),
+      critique('local', { usage: { input_tokens: 10, output_tokens: 2, total_tokens: 12 } }),
+      critique('grok', { response: '', error: 'Rate limited' }),
+    ]);
+
+    expect(summary).toEqual({
+      usage: { input_tokens: 1510, output_tokens: 152, reasoning_tokens: 20, total_tokens: 1662 },
+      estimated_cost_usd: 0.00625,
+      unpriced_models: ['local'],
+    });
+    expect(summarizeUsage([critique('grok', { error: 'Rate limited' })])).toEqual({});
+  });
+});
+
+describe('estimateUnreportedCostUsd', () => {
+  const estimate = (name: string): MemberEstimate => ({
+    name,
+    model_id: 'model-a',
+    input_tokens: 1_000,
+    output_tokens: 100,
+  });
+  const prices = {
+    'model-a': { inputPerMillion: 3, outputPerMillion: 15 },
+    'model-b': { inputPerMillion: 1, outputPerMillion: 5 },
+  };
+
+  test('charges the input of timed-out and cancelled attempts and aborted members', () => {
+    const cost = estimateUnreportedCostUsd(
+      [
+        {
+          content: 'OK',
+          provider: 'Hedged',
+          modelId: 'model-a',
+          latencyMs: 10,
+          fallbackTrail: [
+            { modelId: 'model-b', outcome: 'failed', errorCode: 'timeout', latencyMs: 5 },
+            { modelId: 'model-a', outcome: 'success', latencyMs: 10 },
+            { modelId: 'model-b', outcome: 'cancelled', latencyMs: 10 },
+          ],
+        },
+        {
+          content: '',
+          provider: 'Late',
+          modelId: 'model-a',
+          latencyMs: 10,
+          error: 'Timed out',
+          errorCode: 'timeout',
+        },
+        { content: '', provider: 'Skipped', modelId: 'model-a', latencyMs: 0, error: 'No PDFs' },
+      ],
+      [estimate('Hedged'), estimate('Late'), { ...estimate('Skipped'), skip_reason: 'No PDFs' }],
+      prices
+    );
+
+    // Two model-b requests at $0.001 each and one model-a request at $0.003
+    expect(cost).toBe(0.005);
+  });
+
+  test('charges nothing for failures providers reject before generating', () => {
+    const cost = estimateUnreportedCostUsd(
+      [
+        {
+          content: 'OK',
+          provider: 'Fallback',
+          modelId: 'model-a',
+          latencyMs: 10,
+          fallbackTrail: [
+            { modelId: 'model-b', outcome: 'failed', errorCode: 'auth', latencyMs: 5 },
+            { modelId: 'model-b', outcome: 'failed', errorCode: 'network', latencyMs: 5 },
+            { modelId: 'model-a', outcome: 'success', latencyMs: 10 },
+          ],
+        },
+        {
+          content: '',
+          provider: 'Limited',
+          modelId: 'model-a',
+          latencyMs: 10,
+          error: 'Too many requests',
+          errorCode: 'rate_limited',
+        },
+      ],
+      [estimate('Fallback'), estimate('Limited')],
+      prices
+    );
+
+    expect(cost).toBe(0);
+  });
+
+  test('charges output only as far as some was received', () => {
+    const aborted = (content: string) =>
+      estimateUnreportedCostUsd(
+        [
+          {
+            content,
+            provider: 'Aborted',
+            modelId: 'model-a',
+            latencyMs: 10,
+            error: 'Aborted',
+            errorCode: 'aborted',
+          },
+        ],
+        [estimate('Aborted')],
+        prices
+      );
+
+    expect(aborted('')).toBe(0.003);
+    // 40 characters are about 10 tokens at $15 per million
+    expect(aborted('x'.repeat(40))).toBe(0.00315);
+  });
+});
+
+describe('formatUsage', () => {
+  test('formats token counts and cost', () => {
+    expect(
+      formatUsage(
+        toUsageInfo({
+          inputTokens: 1200,
+          cachedInputTokens: 800,
+          outputTokens: 350,
+          reasoningTokens: 100,
+        }),
+        0.0042
+      )
+    ).toBe('1,200 in (800 cached) / 350 out (100 reasoning) · $0.0042');
+    expect(formatUsage({ total_tokens: 42 })).toBe('42 tokens');
+    expect(formatUsd(1.5)).toBe('$1.50');
+  });
+});
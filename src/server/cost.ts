@@ -0,0 +1,193 @@
+/**
+ * Token usage and cost accounting for consultations
+ */
+
+import type { ModelPricing } from '../../council.config.js';
+import { estimateTextTokens } from '../council/tokens.js';
+import type { ProviderErrorCode } from '../providers/errors.js';
+import type { ProviderResponse, TokenUsage } from '../providers/types.js';
+import type { CouncilResponse, MemberEstimate, ModelCritique, TokenUsageInfo } from './types.js';
+
+const USAGE_FIELDS = [
+  'input_tokens',
+  'output_tokens',
+  'cached_input_tokens',
+  'reasoning_tokens',
+  'total_tokens',
+] as const;
+
+/**
+ * Converts provider token usage to the response format
+ */
+export function toUsageInfo(usage: TokenUsage): TokenUsageInfo {
+  return {
+    ...(usage.inputTokens !== undefined ? { input_tokens: usage.inputTokens } : {}),
+    ...(usage.outputTokens !== undefined ? { output_tokens: usage.outputTokens } : {}),
+    ...(usage.cachedInputTokens !== undefined
+      ? { cached_input_tokens: usage.cachedInputTokens }
+      : {}),
+    ...(usage.reasoningTokens !== undefined ? { reasoning_tokens: usage.reasoningTokens } : {}),
+    ...(usage.totalTokens !== undefined ? { total_tokens: usage.totalTokens } : {}),
+  };
+}
+
+/**
+ * Estimates the cost of one query in USD
+ * Cached prompt tokens are billed at the cached price where one is set; reasoning tokens are
+ * already part of the output tokens. Returns undefined without a price or an input/output split.
+ */
+export function estimateCostUsd(
+  usage: TokenUsage,
+  pricing: ModelPricing | undefined
+): number | undefined {
+  if (!pricing || (usage.inputTokens === undefined && usage.outputTokens === undefined)) {
+    return undefined;
+  }
+  const inputTokens = usage.inputTokens ?? 0;
+  const cachedTokens = Math.min(usage.cachedInputTokens ?? 0, inputTokens);
+  const cost =
+    (inputTokens - cachedTokens) * pricing.inputPerMillion +
+    cachedTokens * (pricing.cachedInputPerMillion ?? pricing.inputPerMillion) +
+    (usage.outputTokens ?? 0) * pricing.outputPerMillion;
+  return roundUsd(cost / 1_000_000);
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Failures that come after a provider started generating. Auth errors, rate limits, connection
+ * failures and the like are rejected before any tokens are billed.
+ */
+const BILLED_ERROR_CODES: ReadonlySet<ProviderErrorCode> = new Set(['timeout', 'aborted']);
+
+function isBilledFailure(errorCode: ProviderErrorCode | undefined): boolean {
+  return errorCode !== undefined && BILLED_ERROR_CODES.has(errorCode);
+}
+
+/**
+ * Estimates the cost of the requests a consultation paid for without a reported usage
+ * These are requests that reached generation and then ended without an answer: fallback
+ * attempts that timed out or lost a hedged race, and members aborted by the deadline, the
+ * quorum or a cancellation. Each is charged its member's estimated input, priced at the model
+ * it went to; output only counts as far as some was received. Members the attachment policy
+ * skipped were never called.
+ *
+ * @param responses - The deliberation's responses
+ * @param estimates - Pre-dispatch estimates of the same members, in the same order
+ */
+export function estimateUnreportedCostUsd(
+  responses: ProviderResponse[],
+  estimates: MemberEstimate[],
+  pricing: Record<string, ModelPricing>
+): number {
+  let cost = 0;
+  responses.forEach((response, index) => {
+    const estimate = estimates[index];
+    if (!estimate || estimate.skip_reason) {
+      return;
+    }
+    const unreported: { modelId: string; usage: TokenUsage }[] = [];
+    if (response.fallbackTrail) {
+      for (const attempt of response.fallbackTrail) {
+        if (
+          attempt.outcome === 'cancelled' ||
+          (attempt.outcome === 'failed' && isBilledFailure(attempt.errorCode))
+        ) {
+          unreported.push({
+            modelId: attempt.modelId,
+            usage: { inputTokens: estimate.input_tokens },
+          });
+        }
+      }
+    } else if (response.error && isBilledFailure(response.errorCode)) {
+      unreported.push({
+        modelId: response.modelId,
+        usage: {
+          inputTokens: estimate.input_tokens,
+          outputTokens: estimateTextTokens(response.content),
+        },
+      });
+    }
+    for (const { modelId, usage } of unreported) {
+      cost += estimateCostUsd(usage, pricing[modelId]) ?? 0;
+    }
+  });
+  return roundUsd(cost);
+}
+
+/**
+ * Adds up the usage and cost of the critiques for the consultation summary
+ */
+export function summarizeUsage(
+  critiques: ModelCritique[]
+): Pick<CouncilResponse['summary'], 'usage' | 'estimated_cost_usd' | 'unpriced_models'> {
+  const withUsage = critiques.filter((critique) => critique.usage);
+  if (withUsage.length === 0) {
+    return {};
+  }
+
+  const usage: TokenUsageInfo = {};
+  for (const critique of withUsage) {
+    for (const field of USAGE_FIELDS) {
+      const value = critique.usage?.[field];
+      if (value !== undefined) {
+        usage[field] = (usage[field] ?? 0) + value;
+      }
+    }
+  }
+
+  const priced = withUsage.filter((critique) => critique.estimated_cost_usd !== undefined);
+  const unpriced = Array.from(
+    new Set(
+      withUsage
+        .filter((critique) => critique.estimated_cost_usd === undefined)
+        .map((critique) => critique.model_id)
+    )
+  );
+
+  return {
+    usage,
+    ...(priced.length > 0
+      ? {
+          estimated_cost_usd: roundUsd(
+            priced.reduce((sum, critique) => sum + (critique.estimated_cost_usd ?? 0), 0)
+          ),
+        }
+      : {}),
+    ...(unpriced.length > 0 ? { unpriced_models: unpriced } : {}),
+  };
+}
+
+/**
+ * Formats usage and cost for text output (e.g., "1,200 in (800 cached) / 350 out · $0.0042")
+ */
+export function formatUsage(usage: TokenUsageInfo, costUsd?: number): string {
+  const parts: string[] = [];
+  if (usage.input_tokens !== undefined) {
+    const cached = usage.cached_input_tokens
+      ? ` (${usage.cached_input_tokens.toLocaleString('en-US')} cached)`
+      : '';
+    parts.push(`${usage.input_tokens.toLocaleString('en-US')} in${cached}`);
+  }
+  if (usage.output_tokens !== undefined) {
+    const reasoning = usage.reasoning_tokens
+      ? ` (${usage.reasoning_tokens.toLocaleString('en-US')} reasoning)`
+      : '';
+    parts.push(`${usage.output_tokens.toLocaleString('en-US')} out${reasoning}`);
+  }
+  if (parts.length === 0 && usage.total_tokens !== undefined) {
+    parts.push(`${usage.total_tokens.toLocaleString('en-US')} tokens`);
+  }
+
+  const tokens = parts.join(' / ');
+  return costUsd !== undefined ? `${tokens} · ${formatUsd(costUsd)}` : tokens;
+}
+
+/**
+ * Formats a dollar amount with enough precision for sub-cent queries
+ */
+export function formatUsd(value: number): string {
+  return `$${value >= 1 ? value.toFixed(2) : value.toFixed(4)}`;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'vitest';
+import type { ProviderCapabilities } from '../providers/registry.js';
+import type { Provider } from '../providers/types.js';
+import { estimateAttachmentTokens } from '../council/tokens.js';
+import { estimateInputTokens, estimateMember, summarizeEstimates } from './estimate.js';
+
+function provider(modelId: string, capabilities?: ProviderCapabilities): Provider {
+  return {
+    name: modelId,
+    modelId,
+    ...(capabilities ? { capabilities } : {}),
+    query: () => Promise.reject(new Error('not called')),
+    queryStream: () => ({
+      [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(new Error('not called')) }),
+    }),
+  };
+}
+
+describe('estimateInputTokens', () => {
+  test('counts prompt, context and attachments', () => {
+    const data = Buffer.from('x'.repeat(4000)).toString('base64');
+
+    expect(
+      estimateInputTokens({
+        prompt: 'p'.repeat(400),
+        context: 'c'.repeat(800),
+        attachments: [
+          { mediaType: 'text/plain', data },
+          { mediaType: 'image/png', url: 'https://example.com/diagram.png' },
+        ],
+      })
+    ).toBe(100 + 200 + 1000 + 1600);
+  });
+
+  test('counts data URLs by their decoded size and unsized URLs as zero', () => {
+    const data = `data:application/json;base64,${Buffer.from('{}'.repeat(200)).toString('base64')}`;
+
+    expect(estimateAttachmentTokens({ mediaType: 'application/json', data })).toBe(100);
+    expect(
+      estimateAttachmentTokens({ mediaType: 'application/pdf', url: 'https://example.com/a.pdf' })
+    ).toBe(0);
+  });
+});
+
+describe('estimateMember', () => {
+  const pricing = { 'model-a': { inputPerMillion: 2, outputPerMillion: 10 } };
+  const textOnly = { imageInput: false, pdfInput: false, fileInput: false };
+
+  test('counts the system prompt and prices at the primary model', () => {
+    // 10,000 in * $2 + 1,000 out * $10, per million tokens
+    expect(
+      estimateMember(
+        provider('model-a', textOnly),
+        { prompt: 'p'.repeat(39_600) },
+        {
+          settings: { systemPrompt: 's'.repeat(400), maxOutputTokens: 1_000 },
+          outputTokens: 1_024,
+          pricing,
+          attachmentPolicy: 'convert',
+          maxContextChunks: 8,
+        }
+      )
+    ).toEqual({
+      name: 'model-a',
+      model_id: 'model-a',
+      input_tokens: 10_000,
+      output_tokens: 1_000,
+      estimated_cost_usd: 0.03,
+    });
+  });
+
+  test('leaves unsupported attachments out and truncates a prompt over the context window', () => {
+    const estimate = estimateMember(
+      provider('local', { ...textOnly, contextWindow: 8_192, maxOutputTokens: 512 }),
+      {
+        prompt: 'p'.repeat(40_000),
+        attachments: [
+          { mediaType: 'image/png', filename: 'diagram.png', url: 'https://example.com/d.png' },
+        ],
+      },
+      { outputTokens: 1_024, pricing, attachmentPolicy: 'convert', maxContextChunks: 8 }
+    );
+
+    // 8,192 less 512 reserved for output and 200 for instructions
+    expect(estimate).toMatchObject({
+      input_tokens: 7_480,
+      output_tokens: 512, // Capped by the model's maximum
+      context_window: 8_192,
+      fits_context: false,
+      attachments: [{ filename: 'diagram.png', media_type: 'image/png', handling: 'stripped' }],
+      context: {
+        handling: 'truncated',
+        input_tokens: 10_000,
+        budget_tokens: 7_480,
+        truncated_tokens: 2_520,
+      },
+    });
+    expect(estimate.estimated_cost_usd).toBeUndefined();
+    expect(estimate.warnings).toHaveLength(2);
+  });
+
+  test('counts one request per context chunk plus the merge', () => {
+    const estimate = estimateMember(
+      provider('local', { ...textOnly, contextWindow: 8_192, maxOutputTokens: 512 }),
+      { prompt: 'p'.repeat(400), context: 'c'.repeat(60_000) },
+      { outputTokens: 1_024, pricing, attachmentPolicy: 'convert', maxContextChunks: 8 }
+    );
+
+    expect(estimate).toMatchObject({
+      output_tokens: 512 * 4,
+      fits_context: false,
+      context: { handling: 'chunked', input_tokens: 15_100, budget_tokens: 7_380, chunks: 3 },
+    });
+    expect(estimate.input_tokens).toBeGreaterThan(15_100);
+  });
+
+  test("counts the member's earlier turns in the session", () => {
+    const history = [
+      { role: 'user' as const, content: 'q'.repeat(4_000) },
+      { role: 'assistant' as const, content: 'a'.repeat(8_000) },
+    ];
+
+    expect(
+      estimateMember(
+        provider('model-a', textOnly),
+        { prompt: 'p'.repeat(400) },
+        { outputTokens: 1_000, pricing, attachmentPolicy: 'convert', maxContextChunks: 8, history }
+      )
+    ).toMatchObject({ input_tokens: 100 + 1_000 + 2_000, output_tokens: 1_000 });
+  });
+});
+
+describe('summarizeEstimates', () => {
+  test('totals members and lists unpriced models once', () => {
+    const member = { name: 'Local', model_id: 'local', input_tokens: 10, output_tokens: 5 };
+
+    expect(
+      summarizeEstimates([
+        { ...member, name: 'A', model_id: 'model-a', estimated_cost_usd: 0.01 },
+        member,
+        { ...member, name: 'Local (Critic)' },
+      ])
+    ).toEqual({
+      input_tokens: 30,
+      output_tokens: 15,
+      estimated_cost_usd: 0.01,
+      unpriced_models: ['local'],
+    });
+  });
+});
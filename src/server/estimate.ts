@@ -0,0 +1,188 @@
+/**
+ * Pre-dispatch token and cost estimates for consultations
+ * Counts are approximations (see council/tokens.ts); no provider is called.
+ */
+
+import type { ModelPricing } from '../../council.config.js';
+import { routeAttachments } from '../council/attachments.js';
+import { buildChunkPrompt, describeContextHandling, planContext } from '../council/context.js';
+import { estimateAttachmentTokens, estimateTextTokens } from '../council/tokens.js';
+import type { AttachmentPolicy } from '../council/types.js';
+import type { ConversationTurn, GenerationSettings, Provider } from '../providers/types.js';
+import { toAttachmentRoutingInfo } from './attachments.js';
+import { toContextHandlingInfo } from './context.js';
+import { estimateCostUsd } from './cost.js';
+import type { ConsultationEstimate, CouncilRequest, MemberEstimate } from './types.js';
+
+/**
+ * Estimates the prompt tokens each member receives: prompt, context and attachments
+ */
+export function estimateInputTokens(
+  request: Pick<CouncilRequest, 'prompt' | 'context' | 'attachments'>
+): number {
+  return (
+    estimateTextTokens(request.prompt) +
+    (request.context ? estimateTextTokens(request.context) : 0) +
+    (request.attachments ?? []).reduce(
+      (sum, attachment) => sum + estimateAttachmentTokens(attachment),
+      0
+    )
+  );
+}
+
+/**
+ * What an estimate needs to know about a member besides its provider
+ */
+export interface MemberEstimateOptions {
+  settings?: GenerationSettings; // Member, per-model and preset settings, merged
+  outputTokens: number; // Assumed output when the settings set no maxOutputTokens
+  pricing: Record<string, ModelPricing>;
+  attachmentPolicy: AttachmentPolicy;
+  maxContextChunks: number;
+  history?: ConversationTurn[]; // The member's earlier turns in the session, replayed with every request
+}
+
+/**
+ * Estimates the tokens, context-window fit and cost of one member's answer
+ * Attachments are routed as the Council would route them (see routeAttachments): text
+ * conversions count as prompt text and stripped attachments are left out. A member the
+ * policy would skip is estimated at zero tokens with a skip_reason. Context that does not
+ * fit the window is planned as the Council would plan it (see planContext): truncated, or
+ * chunked and counted as one request per chunk plus the merge. Earlier turns of a session
+ * count towards every request, as far as they fit the window.
+ */
+export function estimateMember(
+  provider: Provider,
+  request: Pick<CouncilRequest, 'prompt' | 'context' | 'attachments'>,
+  options: MemberEstimateOptions
+): MemberEstimate {
+  const { settings } = options;
+  const capabilities = provider.capabilities;
+  const route = routeAttachments(
+    request.prompt,
+    request.attachments,
+    capabilities,
+    options.attachmentPolicy
+  );
+  const identity = {
+    ...(provider.memberId ? { member_id: provider.memberId } : {}),
+    name: provider.name,
+    model_id: provider.modelId,
+  };
+  const attachments =
+    route.handling.length > 0 ? { attachments: toAttachmentRoutingInfo(route.handling) } : {};
+  if (route.skipReason) {
+    return {
+      ...identity,
+      input_tokens: 0,
+      output_tokens: 0,
+      ...attachments,
+      skip_reason: route.skipReason,
+    };
+  }
+
+  const warnings = [...route.warnings];
+  const systemTokens = settings?.systemPrompt ? estimateTextTokens(settings.systemPrompt) : 0;
+  const attachmentTokens = estimateInputTokens({ prompt: '', attachments: route.attachments });
+  const answerTokens = Math.min(
+    settings?.maxOutputTokens ?? options.outputTokens,
+    capabilities?.maxOutputTokens ?? Infinity
+  );
+  const plan = planContext(route.prompt, request.context, {
+    capabilities,
+    attachments: route.attachments,
+    history: options.history,
+    maxChunks: options.maxContextChunks,
+  });
+  const historyTokens = (plan.history ?? []).reduce(
+    (sum, turn) => sum + estimateTextTokens(turn.content),
+    0
+  );
+
+  let inputTokens: number;
+  let outputTokens: number;
+  if (plan.chunks && plan.handling) {
+    // One request per chunk plus the merge request, which reads every chunk's notes
+    const question = route.prompt;
+    const chunks = plan.chunks;
+    const noteTokens = Math.min(
+      answerTokens,
+      Math.floor(plan.handling.budgetTokens / chunks.length)
+    );
+    inputTokens =
+      chunks.reduce(
+        (sum, chunk, index) =>
+          sum +
+          estimateTextTokens(buildChunkPrompt(question, chunk, index, chunks.length)) +
+          attachmentTokens,
+        0
+      ) +
+      estimateTextTokens(question) +
+      noteTokens * chunks.length +
+      (systemTokens + historyTokens) * (chunks.length + 1);
+    outputTokens = answerTokens * (chunks.length + 1);
+  } else {
+    inputTokens = estimateTextTokens(plan.prompt) + attachmentTokens + systemTokens + historyTokens;
+    outputTokens = answerTokens;
+  }
+
+  // Whether the request fits as sent, before any truncation or chunking
+  const contextWindow = capabilities?.contextWindow;
+  const requestedTokens =
+    estimateInputTokens({
+      prompt: route.prompt,
+      context: request.context,
+      attachments: route.attachments,
+    }) +
+    systemTokens +
+    historyTokens +
+    answerTokens;
+  const fitsContext = contextWindow !== undefined ? requestedTokens <= contextWindow : undefined;
+  if (plan.handling) {
+    warnings.push(describeContextHandling(plan.handling));
+  } else if (fitsContext === false) {
+    warnings.push(
+      `Estimated ${requestedTokens} tokens exceed the ${contextWindow}-token context window`
+    );
+  }
+  const costUsd = estimateCostUsd({ inputTokens, outputTokens }, options.pricing[provider.modelId]);
+
+  return {
+    ...identity,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    ...(contextWindow !== undefined
+      ? { context_window: contextWindow, fits_context: fitsContext }
+      : {}),
+    ...(costUsd !== undefined ? { estimated_cost_usd: costUsd } : {}),
+    ...attachments,
+    ...(plan.handling ? { context: toContextHandlingInfo(plan.handling) } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+/**
+ * Totals member estimates for the estimate summary
+ */
+export function summarizeEstimates(
+  members: MemberEstimate[]
+): Pick<
+  ConsultationEstimate['summary'],
+  'input_tokens' | 'output_tokens' | 'estimated_cost_usd' | 'unpriced_models'
+> {
+  const unpriced = Array.from(
+    new Set(
+      members
+        .filter((member) => member.estimated_cost_usd === undefined && !member.skip_reason)
+        .map((member) => member.model_id)
+    )
+  );
+  return {
+    input_tokens: members.reduce((sum, member) => sum + member.input_tokens, 0),
+    output_tokens: members.reduce((sum, member) => sum + member.output_tokens, 0),
+    estimated_cost_usd:
+      Math.round(members.reduce((sum, member) => sum + (member.estimated_cost_usd ?? 0), 0) * 1e6) /
+      1e6,
+    ...(unpriced.length > 0 ? { unpriced_models: unpriced } : {}),
+  };
+}
@@ -13,14 +13,22 @@ import { createMcpExpressApp } from '@modelcontextprotocol/sdk/server/express.js
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import helmet from 'helmet';
-import { mcpServer, initializeCouncil, getCouncilProviders } from './shared.js';
-import { getMissingApiKeys, loadConfig } from '../config.js';
+import {
+  mcpServer,
+  initializeCouncil,
+  getCouncilProviders,
+  getCooldownState,
+  getCouncilReloadStatus,
+  getBudgetStatus,
+  watchCouncilConfig,
+} from './shared.js';
+import { getConfig } from '../config.js';
+import { getMissingApiKeys } from '../providers/index.js';
+import { parseConfigFlag, setCouncilConfigPath } from '../council-config.js';
 import { mcpRateLimiter, healthCheckRateLimiter } from './rate-limit.js';
 import { validateOrigin } from './origin.js';
 
 // Load configuration
-const config = loadConfig();
-
 // Create Express app with MCP defaults
 const app = createMcpExpressApp({
   host: '127.0.0.1', // Enable DNS rebinding protection
@@ -56,9 +64,17 @@ app.get('/health', healthCheckRateLimiter, (_req: Request, res: Response) => {
       initialized: councilProviders.length > 0,
       models_available: councilProviders.length,
       model_names: councilProviders.map((p) => p.name),
+      members: councilProviders.map((p) => ({
+        ...(p.memberId ? { member_id: p.memberId } : {}),
+        name: p.name,
+        model_id: p.modelId,
+        fallback_chain: getCooldownState(p),
+      })),
+      reload: getCouncilReloadStatus(),
     },
+    budget: getBudgetStatus(),
     config: {
-      debug: config.debug,
+      debug: getConfig().debug,
     },
     ...(missingKeys.length > 0 ? { warnings: { missing_api_keys: missingKeys } } : {}),
   };
@@ -102,7 +118,7 @@ app.post('/mcp', mcpRateLimiter, async (req: Request, res: Response) => {
         error: {
           code: -32603,
           message: 'Internal error',
-          ...(config.debug ? { data: { message: errorMessage } } : {}),
+          ...(getConfig().debug ? { data: { message: errorMessage } } : {}),
         },
       };
       res.status(200).json(errorPayload);
@@ -139,7 +155,10 @@ app.get('/mcp', mcpRateLimiter, async (_req: Request, res: Response) => {
 });
 
 // Start server
-function startServer() {
+async function startServer() {
+  // Runtime council config file (--config <path>), read before the Council is built
+  setCouncilConfigPath(parseConfigFlag(process.argv.slice(2)));
+
   // Validate API keys
   const missingKeys = getMissingApiKeys();
   if (missingKeys.length > 0) {
@@ -147,8 +166,13 @@ function startServer() {
     console.error('Some Council models may not be available.\n');
   }
 
-  // Initialize Council
-  initializeCouncil();
+  // Initialize Council (loads extra provider modules first)
+  await initializeCouncil();
+
+  // Rebuild the Council on SIGHUP or when .env / the config file changes
+  if (getConfig().watchConfig) {
+    watchCouncilConfig();
+  }
 
   // Start listening
   const port = parseInt(process.env.PORT || '3000');
@@ -161,9 +185,7 @@ function startServer() {
 }
 
 // Handle errors
-try {
-  startServer();
-} catch (error) {
+startServer().catch((error: unknown) => {
   console.error('Failed to start server:', error);
   process.exit(1);
-}
+});
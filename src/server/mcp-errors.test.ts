@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'vitest';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { toMcpError } from './mcp-errors.js';
+import { CouncilBudgetError, CouncilValidationError, toMcpError } from './mcp-errors.js';
 
 describe('toMcpError', () => {
   test('wraps errors as MCP InternalError', () => {
@@ -19,4 +19,26 @@ describe('toMcpError', () => {
 
     expect(mcpError.data).toEqual({ message: 'details' });
   });
+
+  test('maps validation failures to InvalidParams with the message intact', () => {
+    const error = new CouncilValidationError('Unknown model name(s): foo.');
+    const mcpError = toMcpError(error, false);
+
+    expect(mcpError.code).toBe(ErrorCode.InvalidParams);
+    expect(mcpError.message).toContain('Unknown model name(s): foo.');
+  });
+
+  test('maps budget rejections to InvalidRequest with the budget details', () => {
+    const details = {
+      budget: 'daily' as const,
+      limit_usd: 5,
+      spent_usd: 4.99,
+      estimated_cost_usd: 0.04,
+    };
+    const mcpError = toMcpError(new CouncilBudgetError('Daily budget exceeded', details), false);
+
+    expect(mcpError.code).toBe(ErrorCode.InvalidRequest);
+    expect(mcpError.message).toContain('Daily budget exceeded');
+    expect(mcpError.data).toEqual(details);
+  });
 });
@@ -1,6 +1,48 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 
+/**
+ * Raised when a consultation request is invalid (unknown models, bad attachments, ...)
+ * Surfaced to MCP clients as InvalidParams with the message intact
+ */
+export class CouncilValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouncilValidationError';
+  }
+}
+
+/**
+ * Details of a budget that a consultation would exceed, returned as MCP error data
+ */
+export interface BudgetExceededDetails {
+  budget: 'consultation' | 'daily' | 'client';
+  limit_usd: number;
+  spent_usd: number; // Already spent (or reserved by running consultations) in the budget period
+  estimated_cost_usd: number; // Estimate for the rejected consultation
+  client?: string; // Present for the per-client budget
+}
+
+/**
+ * Raised before dispatch when a consultation would exceed a spending budget
+ * Surfaced to MCP clients as InvalidRequest with the budget details as error data
+ */
+export class CouncilBudgetError extends Error {
+  public readonly details: BudgetExceededDetails;
+
+  constructor(message: string, details: BudgetExceededDetails) {
+    super(message);
+    this.name = 'CouncilBudgetError';
+    this.details = details;
+  }
+}
+
 export function toMcpError(error: unknown, debug: boolean): McpError {
+  if (error instanceof CouncilValidationError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  if (error instanceof CouncilBudgetError) {
+    return new McpError(ErrorCode.InvalidRequest, error.message, error.details);
+  }
   const message = error instanceof Error ? error.message : String(error);
   const data = debug ? { message } : undefined;
   return new McpError(ErrorCode.InternalError, 'Council consultation failed', data);
@@ -5,18 +5,15 @@
  * injection attacks, data leakage, and other security vulnerabilities.
  */
 
-// Maximum lengths for inputs (prevent memory exhaustion)
-const MAX_PROMPT_LENGTH = 10000;
-const MAX_CONTEXT_LENGTH = 5000;
-
 /**
- * Sanitize text input by removing control characters and enforcing length limits
+ * Sanitize text input by removing control characters and optionally enforcing a length limit
+ * Council requests are not truncated here: the Council fits them into each member's context window
  *
  * @param text - The text to sanitize
- * @param maxLength - Maximum allowed length (default: 10000)
+ * @param maxLength - Optional maximum allowed length
  * @returns Sanitized text
  */
-export function sanitizeInput(text: string, maxLength: number = MAX_PROMPT_LENGTH): string {
+export function sanitizeInput(text: string, maxLength?: number): string {
   if (!text) {
     return '';
   }
@@ -80,8 +77,8 @@ export function sanitizeCouncilRequest(
   context?: string;
   injectionDetected: boolean;
 } {
-  const sanitizedPrompt = sanitizeInput(prompt, MAX_PROMPT_LENGTH);
-  const sanitizedContext = context ? sanitizeInput(context, MAX_CONTEXT_LENGTH) : undefined;
+  const sanitizedPrompt = sanitizeInput(prompt);
+  const sanitizedContext = context ? sanitizeInput(context) : undefined;
 
   // Check for injection attempts in both prompt and context
   const injectionDetected =
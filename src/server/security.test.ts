@@ -9,6 +9,8 @@
  */
 
 import { describe, test, expect } from 'vitest';
+import type { Provider } from '../providers/types.js';
+import { CouncilValidationError } from './mcp-errors.js';
 import {
   sanitizeInput,
   detectInjection,
@@ -17,6 +19,7 @@ import {
   redactSensitiveData,
   sanitizeCouncilResponse,
 } from './sanitize.js';
+import { consultCouncilWithProviders } from './shared.js';
 
 describe('Input Sanitization', () => {
   test('removes control characters', () => {
@@ -29,10 +32,9 @@ describe('Input Sanitization', () => {
     expect(sanitizeInput(input)).toBe('Hello\nWorld\tTest');
   });
 
-  test('enforces length limits', () => {
+  test('does not truncate by default', () => {
     const longInput = 'a'.repeat(20000);
-    const sanitized = sanitizeInput(longInput);
-    expect(sanitized.length).toBeLessThanOrEqual(10000);
+    expect(sanitizeInput(longInput)).toHaveLength(20000);
   });
 
   test('trims whitespace', () => {
@@ -49,6 +51,27 @@ describe('Input Sanitization', () => {
     const sanitized = sanitizeInput(input, 500);
     expect(sanitized.length).toBe(500);
   });
+
+  test('rejects prompt and context over the input limit', async () => {
+    const provider: Provider = {
+      name: 'Claude',
+      modelId: 'claude-test',
+      query: () =>
+        Promise.resolve({
+          content: 'Use TS.',
+          provider: 'Claude',
+          modelId: 'claude-test',
+          latencyMs: 10,
+        }),
+      async *queryStream() {},
+    };
+
+    await expect(
+      consultCouncilWithProviders({ prompt: 'Test prompt', context: 'c'.repeat(1_000_000) }, [
+        provider,
+      ])
+    ).rejects.toThrow(CouncilValidationError);
+  });
 });
 
 describe('Injection Detection', () => {
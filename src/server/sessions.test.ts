@@ -0,0 +1,113 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, test } from 'vitest';
+import { CouncilValidationError } from './mcp-errors.js';
+import { FileSessionStore, MemorySessionStore, SessionManager } from './sessions.js';
+
+const turns = [
+  { role: 'user' as const, content: 'Which database?' },
+  { role: 'assistant' as const, content: 'Postgres.' },
+];
+
+describe('SessionManager', () => {
+  test('opens a new session and continues it after recording turns', async () => {
+    const sessions = new SessionManager(new MemorySessionStore(), 60_000);
+
+    const session = await sessions.open();
+    await sessions.record(session, { claude: turns });
+    const followUp = await sessions.open(session.id);
+    await sessions.record(followUp, { claude: turns, gpt: turns });
+
+    expect((await sessions.open(session.id)).turns).toEqual({
+      claude: [...turns, ...turns],
+      gpt: turns,
+    });
+  });
+
+  test('rejects unknown and expired sessions', async () => {
+    let now = new Date('2026-01-01T00:00:00Z');
+    const sessions = new SessionManager(new MemorySessionStore(), 60_000, () => now);
+    const session = await sessions.open();
+    await sessions.record(session, { claude: turns });
+
+    await expect(sessions.open('missing')).rejects.toThrow(CouncilValidationError);
+    now = new Date('2026-01-01T00:00:59Z');
+    await sessions.record(await sessions.open(session.id), {});
+    now = new Date('2026-01-01T00:01:58Z'); // The follow-up pushed the expiry back
+    await expect(sessions.open(session.id)).resolves.toMatchObject({ id: session.id });
+    now = new Date('2026-01-01T00:02:00Z');
+    await expect(sessions.open(session.id)).rejects.toThrow(/Unknown or expired/);
+  });
+
+  test('closes a session once', async () => {
+    const sessions = new SessionManager(new MemorySessionStore(), 60_000);
+    const session = await sessions.open();
+    await sessions.record(session, { claude: turns });
+
+    expect(await sessions.close(session.id)).toBe(true);
+    expect(await sessions.close(session.id)).toBe(false);
+    await expect(sessions.open(session.id)).rejects.toThrow(CouncilValidationError);
+  });
+
+  test('keeps the turns of concurrent follow-ups and does not revive closed sessions', async () => {
+    const sessions = new SessionManager(new MemorySessionStore(), 60_000);
+    const session = await sessions.open();
+    await sessions.record(session, { claude: turns });
+
+    const first = await sessions.open(session.id);
+    const second = await sessions.open(session.id);
+    await Promise.all([
+      sessions.record(first, { claude: turns }),
+      sessions.record(second, { gpt: turns }),
+    ]);
+    expect((await sessions.open(session.id)).turns).toEqual({
+      claude: [...turns, ...turns],
+      gpt: turns,
+    });
+
+    const late = await sessions.open(session.id);
+    await sessions.close(session.id);
+    expect(await sessions.record(late, { claude: turns })).toBeUndefined();
+    await expect(sessions.open(session.id)).rejects.toThrow(CouncilValidationError);
+  });
+});
+
+describe('FileSessionStore', () => {
+  test('keeps sessions as files and ignores IDs that are not session IDs', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'llm-council-sessions-'));
+    try {
+      const sessions = new SessionManager(new FileSessionStore(directory), 60_000);
+      const session = await sessions.open();
+      await sessions.record(session, { claude: turns });
+
+      const reopened = new SessionManager(new FileSessionStore(directory), 60_000);
+      expect((await reopened.open(session.id)).turns).toEqual({ claude: turns });
+      expect(await readdir(directory)).toEqual([`${session.id}.json`]);
+      await expect(reopened.open('../escape')).rejects.toThrow(CouncilValidationError);
+
+      expect(await reopened.close(session.id)).toBe(true);
+      expect(await readdir(directory)).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('skips unreadable session files when listing', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'llm-council-sessions-'));
+    try {
+      const store = new FileSessionStore(directory);
+      const sessions = new SessionManager(store, 60_000);
+      const session = await sessions.open();
+      await sessions.record(session, { claude: turns });
+      await writeFile(join(directory, '00000000-0000-0000-0000-000000000000.json'), '{"id":');
+
+      expect((await store.list()).map((listed) => listed.id)).toEqual([session.id]);
+      await expect(new SessionManager(store, 60_000).open(session.id)).resolves.toMatchObject({
+        id: session.id,
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
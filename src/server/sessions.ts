@@ -0,0 +1,303 @@
+/**
+ * Multi-turn council sessions
+ *
+ * A session keeps each member's own conversation, so a follow-up consultation replays what
+ * the member was asked and answered before. Sessions expire after a period without use and
+ * live in a pluggable store: in memory (the default) or as JSON files on disk.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { ConversationTurn } from '../providers/types.js';
+import { CouncilValidationError } from './mcp-errors.js';
+
+export interface CouncilSession {
+  id: string;
+  createdAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp; pushed back every time the session is used
+  turns: Record<string, ConversationTurn[]>; // Each member's conversation, keyed by member ID
+}
+
+/**
+ * Where sessions are kept
+ * Implement this to keep sessions elsewhere (e.g., a shared cache for several servers).
+ */
+export interface SessionStore {
+  get(id: string): Promise<CouncilSession | undefined>;
+  set(session: CouncilSession): Promise<void>;
+  delete(id: string): Promise<boolean>; // False if there was no such session
+  list(): Promise<CouncilSession[]>;
+}
+
+/**
+ * Keeps sessions in memory; they are lost when the server stops
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, CouncilSession>();
+
+  get(id: string): Promise<CouncilSession | undefined> {
+    return Promise.resolve(this.sessions.get(id));
+  }
+
+  set(session: CouncilSession): Promise<void> {
+    this.sessions.set(session.id, session);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.sessions.delete(id));
+  }
+
+  list(): Promise<CouncilSession[]> {
+    return Promise.resolve(Array.from(this.sessions.values()));
+  }
+}
+
+/**
+ * Session IDs the disk store accepts, so an ID can never name a path outside its directory
+ */
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Keeps each session as a JSON file in a directory, so sessions survive restarts
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private path(id: string): string | undefined {
+    return SESSION_ID_PATTERN.test(id) ? join(this.directory, `${id}.json`) : undefined;
+  }
+
+  async get(id: string): Promise<CouncilSession | undefined> {
+    const path = this.path(id);
+    if (!path) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as CouncilSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Failed to read council session ${id}`, { cause: error });
+    }
+  }
+
+  async set(session: CouncilSession): Promise<void> {
+    const path = this.path(session.id);
+    if (!path) {
+      throw new Error(`Invalid council session ID: ${session.id}`);
+    }
+    // Written aside and renamed into place, so readers never see a half-written file
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    try {
+      await writeFile(temporary, JSON.stringify(session), { mode: 0o600 });
+      await rename(temporary, path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const path = this.path(id);
+    if (!path || !(await this.get(id))) {
+      return false;
+    }
+    await rm(path, { force: true });
+    return true;
+  }
+
+  /**
+   * Lists the readable sessions; a file that cannot be read (e.g., left truncated by a crash)
+   * is skipped rather than failing the whole list
+   */
+  async list(): Promise<CouncilSession[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const sessions = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.get(file.slice(0, -'.json'.length)).catch(() => undefined))
+    );
+    return sessions.filter((session): session is CouncilSession => session !== undefined);
+  }
+}
+
+/**
+ * How often expired sessions are looked for
+ */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Opens, extends and closes sessions on top of a store
+ * Changes to one session are made one at a time, so concurrent follow-ups never drop each
+ * other's turns and a session closed mid-consultation stays closed.
+ */
+export class SessionManager {
+  private readonly store: SessionStore;
+  private ttlMs: number;
+  private readonly now: () => Date;
+  private lastSweep = 0;
+  private readonly created = new WeakSet<CouncilSession>(); // New sessions not saved yet
+  private readonly locks = new Map<string, Promise<void>>();
+
+  constructor(store: SessionStore, ttlMs: number, now: () => Date = () => new Date()) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+    this.now = now;
+  }
+
+  /**
+   * Replaces the TTL (e.g., after .env changed); applies from each session's next use
+   */
+  setTtl(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+  }
+
+  private isExpired(session: CouncilSession): boolean {
+    return Date.parse(session.expiresAt) <= this.now().getTime();
+  }
+
+  /**
+   * Runs a change to one session after the changes already queued for it
+   */
+  private async withLock<T>(id: string, change: () => Promise<T>): Promise<T> {
+    const queued = (this.locks.get(id) ?? Promise.resolve()).then(change);
+    const settled = queued.then(
+      () => undefined,
+      () => undefined
+    );
+    this.locks.set(id, settled);
+    try {
+      return await queued;
+    } finally {
+      if (this.locks.get(id) === settled) {
+        this.locks.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Returns the session with the given ID, or a new one if no ID is given
+   *
+   * @throws CouncilValidationError if the session is unknown or has expired
+   */
+  async open(id?: string): Promise<CouncilSession> {
+    await this.sweep();
+    if (id === undefined) {
+      const now = this.now();
+      const session: CouncilSession = {
+        id: randomUUID(),
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+        turns: {},
+      };
+      this.created.add(session);
+      return session;
+    }
+
+    const session = await this.store.get(id);
+    if (!session || this.isExpired(session)) {
+      if (session) {
+        await this.store.delete(id);
+      }
+      throw new CouncilValidationError(
+        `Unknown or expired council session: ${id}. Start a new consultation without session_id.`
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Appends each member's new turns, pushes back the expiry and saves the session
+   * The turns are appended to the session as stored now, which may hold turns recorded by a
+   * concurrent follow-up since the session was opened.
+   *
+   * @returns Undefined if the session was closed while the consultation ran
+   */
+  async record(
+    session: CouncilSession,
+    turns: Record<string, ConversationTurn[]>
+  ): Promise<CouncilSession | undefined> {
+    return this.withLock(session.id, async () => {
+      const isNew = this.created.delete(session);
+      const current = isNew ? session : await this.store.get(session.id);
+      if (!current) {
+        return undefined;
+      }
+
+      const updated: CouncilSession = {
+        ...current,
+        expiresAt: new Date(this.now().getTime() + this.ttlMs).toISOString(),
+        turns: { ...current.turns },
+      };
+      for (const [member, memberTurns] of Object.entries(turns)) {
+        updated.turns[member] = [...(updated.turns[member] ?? []), ...memberTurns];
+      }
+      await this.store.set(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Deletes a session
+   *
+   * @returns False if the session was unknown or had already expired
+   */
+  async close(id: string): Promise<boolean> {
+    return this.withLock(id, async () => {
+      const session = await this.store.get(id);
+      if (!session) {
+        return false;
+      }
+      await this.store.delete(id);
+      return !this.isExpired(session);
+    });
+  }
+
+  /**
+   * Deletes expired sessions, at most once a minute
+   */
+  private async sweep(): Promise<void> {
+    const now = this.now().getTime();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    const sessions = await this.store.list();
+    await Promise.all(
+      sessions
+        .filter((session) => this.isExpired(session))
+        .map((session) =>
+          // Checked again in turn, in case a follow-up extended the session meanwhile
+          this.withLock(session.id, async () => {
+            const current = await this.store.get(session.id).catch(() => undefined);
+            if (current && this.isExpired(current)) {
+              await this.store.delete(session.id);
+            }
+          })
+        )
+    );
+  }
+}
+
+/**
+ * Creates the store chosen by LLM_COUNCIL_SESSION_STORE
+ */
+export function createSessionStore(kind: 'memory' | 'disk', directory: string): SessionStore {
+  return kind === 'disk' ? new FileSessionStore(directory) : new MemorySessionStore();
+}
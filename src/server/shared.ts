@@ -6,35 +6,118 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { IsomorphicHeaders, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { Council } from '../council/index.js';
-import { Provider } from '../providers/types.js';
-import { createCouncilProviders } from '../providers/index.js';
-import { loadConfig } from '../config.js';
-import { COUNCIL_MODELS } from '../../council.config.js';
-import { CouncilRequest, CouncilResponse, ModelCritique } from './types.js';
-import { normalizeAttachments } from './attachments.js';
+import { ATTACHMENT_POLICIES } from '../council/attachments.js';
+import { buildPrompt } from '../council/context.js';
+import { Council, getMemberKey } from '../council/index.js';
+import type { ProgressCallback } from '../council/types.js';
+import { ConversationTurn, Provider } from '../providers/types.js';
+import {
+  createCouncilPresetProviders,
+  createCouncilProviders,
+  getProviderRegistration,
+  loadProviderModules,
+  mergeGenerationSettings,
+  requiresApiKey,
+  resolveApiKey,
+  type GenerationSettings,
+  type PresetProviders,
+} from '../providers/index.js';
+import { Config, getConfig, loadConfig, readEnvFile, reloadEnvFile, setConfig } from '../config.js';
+import {
+  getCouncilConfigSource,
+  getCouncilConfigWatchPaths,
+  expandPersonas,
+  findCouncilMember,
+  getCouncilModels,
+  getCouncilPricing,
+  getMemberId,
+  readCouncilDefinition,
+  setCouncilDefinition,
+} from '../council-config.js';
+import { ENV_FILE_PATH, type ModelConfig, type PresetConfig } from '../../council.config.js';
+import {
+  ConsultationEstimate,
+  CouncilBudgetStatus,
+  CouncilModelInfo,
+  CouncilPresetInfo,
+  CloseSessionResult,
+  CouncilReloadStatus,
+  CouncilRequest,
+  CouncilResponse,
+  FallbackTrailEntry,
+  MemberAnswer,
+  MemberEstimate,
+  MemberQuestionRequest,
+  ModelCooldownState,
+  ModelCritique,
+} from './types.js';
+import { normalizeAttachments, toAttachmentRoutingInfo } from './attachments.js';
+import { toContextHandlingInfo } from './context.js';
 import { sanitizeCouncilRequest, sanitizeCouncilResponse } from './sanitize.js';
-import { toMcpError } from './mcp-errors.js';
+import { CouncilBudgetError, CouncilValidationError, toMcpError } from './mcp-errors.js';
 import { extractSynthesisData } from './synthesis.js';
-
-// Load configuration
-const config = loadConfig();
+import { watchFiles } from './config-watcher.js';
+import { suggestClosest } from './suggest.js';
+import {
+  estimateCostUsd,
+  estimateUnreportedCostUsd,
+  formatUsage,
+  formatUsd,
+  summarizeUsage,
+  toUsageInfo,
+} from './cost.js';
+import { BudgetLimits, BudgetReservation, BudgetTracker } from './budget.js';
+import { estimateMember, summarizeEstimates } from './estimate.js';
+import { createSessionStore, SessionManager } from './sessions.js';
 
 // Council providers (initialized lazily)
 let councilProviders: Provider[] = [];
+let councilPresets = new Map<string, PresetProviders>();
 let councilInitialized = false;
 
+function getBudgetLimits(source: Config): BudgetLimits {
+  return {
+    perConsultationUsd: source.budgetPerConsultationUsd,
+    perDayUsd: source.budgetPerDayUsd,
+    perClientUsd: source.budgetPerClientUsd,
+  };
+}
+
+// Spending is tracked for the life of the process, across reloads
+const budgetTracker = new BudgetTracker(getBudgetLimits(getConfig()));
+
+// Sessions outlive reloads; only their TTL follows .env changes
+const { sessionStore, sessionDir, sessionTtlMs } = getConfig();
+const councilSessions = new SessionManager(
+  createSessionStore(sessionStore, sessionDir),
+  sessionTtlMs
+);
+
+/**
+ * Client a consultation is charged to when the request does not name one
+ */
+const DEFAULT_CLIENT = 'unknown';
+
+/**
+ * Header that names the client for per-client budgets (takes precedence over MCP clientInfo)
+ */
+const CLIENT_HEADER = 'x-llm-council-client';
+
 /**
  * Initialize Council providers
+ * Extra provider modules (LLM_COUNCIL_PROVIDER_MODULES) are registered before members are built
  */
-export function initializeCouncil(): void {
+export async function initializeCouncil(): Promise<void> {
   if (councilInitialized) {
     return;
   }
 
   try {
+    await loadProviderModules(getConfig().providerModules);
     councilProviders = createCouncilProviders();
+    councilPresets = createCouncilPresetProviders();
     councilInitialized = true;
     console.error(`✓ Council initialized with ${councilProviders.length} models`);
   } catch (error) {
@@ -43,6 +126,318 @@ export function initializeCouncil(): void {
   }
 }
 
+/**
+ * Values of .env in effect at startup, then those the last reload applied, so keys removed
+ * from the file can be unset
+ */
+function getStartupEnvFileValues(): Record<string, string> {
+  try {
+    return Object.fromEntries(
+      Object.entries(readEnvFile(ENV_FILE_PATH)).filter(
+        ([key, value]) => process.env[key] === value
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+let envFileValues = getStartupEnvFileValues();
+let councilGeneration = 0;
+let lastReload: Omit<CouncilReloadStatus, 'generation' | 'config_source'> = {};
+let reloadQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Rebuilds the Council from the current .env and config file
+ * Provider modules added to LLM_COUNCIL_PROVIDER_MODULES are loaded first; modules already
+ * loaded stay registered.
+ *
+ * The new provider set is built completely before it replaces the old one, so a
+ * consultation either sees the old set or the new one. Consultations already running
+ * keep the providers they started with. If the config is invalid or building fails,
+ * the previous set, definition, settings and limits stay active and the error is reported
+ * in /health.
+ * Concurrent reloads run one after another.
+ *
+ * @param reason - What triggered the reload (shown in /health)
+ */
+export function reloadCouncil(reason: string): Promise<CouncilReloadStatus> {
+  const run = async (): Promise<CouncilReloadStatus> => {
+    try {
+      // Pick up rotated keys and drop removed ones; values in .env win over the previous ones
+      envFileValues = reloadEnvFile(ENV_FILE_PATH, envFileValues);
+      const reloadedConfig = loadConfig();
+      await loadProviderModules(reloadedConfig.providerModules);
+      // Build from the new files first; nothing is replaced unless every step succeeds
+      const read = readCouncilDefinition();
+      const { members, presets: presetConfigs } = read.definition;
+      const providers = createCouncilProviders(members, reloadedConfig.fallbackCooldownMs);
+      const presets = createCouncilPresetProviders(
+        presetConfigs,
+        members,
+        reloadedConfig.fallbackCooldownMs
+      );
+
+      setConfig(reloadedConfig);
+      setCouncilDefinition(read);
+      budgetTracker.setLimits(getBudgetLimits(reloadedConfig));
+      councilSessions.setTtl(reloadedConfig.sessionTtlMs);
+      councilProviders = providers;
+      councilPresets = presets;
+      councilInitialized = true;
+      councilGeneration++;
+      lastReload = { last_reload_at: new Date().toISOString(), last_reload_reason: reason };
+      console.error(
+        `✓ Council reloaded (${reason}): generation ${councilGeneration}, ${providers.length} models`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      lastReload = { ...lastReload, last_error: message, last_error_at: new Date().toISOString() };
+      console.error(`✗ Council reload failed (${reason}), keeping the previous configuration:`);
+      console.error(message);
+    }
+    return getCouncilReloadStatus();
+  };
+
+  const result = reloadQueue.then(run, run);
+  reloadQueue = result;
+  return result;
+}
+
+/**
+ * Reports the reload generation and the outcome of the last reload
+ */
+export function getCouncilReloadStatus(): CouncilReloadStatus {
+  return {
+    generation: councilGeneration,
+    config_source: getCouncilConfigSource(),
+    ...lastReload,
+  };
+}
+
+/**
+ * Reloads the Council on SIGHUP and whenever .env or the council config file changes
+ *
+ * @returns A function that stops watching
+ */
+export function watchCouncilConfig(): () => void {
+  const stopWatching = watchFiles([ENV_FILE_PATH, ...getCouncilConfigWatchPaths()], (file) => {
+    void reloadCouncil(`changed: ${file}`);
+  });
+  const onSighup = () => {
+    void reloadCouncil('SIGHUP');
+  };
+  process.on('SIGHUP', onSighup);
+
+  return () => {
+    stopWatching();
+    process.off('SIGHUP', onSighup);
+  };
+}
+
+/**
+ * Reports spending budgets and today's spend (for health checks)
+ */
+export function getBudgetStatus(): CouncilBudgetStatus {
+  return budgetTracker.getStatus();
+}
+
+/**
+ * Names the client a consultation is charged to: the x-llm-council-client header, then the
+ * name the MCP client gave at initialization
+ */
+export function resolveClientId(headers?: IsomorphicHeaders): string {
+  const header = headers?.[CLIENT_HEADER];
+  const fromHeader = (Array.isArray(header) ? header[0] : header)?.trim();
+  return fromHeader || mcpServer.server.getClientVersion()?.name || DEFAULT_CLIENT;
+}
+
+/**
+ * Reserves the estimated cost of consulting the providers against the spending budgets
+ * (see estimateConsultationWithProviders for how the estimate is made)
+ *
+ * @throws CouncilBudgetError if a budget would be exceeded
+ */
+export function reserveConsultationBudget(
+  request: CouncilRequest,
+  providers: Provider[],
+  options: {
+    preset?: PresetConfig;
+    history?: Record<string, ConversationTurn[]>;
+    tracker?: BudgetTracker;
+  } = {}
+): BudgetReservation {
+  const { estimated_cost_usd: estimatedUsd } = summarizeEstimates(
+    estimateConsultationWithProviders(request, providers, options.preset, options.history)
+  );
+  return (options.tracker ?? budgetTracker).reserve(request.client ?? DEFAULT_CLIENT, estimatedUsd);
+}
+
+/**
+ * Finds the configured member (or persona) behind a provider
+ */
+function findProviderSeat(provider: Provider, seats: ModelConfig[]): ModelConfig | undefined {
+  return seats.find((seat) =>
+    provider.memberId ? getMemberId(seat) === provider.memberId : seat.name === provider.name
+  );
+}
+
+/**
+ * Returns the settings a preset applies to one seat: the preset's, then its member entry's
+ */
+function getPresetSettings(
+  preset: PresetConfig,
+  seatId: string,
+  members: ModelConfig[]
+): GenerationSettings | undefined {
+  for (const entry of preset.members) {
+    const override = typeof entry === 'string' ? { name: entry } : entry;
+    const member = findCouncilMember(members, override.name);
+    if (member && expandPersonas(member).some((seat) => getMemberId(seat) === seatId)) {
+      return mergeGenerationSettings(preset.settings, override.settings);
+    }
+  }
+  return preset.settings;
+}
+
+/**
+ * Estimates each provider's share of a consultation without calling it
+ * Tokens are approximated from the prompt, context, routed attachments and the member's
+ * system prompt; output is the member's maxOutputTokens or LLM_COUNCIL_ESTIMATE_OUTPUT_TOKENS.
+ * Each provider is priced at its primary model.
+ *
+ * @param preset - Preset the providers were built for, so its settings are taken into account
+ * @param history - Earlier turns of the session, keyed by getMemberKey(); replayed with every request
+ */
+export function estimateConsultationWithProviders(
+  request: CouncilRequest,
+  providers: Provider[],
+  preset?: PresetConfig,
+  history?: Record<string, ConversationTurn[]>
+): MemberEstimate[] {
+  const members = getCouncilModels();
+  const seats = members.flatMap(expandPersonas);
+  const pricing = getCouncilPricing();
+
+  const config = getConfig();
+  return providers.map((provider) => {
+    const seat = findProviderSeat(provider, seats);
+    const settings = seat
+      ? mergeGenerationSettings(
+          seat.settings,
+          seat.modelSettings?.[provider.modelId],
+          preset ? getPresetSettings(preset, getMemberId(seat), members) : undefined
+        )
+      : undefined;
+    return estimateMember(provider, request, {
+      settings,
+      outputTokens: config.estimateOutputTokens,
+      pricing,
+      attachmentPolicy: request.unsupported_attachments ?? config.unsupportedAttachments,
+      maxContextChunks: config.maxContextChunks,
+      history: history?.[getMemberKey(provider)],
+    });
+  });
+}
+
+/**
+ * Lists configured members (of the preset, if one is given) that have no provider
+ */
+function findSkippedMembers(
+  providers: Provider[],
+  preset?: PresetConfig
+): ConsultationEstimate['skipped'] {
+  const members = getCouncilModels();
+  const scope = preset
+    ? preset.members
+        .map((entry) => findCouncilMember(members, typeof entry === 'string' ? entry : entry.name))
+        .filter((member): member is ModelConfig => member !== undefined)
+    : members;
+  const seats = scope.flatMap(expandPersonas);
+
+  return seats
+    .filter((seat) => !providers.some((provider) => findProviderSeat(provider, [seat])))
+    .map((seat) => ({
+      member_id: getMemberId(seat),
+      name: seat.name,
+      reason:
+        !resolveApiKey(seat) && requiresApiKey(seat.provider)
+          ? 'No API key configured'
+          : 'Not available',
+    }));
+}
+
+/**
+ * Estimates a consultation with the same arguments as consult_llm_council, without calling
+ * any provider: per-member tokens, context-window fit, cost, attachment routing, members
+ * that would be skipped, and whether a spending budget would reject it
+ * With a session_id, each member's earlier turns in the session are counted too.
+ */
+export async function estimateConsultation(request: CouncilRequest): Promise<ConsultationEstimate> {
+  if (!councilInitialized || councilProviders.length === 0) {
+    throw new Error('LLM Council not initialized. Please wait for server startup.');
+  }
+  checkInputSize(request);
+
+  const { preset, providers } = selectPresetProviders(
+    request.preset,
+    councilPresets,
+    councilProviders
+  );
+  const selectedProviders = selectCouncilProviders(request.models, providers);
+  const presetConfig = preset ? councilPresets.get(preset.toLowerCase())?.preset : undefined;
+
+  const history =
+    request.session_id !== undefined
+      ? (await councilSessions.open(request.session_id)).turns
+      : undefined;
+  const estimates = estimateConsultationWithProviders(
+    request,
+    selectedProviders,
+    presetConfig,
+    history
+  );
+  const members = estimates.filter((member) => !member.skip_reason);
+  // An explicit selection fails on unavailable members instead, as consult_llm_council does
+  const skipped = [
+    ...(request.models?.length ? [] : findSkippedMembers(providers, presetConfig)),
+    ...estimates.flatMap((member) =>
+      member.skip_reason
+        ? [
+            {
+              member_id: member.member_id ?? member.name,
+              name: member.name,
+              reason: member.skip_reason,
+            },
+          ]
+        : []
+    ),
+  ];
+  const totals = summarizeEstimates(members);
+
+  let budget: ConsultationEstimate['summary']['budget'] = { allowed: true };
+  try {
+    budgetTracker.check(request.client ?? DEFAULT_CLIENT, totals.estimated_cost_usd);
+  } catch (error) {
+    if (!(error instanceof CouncilBudgetError)) {
+      throw error;
+    }
+    budget = { allowed: false, error: error.message };
+  }
+
+  return {
+    members,
+    skipped,
+    summary: {
+      members_consulted: members.length,
+      members_skipped: skipped.length,
+      ...totals,
+      ...(preset ? { preset } : {}),
+      budget,
+    },
+  };
+}
+
 /**
  * Get Council providers (for health checks)
  */
@@ -57,22 +452,121 @@ export function isCouncilInitialized(): boolean {
   return councilInitialized;
 }
 
-const MODEL_ALIASES: Record<string, string> = {
-  claude: 'Claude Sonnet 4.5',
-  gpt: 'GPT',
-  gemini: 'Gemini',
-  grok: 'Grok',
-  llama: 'Llama 4 Maverick',
-};
+/**
+ * Returns the providers of a named preset, or all providers when no preset is given
+ */
+export function selectPresetProviders(
+  presetName: string | undefined,
+  presets: Map<string, PresetProviders>,
+  providers: Provider[]
+): { preset?: string; providers: Provider[] } {
+  if (presetName === undefined) {
+    return { providers };
+  }
 
-const configuredModelsByName = new Map(
-  COUNCIL_MODELS.map((model) => [normalizeModelName(model.name), model.name])
-);
+  const entry = presets.get(normalizeModelName(presetName));
+  if (!entry) {
+    const availablePresets = Array.from(presets.values())
+      .map(({ preset }) => preset.name)
+      .sort();
+    throw new CouncilValidationError(
+      `Unknown preset: ${presetName}. Available presets: ${availablePresets.join(', ') || 'none'}.`
+    );
+  }
+  if (entry.providers.length === 0) {
+    throw new CouncilValidationError(
+      `Preset ${entry.preset.name} has no available members (check their API keys).`
+    );
+  }
+  return { preset: entry.preset.name, providers: entry.providers };
+}
 
 function normalizeModelName(value: string): string {
   return value.trim().toLowerCase();
 }
 
+const TAG_PREFIX = 'tag:';
+
+/**
+ * Identifies a provider in selections: its member ID, or its display name for providers
+ * that do not belong to a configured member
+ */
+function getProviderKey(provider: Provider): string {
+  return normalizeModelName(provider.memberId ?? provider.name);
+}
+
+/**
+ * A member's aliases: its own `aliases`, then those its provider type registers (e.g.,
+ * "claude" for every anthropic member), leaving out repeats of its ID or name
+ */
+function getMemberAliases(member: ModelConfig): string[] {
+  const taken = new Set([getMemberId(member), normalizeModelName(member.name)]);
+  const aliases: string[] = [];
+  for (const alias of [
+    ...(member.aliases ?? []),
+    ...(getProviderRegistration(member.provider)?.aliases ?? []),
+  ]) {
+    if (!taken.has(normalizeModelName(alias))) {
+      taken.add(normalizeModelName(alias));
+      aliases.push(alias);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Maps a requested selector to configured members: a member ID, a display name (which
+ * several members may share), one of a member's `aliases`, an alias its provider type
+ * registers, or "tag:<tag>"
+ */
+function resolveConfiguredMembers(normalized: string): ModelConfig[] {
+  const members = getCouncilModels();
+  if (normalized.startsWith(TAG_PREFIX)) {
+    const tag = normalized.slice(TAG_PREFIX.length).trim();
+    return members.filter((model) =>
+      model.tags?.some((candidate) => normalizeModelName(candidate) === tag)
+    );
+  }
+
+  const byId = members.filter((model) => getMemberId(model) === normalized);
+  if (byId.length > 0) {
+    return byId;
+  }
+  const byName = members.filter((model) => normalizeModelName(model.name) === normalized);
+  if (byName.length > 0) {
+    return byName;
+  }
+  const byAlias = members.filter((model) =>
+    model.aliases?.some((alias) => normalizeModelName(alias) === normalized)
+  );
+  if (byAlias.length > 0) {
+    return byAlias;
+  }
+  return members.filter((model) =>
+    getProviderRegistration(model.provider)?.aliases?.some(
+      (alias) => normalizeModelName(alias) === normalized
+    )
+  );
+}
+
+/**
+ * Formats an unknown name with "did you mean" suggestions drawn from member IDs, names and
+ * aliases (or from configured tags for "tag:" selectors)
+ */
+function describeUnknownName(rawModel: string, providers: Provider[]): string {
+  const members = getCouncilModels();
+  const candidates = normalizeModelName(rawModel).startsWith(TAG_PREFIX)
+    ? members.flatMap((model) => (model.tags ?? []).map((tag) => `${TAG_PREFIX}${tag}`))
+    : [
+        ...providers.map((provider) => provider.memberId ?? provider.name),
+        ...members.flatMap((model) => [getMemberId(model), model.name, ...getMemberAliases(model)]),
+      ];
+  const suggestions = suggestClosest(rawModel, candidates);
+  return suggestions.length > 0
+    ? `${rawModel} (did you mean ${suggestions.map((name) => `"${name}"`).join(' or ')}?)`
+    : rawModel;
+}
+
 export function selectCouncilProviders(
   requestedModels: string[] | undefined,
   providers: Provider[]
@@ -81,13 +575,31 @@ export function selectCouncilProviders(
     return providers;
   }
 
-  const providersByName = new Map(
-    providers.map((provider) => [normalizeModelName(provider.name), provider])
-  );
+  const providersByKey = new Map(providers.map((provider) => [getProviderKey(provider), provider]));
+  // A member with personas is seated once per persona, so selecting it selects all of them
+  const findMemberProviders = (member: ModelConfig): Provider[] =>
+    expandPersonas(member).flatMap((seat) => {
+      const provider =
+        providersByKey.get(getMemberId(seat)) ??
+        providers.find(
+          (candidate) =>
+            !candidate.memberId &&
+            normalizeModelName(candidate.name) === normalizeModelName(seat.name)
+        );
+      return provider ? [provider] : [];
+    });
+
   const selected: Provider[] = [];
   const seen = new Set<string>();
   const unknown: string[] = [];
   const unavailable: string[] = [];
+  const select = (provider: Provider) => {
+    const key = getProviderKey(provider);
+    if (!seen.has(key)) {
+      selected.push(provider);
+      seen.add(key);
+    }
+  };
 
   for (const rawModel of requestedModels) {
     const normalized = normalizeModelName(rawModel);
@@ -95,63 +607,148 @@ export function selectCouncilProviders(
       continue;
     }
 
-    const directProvider = providersByName.get(normalized);
+    const directProvider = providersByKey.get(normalized);
     if (directProvider) {
-      if (!seen.has(directProvider.name)) {
-        selected.push(directProvider);
-        seen.add(directProvider.name);
-      }
+      select(directProvider);
       continue;
     }
 
-    const canonicalName = MODEL_ALIASES[normalized] ?? configuredModelsByName.get(normalized);
-
-    if (!canonicalName) {
+    const members = resolveConfiguredMembers(normalized);
+    if (members.length === 0) {
       unknown.push(rawModel);
       continue;
     }
 
-    const provider = providersByName.get(normalizeModelName(canonicalName));
-    if (!provider) {
-      unavailable.push(canonicalName);
+    const matches = members.flatMap(findMemberProviders);
+    if (matches.length === 0) {
+      unavailable.push(...members.map((member) => member.name));
       continue;
     }
 
-    if (!seen.has(provider.name)) {
-      selected.push(provider);
-      seen.add(provider.name);
-    }
+    matches.forEach(select);
   }
 
   if (unknown.length > 0 || unavailable.length > 0) {
-    const availableNames = providers.map((provider) => provider.name).sort();
+    const availableNames = providers.map((provider) => provider.memberId ?? provider.name).sort();
     const unknownList = Array.from(new Set(unknown));
     const unavailableList = Array.from(new Set(unavailable));
 
     let message = 'Requested models are not available.';
     if (unknownList.length > 0) {
-      message += ` Unknown model name(s): ${unknownList.join(', ')}.`;
+      message += ` Unknown model name(s): ${unknownList
+        .map((name) => describeUnknownName(name, providers))
+        .join(', ')}.`;
     }
     if (unavailableList.length > 0) {
       message += ` Not configured or unavailable: ${unavailableList.join(', ')}.`;
     }
     message += ` Available models: ${availableNames.join(', ') || 'none'}.`;
-    throw new Error(message);
+    throw new CouncilValidationError(message);
   }
 
   if (selected.length === 0) {
-    throw new Error('No matching Council models found for the request.');
+    throw new CouncilValidationError('No matching Council models found for the request.');
   }
 
   return selected;
 }
 
-export function listCouncilModels(
-  providers: Provider[]
-): Array<{ name: string; model_id: string }> {
-  return providers.map((provider) => ({
-    name: provider.name,
-    model_id: provider.modelId,
+/**
+ * Reports the cooldown state of each model behind a provider (empty if not a fallback chain)
+ */
+export function getCooldownState(provider: Provider): ModelCooldownState[] {
+  return (provider.getModelStatus?.() ?? []).map((status) => ({
+    model_id: status.modelId,
+    cooling_down: status.coolingDown,
+    cooldown_remaining_ms: status.cooldownRemainingMs,
+  }));
+}
+
+/**
+ * Lists Council members with cooldown state and, where supported, the models discovered
+ * at each member's endpoint
+ *
+ * @param signal - Optional abort signal for the discovery requests
+ */
+export async function listCouncilModels(
+  providers: Provider[],
+  signal?: AbortSignal
+): Promise<CouncilModelInfo[]> {
+  const members = getCouncilModels().flatMap(expandPersonas);
+  return Promise.all(
+    providers.map(async (provider) => {
+      const member = members.find((model) =>
+        provider.memberId ? getMemberId(model) === provider.memberId : model.name === provider.name
+      );
+      const aliases = member ? getMemberAliases(member) : [];
+      const fallbackChain = getCooldownState(provider);
+      let availableModels: string[] | undefined;
+      let discoveryError: string | undefined;
+      try {
+        availableModels = await provider.discoverModels?.(signal);
+      } catch (error) {
+        discoveryError = error instanceof Error ? error.message : String(error);
+      }
+      return {
+        ...(provider.memberId ? { member_id: provider.memberId } : {}),
+        name: provider.name,
+        model_id: provider.modelId,
+        ...(aliases.length > 0 ? { aliases } : {}),
+        ...(member?.tags?.length ? { tags: member.tags } : {}),
+        ...(fallbackChain.length > 0 ? { fallback_chain: fallbackChain } : {}),
+        ...(availableModels ? { available_models: availableModels } : {}),
+        ...(discoveryError ? { discovery_error: discoveryError } : {}),
+      };
+    })
+  );
+}
+
+function toSettingsInfo(
+  settings: GenerationSettings | undefined
+): CouncilPresetInfo['members'][number]['settings'] {
+  if (!settings) {
+    return undefined;
+  }
+  return {
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+    ...(settings.maxOutputTokens !== undefined
+      ? { max_output_tokens: settings.maxOutputTokens }
+      : {}),
+    ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+    ...(settings.seed !== undefined ? { seed: settings.seed } : {}),
+    ...(settings.stopSequences ? { stop_sequences: settings.stopSequences } : {}),
+    ...(settings.systemPrompt !== undefined ? { system_prompt: settings.systemPrompt } : {}),
+    ...(settings.providerOptions ? { provider_options: settings.providerOptions } : {}),
+  };
+}
+
+/**
+ * Lists presets with the model chain and the preset settings each member gets
+ */
+export function listCouncilPresets(presets: Map<string, PresetProviders>): CouncilPresetInfo[] {
+  const members = getCouncilModels();
+  return Array.from(presets.values()).map(({ preset, providers }) => ({
+    name: preset.name,
+    ...(preset.description ? { description: preset.description } : {}),
+    members: preset.members.map((entry) => {
+      const override = typeof entry === 'string' ? { name: entry } : entry;
+      const member = findCouncilMember(members, override.name);
+      const memberId = member ? getMemberId(member) : normalizeModelName(override.name);
+      const name = member?.name ?? override.name;
+      const settings = toSettingsInfo(mergeGenerationSettings(preset.settings, override.settings));
+      const seatIds = new Set(member ? expandPersonas(member).map(getMemberId) : [memberId]);
+      return {
+        member_id: memberId,
+        name,
+        models: override.models ?? member?.models ?? [],
+        available: providers.some((provider) =>
+          provider.memberId
+            ? seatIds.has(provider.memberId)
+            : normalizeModelName(provider.name) === normalizeModelName(name)
+        ),
+        ...(settings ? { settings } : {}),
+      };
+    }),
   }));
 }
 
@@ -184,36 +781,123 @@ const ConsultLlmCouncilInputSchema = z
       )
       .optional()
       .describe('Optional file attachments to include with the consultation'),
+    unsupported_attachments: z
+      .enum(ATTACHMENT_POLICIES)
+      .optional()
+      .describe(
+        'What to do with attachments a model cannot accept: "convert" text files to prompt text and strip the rest (default), "strip" them, or "skip" the model'
+      ),
     show_raw: z
       .boolean()
       .optional()
       .describe('If true, skip synthesis data and return only raw model responses'),
+    preset: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Optional named preset (see list_models); uses its members, model overrides and settings'
+      ),
     models: z
       .array(z.string().min(1))
       .optional()
-      .describe('Optional list of model identifiers to consult (e.g., ["claude", "gpt"])'),
+      .describe(
+        'Optional list of model names, aliases or "tag:<tag>" selectors to consult (e.g., ["claude", "tag:coding"])'
+      ),
+    deadline_ms: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Optional deadline in milliseconds; models still running are aborted and the responses that already arrived are returned'
+      ),
+    quorum: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Optional number of successful responses to wait for; remaining models are aborted and marked as skipped'
+      ),
+    session_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Optional session_id of an earlier consultation; each model sees its own earlier questions and answers'
+      ),
   })
   .strict();
 
 type ConsultLlmCouncilInput = z.infer<typeof ConsultLlmCouncilInputSchema>;
 
+const CloseCouncilSessionInputSchema = z
+  .object({
+    session_id: z.string().min(1).describe('session_id returned by consult_llm_council'),
+  })
+  .strict();
+type CloseCouncilSessionInput = z.infer<typeof CloseCouncilSessionInputSchema>;
+
+const AskCouncilMemberInputSchema = ConsultLlmCouncilInputSchema.pick({
+  prompt: true,
+  context: true,
+  attachments: true,
+  unsupported_attachments: true,
+  deadline_ms: true,
+  session_id: true,
+})
+  .extend({
+    member: z
+      .string()
+      .min(1)
+      .describe('Member to ask: member ID, display name, alias or "tag:<tag>" matching one member'),
+  })
+  .strict();
+type AskCouncilMemberInput = z.infer<typeof AskCouncilMemberInputSchema>;
+
 const ListModelsInputSchema = z.object({}).strict();
 type ListModelsInput = z.infer<typeof ListModelsInputSchema>;
 
 const SYNTHESIS_INSTRUCTION =
   'Read the council responses and structured synthesis_data. Use it to: (1) identify areas of consensus, (2) highlight disagreements, (3) extract key insights and attribute them, (4) form your updated position, (5) explain what changed your mind. Present a synthesized answer that shows you learned from the council.';
 
+/**
+ * Rejects prompts and context over LLM_COUNCIL_MAX_INPUT_CHARS
+ * Anything below the limit is fitted into each member's context window by the Council
+ */
+function checkInputSize(request: Pick<CouncilRequest, 'prompt' | 'context'>): void {
+  const length = request.prompt.length + (request.context?.length ?? 0);
+  const { maxInputChars } = getConfig();
+  if (length > maxInputChars) {
+    throw new CouncilValidationError(
+      `Prompt and context are ${length} characters, over the limit of ${maxInputChars} (LLM_COUNCIL_MAX_INPUT_CHARS).`
+    );
+  }
+}
+
 /**
  * Core Council consultation logic (shared between all transports)
  */
 export async function consultCouncilWithProviders(
   request: CouncilRequest,
-  providers: Provider[]
+  providers: Provider[],
+  options?: { onProgress?: ProgressCallback; onSpend?: (spentUsd: number) => void }
 ): Promise<CouncilResponse> {
   if (providers.length === 0) {
     throw new Error('No Council providers available.');
   }
 
+  if (request.quorum !== undefined && request.quorum > providers.length) {
+    throw new CouncilValidationError(
+      `Quorum of ${request.quorum} exceeds the number of selected models (${providers.length}).`
+    );
+  }
+
+  checkInputSize(request);
+  // Every consultation opens or continues a session, so any answer can be followed up
+  const session = await councilSessions.open(request.session_id);
+
   // Sanitize inputs and detect injection attempts
   const sanitized = sanitizeCouncilRequest(request.prompt, request.context);
 
@@ -223,45 +907,120 @@ export async function consultCouncilWithProviders(
 
   const attachments = normalizeAttachments(request.attachments);
 
-  // Build the full prompt with context if provided
-  const fullPrompt = sanitized.context
-    ? `Context: ${sanitized.context}\n\nQuestion: ${sanitized.prompt}`
-    : sanitized.prompt;
-
-  // Create Council instance and deliberate (no automatic timeout, only user cancellation via signal)
+  // Create Council instance and deliberate (cancelled by the client signal or the optional deadline)
+  // The Council fits the prompt and context into each member's context window
+  const config = getConfig();
   const council = new Council(providers, {
     debug: config.debug,
   });
 
-  const result = await council.deliberate(fullPrompt, {
+  const result = await council.deliberate(sanitized.prompt, {
+    context: sanitized.context,
+    maxContextChunks: config.maxContextChunks,
+    history: session.turns,
     attachments,
     signal: request.signal,
+    onProgress: options?.onProgress,
+    deadlineMs: request.deadline_ms,
+    quorum: request.quorum,
+    attachmentPolicy: request.unsupported_attachments ?? config.unsupportedAttachments,
   });
 
   const showRaw = request.show_raw === true;
+  const pricing = getCouncilPricing();
+  const presetConfig = request.preset
+    ? councilPresets.get(request.preset.toLowerCase())?.preset
+    : undefined;
 
   // Transform deliberation result to response format with output sanitization
   const critiques: ModelCritique[] = result.responses.map((response) => {
     const content = response.error || response.content;
-    const sanitizedOutput = sanitizeCouncilResponse(content, { redactEmails: config.redactEmails });
+    const sanitizedOutput = sanitizeCouncilResponse(content, {
+      redactEmails: config.redactEmails,
+    });
+    const costUsd = response.usage
+      ? estimateCostUsd(response.usage, pricing[response.modelId])
+      : undefined;
+    const warnings = [
+      ...(response.warnings ?? []),
+      ...(sanitizedOutput.redacted ? sanitizedOutput.warnings : []),
+    ];
 
     return {
+      ...(response.memberId ? { member_id: response.memberId } : {}),
       model: response.provider,
       model_id: response.modelId,
       response: sanitizedOutput.text,
       latency_ms: response.latencyMs,
+      ...(response.attempts && response.attempts > 1 ? { attempts: response.attempts } : {}),
       ...(response.error ? { error: response.error } : {}),
-      ...(sanitizedOutput.redacted ? { redacted: true, warnings: sanitizedOutput.warnings } : {}),
+      ...(response.errorCode ? { error_code: response.errorCode } : {}),
+      ...(response.timedOut ? { timed_out: true } : {}),
+      ...(response.skipped ? { skipped: true } : {}),
+      ...(response.fallbackTrail
+        ? {
+            fallback_trail: response.fallbackTrail.map(
+              (attempt): FallbackTrailEntry => ({
+                model_id: attempt.modelId,
+                outcome: attempt.outcome,
+                ...(attempt.errorClass ? { error_class: attempt.errorClass } : {}),
+                ...(attempt.errorCode ? { error_code: attempt.errorCode } : {}),
+                latency_ms: attempt.latencyMs,
+              })
+            ),
+          }
+        : {}),
+      ...(response.attachments
+        ? { attachments: toAttachmentRoutingInfo(response.attachments) }
+        : {}),
+      ...(response.context ? { context: toContextHandlingInfo(response.context) } : {}),
+      ...(response.usage ? { usage: toUsageInfo(response.usage) } : {}),
+      ...(costUsd !== undefined ? { estimated_cost_usd: costUsd } : {}),
+      ...(sanitizedOutput.redacted ? { redacted: true } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
     };
   });
 
+  // Reported by the caller to the budget: the usage of the critiques, plus estimates for the
+  // requests that were paid for without a reported usage (see estimateUnreportedCostUsd)
+  const usageSummary = summarizeUsage(critiques);
+  options?.onSpend?.(
+    (usageSummary.estimated_cost_usd ?? 0) +
+      estimateUnreportedCostUsd(
+        result.responses,
+        estimateConsultationWithProviders(request, providers, presetConfig, session.turns),
+        pricing
+      )
+  );
+
+  // Members that answered continue their own conversation in follow-ups
+  const question = buildPrompt(sanitized.prompt, sanitized.context);
+  const turns: Record<string, ConversationTurn[]> = {};
+  result.responses.forEach((response, index) => {
+    if (!response.error) {
+      turns[getMemberKey({ memberId: response.memberId, name: response.provider })] = [
+        { role: 'user', content: question },
+        { role: 'assistant', content: critiques[index].response },
+      ];
+    }
+  });
+  // Unset if the session was closed while the consultation ran
+  const updatedSession = await councilSessions.record(session, turns);
+
   const baseResponse: CouncilResponse = {
+    ...(updatedSession
+      ? { session_id: updatedSession.id, session_expires_at: updatedSession.expiresAt }
+      : {}),
     critiques,
     summary: {
       models_consulted: providers.length,
       models_responded: result.successCount,
       models_failed: result.failureCount,
+      models_timed_out: result.timedOutCount,
+      models_skipped: result.skippedCount,
       total_latency_ms: result.totalLatencyMs,
+      ...(request.preset ? { preset: request.preset } : {}),
+      ...usageSummary,
     },
   };
 
@@ -277,14 +1036,136 @@ export async function consultCouncilWithProviders(
   };
 }
 
-export async function consultCouncil(request: CouncilRequest): Promise<CouncilResponse> {
+export async function consultCouncil(
+  request: CouncilRequest,
+  options?: { onProgress?: ProgressCallback }
+): Promise<CouncilResponse> {
+  if (!councilInitialized || councilProviders.length === 0) {
+    throw new Error('LLM Council not initialized. Please wait for server startup.');
+  }
+
+  const { preset, providers } = selectPresetProviders(
+    request.preset,
+    councilPresets,
+    councilProviders
+  );
+  const selectedProviders = selectCouncilProviders(request.models, providers);
+
+  // Checked before any provider is called, counting the session's earlier turns; settled with
+  // the cost of everything the providers were paid for, even if the consultation then fails
+  const history =
+    request.session_id !== undefined
+      ? (await councilSessions.open(request.session_id)).turns
+      : undefined;
+  const reservation = reserveConsultationBudget(request, selectedProviders, {
+    preset: preset ? councilPresets.get(preset.toLowerCase())?.preset : undefined,
+    history,
+  });
+  let spentUsd = 0;
+  try {
+    return await consultCouncilWithProviders({ ...request, preset }, selectedProviders, {
+      ...options,
+      onSpend: (usd) => (spentUsd = usd),
+    });
+  } finally {
+    reservation.commit(spentUsd);
+  }
+}
+
+/**
+ * Asks one Council member a follow-up question
+ * With a session_id, the member sees its own earlier questions and answers from that
+ * consultation, and the new exchange is added to the session for later follow-ups.
+ *
+ * @throws CouncilValidationError if the member selects no or several members, or did not
+ *   answer in the given session
+ */
+export async function askCouncilMember(request: MemberQuestionRequest): Promise<MemberAnswer> {
   if (!councilInitialized || councilProviders.length === 0) {
     throw new Error('LLM Council not initialized. Please wait for server startup.');
   }
+  return askCouncilMemberWithProviders(request, councilProviders);
+}
 
-  const selectedProviders = selectCouncilProviders(request.models, councilProviders);
+/**
+ * Member question logic, given the Council's providers (see askCouncilMember)
+ */
+export async function askCouncilMemberWithProviders(
+  request: MemberQuestionRequest,
+  councilMembers: Provider[]
+): Promise<MemberAnswer> {
+  const providers = selectCouncilProviders([request.member], councilMembers);
+  if (providers.length !== 1) {
+    const names = providers.map((provider) => provider.memberId ?? provider.name).join(', ');
+    throw new CouncilValidationError(
+      `"${request.member}" selects ${providers.length} members (${names}); name one of them.`
+    );
+  }
+  const [provider] = providers;
+
+  let history: Record<string, ConversationTurn[]> | undefined;
+  if (request.session_id !== undefined) {
+    history = (await councilSessions.open(request.session_id)).turns;
+    if (!history[getMemberKey(provider)]) {
+      throw new CouncilValidationError(
+        `${provider.name} did not answer in session ${request.session_id}; consult it without session_id.`
+      );
+    }
+  }
 
-  return consultCouncilWithProviders(request, selectedProviders);
+  const { member: _member, ...question } = request;
+  const councilRequest: CouncilRequest = { ...question, show_raw: true };
+  const reservation = reserveConsultationBudget(councilRequest, providers, { history });
+  let spentUsd = 0;
+  try {
+    const response = await consultCouncilWithProviders(councilRequest, providers, {
+      onSpend: (usd) => (spentUsd = usd),
+    });
+    return {
+      ...(response.session_id
+        ? { session_id: response.session_id, session_expires_at: response.session_expires_at }
+        : {}),
+      critique: response.critiques[0],
+    };
+  } finally {
+    reservation.commit(spentUsd);
+  }
+}
+
+/**
+ * Closes a council session and frees its history
+ */
+export async function closeCouncilSession(sessionId: string): Promise<CloseSessionResult> {
+  return { session_id: sessionId, closed: await councilSessions.close(sessionId) };
+}
+
+/**
+ * Builds a progress callback that forwards member completions as MCP progress notifications
+ * Returns undefined when the client did not ask for progress (no progressToken)
+ */
+export function createProgressNotifier(
+  progressToken: string | number | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressCallback | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return ({ providerName, success, completed, total }) => {
+    sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: completed,
+        total,
+        message: `${providerName} ${success ? 'responded' : 'failed'} (${completed}/${total})`,
+      },
+    }).catch((error: unknown) => {
+      if (getConfig().debug) {
+        console.error('Failed to send progress notification:', error);
+      }
+    });
+  };
 }
 
 // Create shared MCP server instance
@@ -314,37 +1195,97 @@ The Council consists of:
 
 Args:
   - prompt (string): The question or problem you need help with
-  - context (string, optional): Additional context to help models understand the situation
+  - context (string, optional): Additional context to help models understand the situation. Context larger than
+    a model's context window is critiqued in chunks and merged into one critique (at most
+    LLM_COUNCIL_MAX_CONTEXT_CHUNKS chunks; the rest is truncated). Prompt and context together may not exceed
+    LLM_COUNCIL_MAX_INPUT_CHARS characters.
   - attachments (array, optional): File attachments (base64/data URL or http(s) URL) for supported file types
+  - unsupported_attachments ("convert" | "strip" | "skip", optional): What to do with attachments a model cannot
+    accept (e.g., a PDF for a text-only model). "convert" inlines text files into the prompt and strips the rest,
+    "strip" leaves them out, "skip" does not consult that model. Defaults to LLM_COUNCIL_UNSUPPORTED_ATTACHMENTS
+    or "convert".
   - show_raw (boolean, optional): If true, omit synthesis fields and return only raw responses
-  - models (array, optional): Subset of models to consult (e.g., ["claude", "gpt"])
-    Accepted identifiers: claude, gpt, gemini, grok, llama (case-insensitive), or full display names.
+  - preset (string, optional): Named preset from list_models (e.g., "fast", "deep"). Uses the preset's members,
+    model overrides and generation settings; "models" then narrows the preset further.
+  - models (array, optional): Subset of models to consult (e.g., ["claude", "gpt"] or ["tag:coding"])
+    Accepted identifiers (case-insensitive): member IDs, display names, aliases, and "tag:<tag>" selectors, as listed by
+    list_models. Unknown names are rejected with "did you mean" suggestions.
+  - deadline_ms (number, optional): Deadline for the whole consultation. Models still running are aborted and
+    reported with timed_out=true; responses that already arrived are returned.
+  - quorum (number, optional): Return as soon as this many models have responded successfully.
+    Remaining models are aborted and reported with skipped=true.
+  - session_id (string, optional): Continue an earlier consultation. Each model is shown its own earlier questions
+    and answers from the session (shortened if they do not fit its context window), so a follow-up such as
+    "what about the edge case you raised?" needs no re-sent context. Attachments are not replayed. Unknown or
+    expired sessions return an MCP InvalidParams error.
 
 Returns:
   JSON object with schema:
   {
+    "session_id": string,         // Pass back as session_id for a follow-up; every consultation opens or continues one
+    "session_expires_at": string, // ISO timestamp; each follow-up pushes it back (LLM_COUNCIL_SESSION_TTL_MS).
+                                  //   Close the session with close_council_session when done.
     "critiques": [
       {
+        "member_id": string,    // Unique council member ID (display names may repeat)
         "model": string,        // Model name
         "model_id": string,     // Concrete model identifier used
         "response": string,     // Model's critique/suggestion
         "latency_ms": number,   // Response time
-        "error": string         // Present only if model failed
+        "error": string,        // Present only if model failed
+        "error_code": string,   // Present only if model failed: auth | rate_limited | quota_exceeded |
+                                //   context_length_exceeded | content_filtered | model_not_found |
+                                //   network | aborted | timeout | unknown
+        "timed_out": boolean,   // Present only if the deadline aborted the model
+        "skipped": boolean,     // Present only if the quorum was reached first, or the model cannot take
+                                //   the attachments (unsupported_attachments="skip")
+        "fallback_trail": Array<{ // Every model tried, in order
+          "model_id": string,
+          "outcome": "success" | "failed" | "cancelled" | "cooldown",
+          "error_class": string,  // Present only for failed attempts
+          "error_code": string,   // Present only for failed attempts; same values as error_code above
+          "latency_ms": number
+        }>,
+        "usage": {              // Present only if the provider reported token usage
+          "input_tokens": number, "output_tokens": number, "cached_input_tokens": number,
+          "reasoning_tokens": number, "total_tokens": number
+        },
+        "estimated_cost_usd": number, // Present only if the model has a price in the council config
+        "attachments": Array<{  // Present only if the request had attachments
+          "filename": string,
+          "media_type": string,
+          "handling": "sent" | "converted" | "stripped" | "skipped" // converted = inlined as prompt text
+        }>,
+        "context": {            // Present only if the prompt did not fit the model's context window
+          "handling": "truncated" | "chunked", // chunked = critiqued per chunk, then merged
+          "input_tokens": number,   // Estimated prompt and context tokens as requested
+          "budget_tokens": number,  // Tokens available per request (per context chunk, if chunked)
+          "chunks": number,         // Present only if chunked
+          "failed_chunks": number,  // Present only if some chunks failed and were left out of the merge
+          "truncated_tokens": number // Present only if part of the input was left out
+        },
+        "warnings": string[]    // Attachments converted or stripped, context truncated or chunked, redactions
       }
     ],
     "summary": {
       "models_consulted": number,
       "models_responded": number,
       "models_failed": number,
-      "total_latency_ms": number
+      "models_timed_out": number,
+      "models_skipped": number,
+      "total_latency_ms": number,
+      "preset": string,         // Present only if a preset was used
+      "usage": { ... },         // Token totals across critiques (same fields as critiques[].usage)
+      "estimated_cost_usd": number, // Sum over priced critiques
+      "unpriced_models": string[]   // Model IDs with usage but no price
     },
     "synthesis_data": {         // Omitted when show_raw=true
       "agreement_points": string[],
       "disagreements": Array<{
         "topic": string,
-        "positions": Array<{ "models": string[], "view": string }>
+        "positions": Array<{ "models": string[], "view": string }> // models = member IDs
       }>,
-      "key_insights": Array<{ "model": string, "insight": string }>,
+      "key_insights": Array<{ "model": string, "insight": string }>, // model = member ID
       "confidence": number
     },
     "synthesis_instruction": string // Omitted when show_raw=true
@@ -354,11 +1295,20 @@ Examples:
   - Use when: You're stuck debugging a complex issue -> consult the LLM Council for alternative approaches
   - Use when: You need to make an architectural decision -> get multiple perspectives
   - Use when: You're uncertain about code correctness -> get critiques from different models
-  - Use when: You want to limit cost/speed -> specify a subset with models
+  - Use when: You want to limit cost/speed -> specify a subset with models, or preset="fast"
+  - Use when: You only need a few opinions fast -> set quorum (e.g., 3 of 5)
+
+Progress:
+  - If the request includes a progressToken, a notifications/progress message is sent as each model finishes
 
 Error Handling:
   - Individual model failures are captured in the "error" field
   - The Council continues even if some models fail (partial results returned)
+  - Each failure is classified in "error_code" so agents can react programmatically
+  - Invalid requests (unknown models or presets, bad attachments, quorum too large) return an MCP InvalidParams error
+  - A consultation whose estimated cost would exceed a spending budget (per consultation, per day or per
+    client) is rejected before any model is called with an MCP InvalidRequest error; error data names the
+    budget, its limit_usd, spent_usd and the estimated_cost_usd
   - Returns error if LLM Council is not initialized`,
       inputSchema: ConsultLlmCouncilInputSchema,
       annotations: {
@@ -370,14 +1320,25 @@ Error Handling:
     },
     async (params: ConsultLlmCouncilInput, extra) => {
       try {
-        const result = await consultCouncil({
-          prompt: params.prompt,
-          context: params.context,
-          attachments: params.attachments,
-          show_raw: params.show_raw,
-          models: params.models,
-          signal: extra?.signal,
-        });
+        const result = await consultCouncil(
+          {
+            prompt: params.prompt,
+            context: params.context,
+            attachments: params.attachments,
+            unsupported_attachments: params.unsupported_attachments,
+            show_raw: params.show_raw,
+            preset: params.preset,
+            models: params.models,
+            deadline_ms: params.deadline_ms,
+            quorum: params.quorum,
+            session_id: params.session_id,
+            client: resolveClientId(extra?.requestInfo?.headers),
+            signal: extra?.signal,
+          },
+          {
+            onProgress: createProgressNotifier(extra?._meta?.progressToken, extra.sendNotification),
+          }
+        );
 
         // Format as both text (markdown) and structured data
         const lines = [
@@ -385,17 +1346,62 @@ Error Handling:
           '',
           `**Models Responded:** ${result.summary.models_responded}/${result.summary.models_consulted}`,
           `**Total Time:** ${(result.summary.total_latency_ms / 1000).toFixed(1)}s`,
-          '',
         ];
+        if (result.session_id) {
+          lines.push(`**Session:** ${result.session_id} (pass as session_id to follow up)`);
+        }
+        if (result.summary.models_timed_out > 0) {
+          lines.push(`**Timed Out:** ${result.summary.models_timed_out}`);
+        }
+        if (result.summary.models_skipped > 0) {
+          lines.push(`**Skipped:** ${result.summary.models_skipped}`);
+        }
+        if (result.summary.usage) {
+          lines.push(`**Tokens:** ${formatUsage(result.summary.usage)}`);
+        }
+        if (result.summary.estimated_cost_usd !== undefined) {
+          const unpriced = result.summary.unpriced_models
+            ? ` (excludes unpriced: ${result.summary.unpriced_models.join(', ')})`
+            : '';
+          lines.push(
+            `**Estimated Cost:** ${formatUsd(result.summary.estimated_cost_usd)}${unpriced}`
+          );
+        }
+        lines.push('');
 
         for (const critique of result.critiques) {
-          if (critique.error) {
+          if (critique.skipped) {
+            lines.push(`## ${critique.model} ⊘`);
+            lines.push(`**Model ID:** ${critique.model_id}`);
+            lines.push(
+              critique.attachments?.some((attachment) => attachment.handling === 'skipped')
+                ? `**Skipped:** ${critique.error}`
+                : '**Skipped:** quorum reached before this model responded'
+            );
+          } else if (critique.timed_out) {
+            lines.push(`## ${critique.model} ⏱`);
+            lines.push(`**Model ID:** ${critique.model_id}`);
+            lines.push(`**Timed Out:** ${critique.error}`);
+          } else if (critique.error) {
             lines.push(`## ${critique.model} ✗`);
             lines.push(`**Model ID:** ${critique.model_id}`);
             lines.push(`**Error:** ${critique.error}`);
+            if (critique.error_code) {
+              lines.push(`**Error Code:** ${critique.error_code}`);
+            }
           } else {
             lines.push(`## ${critique.model} ✓`);
             lines.push(`**Model ID:** ${critique.model_id}`);
+            if (critique.usage) {
+              lines.push(`**Usage:** ${formatUsage(critique.usage, critique.estimated_cost_usd)}`);
+            }
+            for (const attachment of critique.attachments ?? []) {
+              if (attachment.handling !== 'sent') {
+                lines.push(
+                  `**Attachment ${attachment.handling}:** ${attachment.filename ?? attachment.media_type}`
+                );
+              }
+            }
             lines.push(critique.response);
           }
           lines.push('');
@@ -428,7 +1434,217 @@ Error Handling:
           structuredContent: result as unknown as Record<string, unknown>, // Modern pattern for structured data
         };
       } catch (error) {
-        throw toMcpError(error, config.debug);
+        throw toMcpError(error, getConfig().debug);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'ask_council_member',
+    {
+      title: 'Ask One LLM Council Member',
+      description: `Ask a single Council member a follow-up question, e.g. to elaborate on its critique.
+
+Cheaper and more focused than consulting the whole Council again. Pass the session_id of an earlier
+consult_llm_council call so the member sees its own earlier questions and answers, including its original
+critique; the new exchange is added to that session, so later consultations in it see it too.
+
+Args:
+  - member (string): Member ID, display name, alias or "tag:<tag>", as listed by list_models. It must select
+    exactly one member (a member with personas has one ID per persona, e.g. "claude.skeptic").
+  - prompt (string): The follow-up question
+  - context (string, optional): Additional context
+  - attachments (array, optional): As for consult_llm_council
+  - unsupported_attachments ("convert" | "strip" | "skip", optional): As for consult_llm_council
+  - deadline_ms (number, optional): Deadline for the answer
+  - session_id (string, optional): session_id of an earlier consultation the member answered in. Without it, a new
+    session is opened.
+
+Returns:
+  JSON object with schema:
+  {
+    "session_id": string,          // Without session_id, a new session is opened
+    "session_expires_at": string,
+    "critique": { ... }  // Same fields as consult_llm_council's critiques[]
+  }
+
+Error Handling:
+  - A member that selects no or several members, or did not answer in the given session, returns an MCP
+    InvalidParams error, as do unknown or expired sessions
+  - A failure of the member itself is reported in critique.error and critique.error_code
+  - Spending budgets apply as for consult_llm_council`,
+      inputSchema: AskCouncilMemberInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: AskCouncilMemberInput, extra) => {
+      try {
+        const answer = await askCouncilMember({
+          member: params.member,
+          prompt: params.prompt,
+          context: params.context,
+          attachments: params.attachments,
+          unsupported_attachments: params.unsupported_attachments,
+          deadline_ms: params.deadline_ms,
+          session_id: params.session_id,
+          client: resolveClientId(extra?.requestInfo?.headers),
+          signal: extra?.signal,
+        });
+
+        const { critique } = answer;
+        const lines = [
+          `# ${critique.model} ${critique.error ? '✗' : '✓'}`,
+          '',
+          `**Model ID:** ${critique.model_id}`,
+        ];
+        if (answer.session_id) {
+          lines.push(`**Session:** ${answer.session_id} (pass as session_id to follow up)`);
+        }
+        if (critique.usage) {
+          lines.push(`**Usage:** ${formatUsage(critique.usage, critique.estimated_cost_usd)}`);
+        }
+        if (critique.error) {
+          lines.push(`**Error:** ${critique.error}`);
+          if (critique.error_code) {
+            lines.push(`**Error Code:** ${critique.error_code}`);
+          }
+        } else {
+          for (const warning of critique.warnings ?? []) {
+            lines.push(`- ${warning}`);
+          }
+          lines.push('', critique.response);
+        }
+
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+          structuredContent: answer as unknown as Record<string, unknown>,
+        };
+      } catch (error) {
+        throw toMcpError(error, getConfig().debug);
+      }
+    }
+  );
+
+  mcpServer.registerTool(
+    'estimate_consultation',
+    {
+      title: 'Estimate LLM Council Consultation',
+      description: `Estimate a consult_llm_council call without calling any model.
+
+Takes the same arguments as consult_llm_council and returns, per member, the estimated tokens, whether they fit
+the context window, the expected cost and which attachments the member can accept, plus the members that would
+be skipped and whether a spending budget would reject the consultation. Use it to decide whether a
+consultation is worth it before making it.
+
+Token counts are approximations (about four characters per token, a fixed amount per image). Output is the
+member's max_output_tokens or LLM_COUNCIL_ESTIMATE_OUTPUT_TOKENS. With a session_id, each member's earlier turns
+in the session are counted as they would be replayed.
+
+Returns:
+  JSON object with schema:
+  {
+    "members": [
+      {
+        "member_id": string,
+        "name": string,
+        "model_id": string,      // Primary model the estimate is priced at
+        "input_tokens": number,  // Prompt, context, routed attachments and system prompt
+        "output_tokens": number,
+        "context_window": number, // Present only if the provider's context window is known
+        "fits_context": boolean, // Whether the request fits as sent, before truncation or chunking
+        "estimated_cost_usd": number, // Present only if the model has a price in the council config
+        "attachments": Array<{ "filename": string, "media_type": string, "handling": string }>, // As for
+                                 //   consult_llm_council: sent | converted | stripped
+        "context": { ... },      // As for consult_llm_council; chunked members count every chunk's
+                                 //   request and the merge
+        "warnings": string[]     // Converted or stripped attachments, context truncated or chunked
+      }
+    ],
+    "skipped": Array<{ "member_id": string, "name": string, "reason": string }>, // No API key, or cannot take
+                                 //   the attachments (unsupported_attachments="skip")
+    "summary": {
+      "members_consulted": number,
+      "members_skipped": number,
+      "input_tokens": number,
+      "output_tokens": number,
+      "estimated_cost_usd": number,
+      "unpriced_models": string[], // Optional
+      "preset": string,            // Present only if a preset was used
+      "budget": { "allowed": boolean, "error": string } // error explains which budget would reject it
+    }
+  }
+
+Error Handling:
+  - Invalid requests (unknown models or presets, bad attachments) return an MCP InvalidParams error
+  - Returns error if LLM Council is not initialized`,
+      inputSchema: ConsultLlmCouncilInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params: ConsultLlmCouncilInput, extra) => {
+      try {
+        const estimate = await estimateConsultation({
+          prompt: params.prompt,
+          context: params.context,
+          attachments: params.attachments,
+          unsupported_attachments: params.unsupported_attachments,
+          preset: params.preset,
+          models: params.models,
+          session_id: params.session_id,
+          client: resolveClientId(extra?.requestInfo?.headers),
+        });
+
+        const { summary } = estimate;
+        const unpriced = summary.unpriced_models
+          ? ` (excludes unpriced: ${summary.unpriced_models.join(', ')})`
+          : '';
+        const lines = [
+          '# LLM Council Consultation Estimate',
+          '',
+          `**Members:** ${summary.members_consulted}${summary.members_skipped > 0 ? ` (${summary.members_skipped} skipped)` : ''}`,
+          `**Estimated Tokens:** ${summary.input_tokens} in / ${summary.output_tokens} out`,
+          `**Estimated Cost:** ${formatUsd(summary.estimated_cost_usd)}${unpriced}`,
+          `**Budget:** ${summary.budget.allowed ? 'within budget' : `would be rejected - ${summary.budget.error}`}`,
+          '',
+        ];
+
+        for (const member of estimate.members) {
+          lines.push(`## ${member.name}${member.fits_context === false ? ' ⚠' : ''}`);
+          lines.push(`**Model ID:** ${member.model_id}`);
+          lines.push(
+            `**Tokens:** ${member.input_tokens} in / ${member.output_tokens} out${member.context_window !== undefined ? ` of ${member.context_window}` : ''}`
+          );
+          if (member.estimated_cost_usd !== undefined) {
+            lines.push(`**Estimated Cost:** ${formatUsd(member.estimated_cost_usd)}`);
+          }
+          for (const warning of member.warnings ?? []) {
+            lines.push(`- ${warning}`);
+          }
+          lines.push('');
+        }
+
+        if (estimate.skipped.length > 0) {
+          lines.push('## Skipped');
+          for (const member of estimate.skipped) {
+            lines.push(`- ${member.name}: ${member.reason}`);
+          }
+          lines.push('');
+        }
+
+        return {
+          content: [{ type: 'text', text: lines.join('\n') }],
+          structuredContent: estimate as unknown as Record<string, unknown>,
+        };
+      } catch (error) {
+        throw toMcpError(error, getConfig().debug);
       }
     }
   );
@@ -437,17 +1653,43 @@ Error Handling:
     'list_models',
     {
       title: 'List LLM Council Models',
-      description: `List the currently available LLM Council models by name.
+      description: `List the currently available LLM Council models by name, and the configured presets.
 
-Use this tool to discover the exact model names that can be passed to consult_llm_council.
+Use this tool to discover the exact model and preset names that can be passed to consult_llm_council.
 
 Returns:
   JSON object with schema:
   {
     "models": [
       {
+        "member_id": string,   // Unique member ID, accepted in consult_llm_council's "models"
         "name": string,        // Display name (e.g., "Claude Sonnet 4.5")
-        "model_id": string     // Concrete model identifier used (e.g., "claude-sonnet-4-5-20250929")
+        "model_id": string,    // Concrete model identifier used (e.g., "claude-sonnet-4-5-20250929")
+        "aliases": string[],   // Optional: other names accepted in consult_llm_council's "models"
+        "tags": string[],      // Optional: labels selectable as "tag:<name>"
+        "fallback_chain": Array<{ // Cooldown state of each configured model
+          "model_id": string,
+          "cooling_down": boolean,
+          "cooldown_remaining_ms": number
+        }>,
+        "available_models": string[], // Optional: models present at the endpoint (e.g., pulled in Ollama)
+        "discovery_error": string      // Optional: why model discovery failed
+      }
+    ],
+    "presets": [
+      {
+        "name": string,         // Value for consult_llm_council's "preset" (e.g., "fast")
+        "description": string,  // Optional
+        "members": Array<{
+          "member_id": string,
+          "name": string,
+          "models": string[],   // Model chain used under this preset
+          "available": boolean, // False if the member is skipped (e.g., no API key)
+          "settings": {         // Optional: preset settings applied over the member's own
+            "temperature": number, "max_output_tokens": number, "top_p": number, "seed": number,
+            "stop_sequences": string[], "system_prompt": string, "provider_options": object
+          }
+        }>
       }
     ]
   }`,
@@ -459,23 +1701,102 @@ Returns:
         openWorldHint: false,
       },
     },
-    (_params: ListModelsInput) => {
+    async (_params: ListModelsInput, extra) => {
       if (!councilInitialized || councilProviders.length === 0) {
         throw new Error('LLM Council not initialized. Please wait for server startup.');
       }
 
-      const models = listCouncilModels(councilProviders);
+      const models = await listCouncilModels(councilProviders, extra?.signal);
       const lines = ['# Available Council Models', ''];
       for (const model of models) {
-        lines.push(`- ${model.name} (${model.model_id})`);
+        lines.push(
+          `- ${model.name}${model.member_id ? ` [${model.member_id}]` : ''} (${model.model_id})`
+        );
+        if (model.aliases) {
+          lines.push(`  - aliases: ${model.aliases.join(', ')}`);
+        }
+        if (model.tags) {
+          lines.push(`  - tags: ${model.tags.join(', ')}`);
+        }
+        for (const fallback of model.fallback_chain ?? []) {
+          if (fallback.cooling_down) {
+            lines.push(
+              `  - ${fallback.model_id}: cooling down (${Math.ceil(fallback.cooldown_remaining_ms / 1000)}s remaining)`
+            );
+          }
+        }
+        if (model.available_models) {
+          lines.push(`  - available: ${model.available_models.join(', ') || 'none'}`);
+        }
+        if (model.discovery_error) {
+          lines.push(`  - model discovery failed: ${model.discovery_error}`);
+        }
+      }
+
+      const presets = listCouncilPresets(councilPresets);
+      if (presets.length > 0) {
+        lines.push('', '# Presets', '');
+        for (const preset of presets) {
+          lines.push(`- ${preset.name}${preset.description ? `: ${preset.description}` : ''}`);
+          for (const member of preset.members) {
+            lines.push(
+              `  - ${member.name} (${member.models.join(' → ')})${member.available ? '' : ' - unavailable'}`
+            );
+          }
+        }
       }
 
       return {
         content: [{ type: 'text', text: lines.join('\n') }],
-        structuredContent: { models },
+        structuredContent: { models, presets },
       };
     }
   );
+
+  mcpServer.registerTool(
+    'close_council_session',
+    {
+      title: 'Close LLM Council Session',
+      description: `Close a council session and free the conversation history it holds.
+
+Sessions also expire on their own after LLM_COUNCIL_SESSION_TTL_MS without use; closing one early frees it now.
+
+Args:
+  - session_id (string): session_id returned by consult_llm_council
+
+Returns:
+  JSON object with schema:
+  {
+    "session_id": string,
+    "closed": boolean  // False if the session was unknown or had already expired
+  }`,
+      inputSchema: CloseCouncilSessionInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true, // The session's history is deleted
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params: CloseCouncilSessionInput) => {
+      try {
+        const result = await closeCouncilSession(params.session_id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.closed
+                ? `Session ${result.session_id} closed.`
+                : `Session ${result.session_id} was not open (unknown or expired).`,
+            },
+          ],
+          structuredContent: result as unknown as Record<string, unknown>,
+        };
+      } catch (error) {
+        throw toMcpError(error, getConfig().debug);
+      }
+    }
+  );
 }
 
 // Register tools on module load
@@ -6,18 +6,23 @@
  * the server as a subprocess and communicate via stdin/stdout.
  *
  * Usage:
- *   node dist/src/server/stdio.js
+ *   node dist/src/server/stdio.js [--config council.config.yaml]
  *
  * The server reads JSON-RPC messages from stdin and writes responses to stdout.
  * All logging is written to stderr to avoid polluting the JSON-RPC stream.
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { mcpServer, initializeCouncil } from './shared.js';
-import { getMissingApiKeys } from '../config.js';
+import { mcpServer, initializeCouncil, watchCouncilConfig } from './shared.js';
+import { loadConfig } from '../config.js';
+import { getMissingApiKeys } from '../providers/index.js';
+import { parseConfigFlag, setCouncilConfigPath } from '../council-config.js';
 
 async function startStdioServer() {
   try {
+    // Runtime council config file (--config <path>), read before the Council is built
+    setCouncilConfigPath(parseConfigFlag(process.argv.slice(2)));
+
     // Validate API keys (log to stderr)
     const missingKeys = getMissingApiKeys();
     if (missingKeys.length > 0) {
@@ -26,7 +31,12 @@ async function startStdioServer() {
     }
 
     // Initialize Council (must happen before transport.start())
-    initializeCouncil();
+    await initializeCouncil();
+
+    // Rebuild the Council on SIGHUP or when .env / the config file changes
+    if (loadConfig().watchConfig) {
+      watchCouncilConfig();
+    }
 
     // Create stdio transport
     const transport = new StdioServerTransport();
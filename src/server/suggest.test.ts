@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest';
+import { editDistance, suggestClosest } from './suggest.js';
+
+describe('editDistance', () => {
+  test('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('claude', 'claude')).toBe(0);
+    expect(editDistance('clade', 'claude')).toBe(1);
+    expect(editDistance('gtp', 'gpt')).toBe(2);
+    expect(editDistance('', 'grok')).toBe(4);
+  });
+});
+
+describe('suggestClosest', () => {
+  const candidates = ['Claude', 'GPT', 'Gemini', 'Grok', 'Llama 4 Maverick', 'tag:coding'];
+
+  test('suggests the closest names first', () => {
+    expect(suggestClosest('clade', candidates)).toEqual(['Claude']);
+    expect(suggestClosest('grk', candidates)[0]).toBe('Grok');
+  });
+
+  test('suggests names that contain the input', () => {
+    expect(suggestClosest('maverick', candidates)).toEqual(['Llama 4 Maverick']);
+    expect(suggestClosest('tag:codng', candidates)).toEqual(['tag:coding']);
+  });
+
+  test('returns nothing for unrelated input', () => {
+    expect(suggestClosest('mistral-large', candidates)).toEqual([]);
+    expect(suggestClosest('  ', candidates)).toEqual([]);
+  });
+});
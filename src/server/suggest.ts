@@ -0,0 +1,63 @@
+/**
+ * "Did you mean" suggestions for unknown model names, aliases and tags
+ */
+
+/**
+ * Levenshtein distance: the number of single-character insertions, deletions or
+ * substitutions needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Returns the candidates closest to the input, best first (case-insensitive)
+ * A candidate qualifies if it contains the input (or vice versa) or is within
+ * max(2, a third of the input length) edits.
+ *
+ * @param input - Unknown name as requested
+ * @param candidates - Known names to suggest from
+ * @param limit - Maximum number of suggestions
+ */
+export function suggestClosest(input: string, candidates: string[], limit = 3): string[] {
+  const needle = input.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+  const scored: Array<{ candidate: string; score: number }> = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    const normalized = candidate.toLowerCase();
+    if (seen.has(normalized)) {
+      continue;
+    }
+    seen.add(normalized);
+
+    const distance = editDistance(needle, normalized);
+    const contains =
+      needle.length >= 3 && (normalized.includes(needle) || needle.includes(normalized));
+    if (distance <= maxDistance || contains) {
+      // Containment ranks just behind a single typo
+      scored.push({ candidate, score: contains ? Math.min(distance, 1.5) : distance });
+    }
+  }
+
+  return scored
+    .sort((left, right) => left.score - right.score)
+    .slice(0, limit)
+    .map((entry) => entry.candidate);
+}
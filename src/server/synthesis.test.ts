@@ -54,3 +54,25 @@ describe('extractSynthesisData', () => {
     expect(models).toContain('GPT');
   });
 });
+
+describe('extractSynthesisData with repeated display names', () => {
+  test('attributes by member ID so same-vendor members do not collide', () => {
+    const critiques: ModelCritique[] = [
+      {
+        ...critique('Claude', 'Split the service by bounded context. Keep the schema shared.'),
+        member_id: 'claude-sonnet',
+      },
+      {
+        ...critique('Claude', 'Keep a single deployable. Extract modules behind interfaces.'),
+        member_id: 'claude-opus',
+      },
+    ];
+
+    const synthesis = extractSynthesisData(critiques);
+
+    expect(synthesis.key_insights.map((item) => item.model)).toEqual([
+      'claude-sonnet',
+      'claude-opus',
+    ]);
+  });
+});
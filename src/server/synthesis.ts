@@ -177,10 +177,12 @@ export function extractSynthesisData(critiques: ModelCritique[]): SynthesisData
   const claimsByModel = new Map<string, Claim[]>();
   const claimSetsByModel = new Map<string, Set<string>>();
 
+  // Attribute by member ID: display names are not unique when a vendor seats several members
   for (const critique of successful) {
     const claims = extractClaims(critique.response);
-    claimsByModel.set(critique.model, claims);
-    claimSetsByModel.set(critique.model, new Set(claims.map((claim) => claim.key)));
+    const memberKey = critique.member_id ?? critique.model;
+    claimsByModel.set(memberKey, claims);
+    claimSetsByModel.set(memberKey, new Set(claims.map((claim) => claim.key)));
   }
 
   // Agreement points: claims present across all successful models.
@@ -279,11 +281,12 @@ export function extractSynthesisData(critiques: ModelCritique[]): SynthesisData
 
   const key_insights = successful
     .map((critique) => {
-      const claims = claimsByModel.get(critique.model) ?? [];
+      const memberKey = critique.member_id ?? critique.model;
+      const claims = claimsByModel.get(memberKey) ?? [];
       const insight = pickKeyInsight(claims);
       if (!insight) return null;
       return {
-        model: critique.model,
+        model: memberKey,
         insight,
       };
     })
@@ -4,7 +4,13 @@
  * Request/response interfaces for the Council daemon server.
  */
 
-import type { ProviderAttachment } from '../providers/types.js';
+import type { AttachmentPolicy } from '../council/types.js';
+import type { ProviderErrorCode } from '../providers/errors.js';
+import type {
+  AttachmentHandling,
+  ContextHandling,
+  ProviderAttachment,
+} from '../providers/types.js';
 
 /**
  * Council consultation request
@@ -13,22 +19,236 @@ export interface CouncilRequest {
   prompt: string; // The question or prompt to consult Council about
   context?: string; // Optional additional context
   attachments?: ProviderAttachment[]; // Optional file attachments
+  unsupported_attachments?: AttachmentPolicy; // What to do with attachments a member cannot accept
   signal?: AbortSignal; // Optional abort signal for user cancellation
   show_raw?: boolean; // Optional flag to skip synthesis data and instruction
   models?: string[]; // Optional list of model identifiers to query (e.g., ["claude", "gpt"])
+  preset?: string; // Optional named preset; `models` then narrows the preset's members
+  client?: string; // Client the consultation is charged to (per-client budgets)
+  deadline_ms?: number; // Optional deadline; late models are aborted and partial results returned
+  quorum?: number; // Optional number of successful responses to wait for before skipping the rest
+  session_id?: string; // Optional session to continue; each member sees its own earlier turns
+}
+
+/**
+ * Follow-up question for a single Council member (ask_council_member)
+ */
+export interface MemberQuestionRequest extends Pick<
+  CouncilRequest,
+  | 'prompt'
+  | 'context'
+  | 'attachments'
+  | 'unsupported_attachments'
+  | 'signal'
+  | 'client'
+  | 'deadline_ms'
+  | 'session_id'
+> {
+  member: string; // Member ID, display name, alias or tag:<tag> that selects exactly one member
+}
+
+/**
+ * One model tried by a member's fallback chain
+ */
+export interface FallbackTrailEntry {
+  model_id: string; // Model identifier that was tried (or skipped)
+  outcome: 'success' | 'failed' | 'cancelled' | 'cooldown'; // cancelled = lost a hedged race
+  error_class?: string; // Error class of the failure (e.g., "AI_APICallError")
+  error_code?: ProviderErrorCode; // Classified failure type of a failed attempt (e.g., "timeout")
+  latency_ms: number; // Time spent on this model
+}
+
+/**
+ * Cooldown state of one model in a member's fallback chain
+ */
+export interface ModelCooldownState {
+  model_id: string;
+  cooling_down: boolean;
+  cooldown_remaining_ms: number;
+}
+
+/**
+ * Hot-reload state of the Council, reported by /health
+ */
+export interface CouncilReloadStatus {
+  generation: number; // 0 at startup, incremented by each successful reload
+  config_source: string; // Config file in use, or "council.config.ts"
+  last_reload_at?: string; // ISO timestamp of the last successful reload
+  last_reload_reason?: string; // What triggered it (e.g., "SIGHUP", a changed file)
+  last_error?: string; // Why the most recent reload failed (cleared by the next success)
+  last_error_at?: string;
+}
+
+/**
+ * Spending budgets and what has been spent, reported by /health
+ */
+export interface CouncilBudgetStatus {
+  limits: {
+    per_consultation_usd?: number;
+    per_day_usd?: number;
+    per_client_usd?: number; // Per UTC day, for each client
+  };
+  day: string; // UTC date (YYYY-MM-DD) the daily totals belong to
+  spent_today_usd: number; // Estimated cost of consultations completed today
+  reserved_usd: number; // Pre-dispatch estimates of consultations still running
+  clients: Record<string, number>; // Spent today per client, in USD
+}
+
+/**
+ * One Council member as reported by list_models
+ */
+export interface CouncilModelInfo {
+  member_id?: string; // Unique member ID, accepted in consult_llm_council's `models`
+  name: string;
+  model_id: string;
+  aliases?: string[]; // Other names accepted in consult_llm_council's `models`
+  tags?: string[]; // Labels selectable as "tag:<name>"
+  fallback_chain?: ModelCooldownState[]; // Cooldown state of each configured model
+  available_models?: string[]; // Models present at the member's endpoint (e.g., pulled in Ollama)
+  discovery_error?: string; // Set when the endpoint could not be asked for its models
+}
+
+/**
+ * One member of a preset, as listed by list_models
+ */
+export interface CouncilPresetMemberInfo {
+  member_id: string;
+  name: string;
+  models: string[]; // Model chain used by this preset (overrides the member's own)
+  available: boolean; // False if the member was skipped (e.g., no API key)
+  settings?: {
+    temperature?: number;
+    max_output_tokens?: number;
+    top_p?: number;
+    seed?: number;
+    stop_sequences?: string[];
+    system_prompt?: string;
+    provider_options?: Record<string, Record<string, unknown>>;
+  }; // Preset settings (applied over the member's own settings)
+}
+
+/**
+ * Named preset returned by list_models
+ */
+export interface CouncilPresetInfo {
+  name: string;
+  description?: string;
+  members: CouncilPresetMemberInfo[];
+}
+
+/**
+ * Token counts of a critique, or totals across critiques
+ */
+export interface TokenUsageInfo {
+  input_tokens?: number; // Prompt tokens, cached ones included
+  output_tokens?: number; // Completion tokens, reasoning ones included
+  cached_input_tokens?: number;
+  reasoning_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * How one attachment reached a member
+ */
+export interface AttachmentRoutingInfo {
+  filename?: string;
+  media_type: string;
+  handling: AttachmentHandling['handling']; // sent | converted (inlined as text) | stripped | skipped
+}
+
+/**
+ * How a member's prompt was fitted into its context window
+ */
+export interface ContextHandlingInfo {
+  handling: ContextHandling['handling']; // truncated | chunked (map-reduce over context chunks)
+  input_tokens: number; // Estimated tokens of the prompt and context as requested
+  budget_tokens: number; // Tokens available for them per request (for each context chunk, if chunked)
+  chunks?: number; // Number of context chunks critiqued separately
+  failed_chunks?: number; // Chunks whose critique failed and were left out of the merge
+  truncated_tokens?: number; // Estimated tokens left out
+}
+
+/**
+ * Answer of a single Council member (ask_council_member)
+ */
+export interface MemberAnswer {
+  session_id?: string; // Same as consult_llm_council's; the exchange is added to the member's history
+  session_expires_at?: string;
+  critique: ModelCritique;
+}
+
+/**
+ * Result of close_council_session
+ */
+export interface CloseSessionResult {
+  session_id: string;
+  closed: boolean; // False if the session was unknown or had already expired
 }
 
 /**
  * Individual model critique
  */
 export interface ModelCritique {
+  member_id?: string; // Unique council member ID (display names may repeat)
   model: string; // Model name (e.g., "Claude Sonnet 4.5")
   model_id: string; // Concrete model identifier (e.g., "gpt-4o")
   response: string; // The model's critique/response
   latency_ms: number; // Time taken for this model to respond
+  attempts?: number; // Number of attempts, present if transient errors were retried
   error?: string; // Error message if the model failed
+  error_code?: ProviderErrorCode; // Classified failure type if the model failed (e.g., "rate_limited")
+  timed_out?: boolean; // True if the model was aborted by the consultation deadline
+  skipped?: boolean; // True if the quorum was reached first, or the model cannot take the attachments
+  fallback_trail?: FallbackTrailEntry[]; // Every model tried for this critique, in order
+  attachments?: AttachmentRoutingInfo[]; // How each attachment reached this model
+  context?: ContextHandlingInfo; // Present if the prompt did not fit the model's context window
+  usage?: TokenUsageInfo; // Present if the provider reported token usage
+  estimated_cost_usd?: number; // Present if the model has a price in the council config
   redacted?: boolean; // True if sensitive data was redacted from the response
-  warnings?: string[]; // Security warnings (e.g., sensitive data detected)
+  warnings?: string[]; // Attachment routing, context and security warnings (e.g., sensitive data detected)
+}
+
+/**
+ * Pre-flight estimate for one member, returned by estimate_consultation
+ */
+export interface MemberEstimate {
+  member_id?: string;
+  name: string;
+  model_id: string; // Primary model the estimate is priced at
+  input_tokens: number; // Prompt, context, routed attachments and the member's system prompt
+  output_tokens: number; // The member's maxOutputTokens, or the configured assumption (capped by the model's)
+  context_window?: number; // Present if the provider's context window is known
+  fits_context?: boolean; // Present if the provider's context window is known
+  estimated_cost_usd?: number; // Present if the model has a price in the council config
+  attachments?: AttachmentRoutingInfo[]; // How each attachment would reach the member
+  context?: ContextHandlingInfo; // Present if the prompt would not fit the context window
+  warnings?: string[];
+  skip_reason?: string; // Present if the member would not be consulted (it is listed in skipped)
+}
+
+/**
+ * Pre-flight estimate of a consultation, returned by estimate_consultation
+ */
+export interface ConsultationEstimate {
+  members: MemberEstimate[]; // Members that would be consulted
+  skipped: Array<{
+    member_id: string;
+    name: string;
+    reason: string; // e.g., "No API key configured"
+  }>; // Configured members that would not be consulted
+  summary: {
+    members_consulted: number;
+    members_skipped: number;
+    input_tokens: number; // Summed across members
+    output_tokens: number; // Summed across members
+    estimated_cost_usd: number; // Sum over priced members
+    unpriced_models?: string[]; // Model IDs without a price
+    preset?: string;
+    budget: {
+      allowed: boolean; // False if the consultation would be rejected by a spending budget
+      error?: string;
+    };
+  };
 }
 
 /**
@@ -39,12 +259,12 @@ export interface SynthesisData {
   disagreements: Array<{
     topic: string;
     positions: Array<{
-      models: string[];
+      models: string[]; // Member IDs (critiques[].member_id)
       view: string;
     }>;
   }>;
   key_insights: Array<{
-    model: string;
+    model: string; // Member ID (critiques[].member_id)
     insight: string;
   }>;
   confidence: number; // 0-1 score representing agreement level
@@ -54,12 +274,20 @@ export interface SynthesisData {
  * Council consultation response
  */
 export interface CouncilResponse {
+  session_id?: string; // Pass back as session_id to follow up; unset only if the session was closed meanwhile
+  session_expires_at?: string; // ISO timestamp; each follow-up pushes it back
   critiques: ModelCritique[]; // Array of responses from each model
   summary: {
     models_consulted: number; // Total number of models queried
     models_responded: number; // Number of models that successfully responded
     models_failed: number; // Number of models that failed
+    models_timed_out: number; // Number of models aborted by the consultation deadline
+    models_skipped: number; // Number of models skipped (quorum reached, or attachments they cannot take)
     total_latency_ms: number; // Total time for all queries
+    preset?: string; // Preset used for the consultation, if any
+    usage?: TokenUsageInfo; // Totals across critiques that reported usage
+    estimated_cost_usd?: number; // Sum of the priced critiques
+    unpriced_models?: string[]; // Model IDs that reported usage but have no price
   };
   synthesis_data?: SynthesisData;
   synthesis_instruction?: string;